@@ -0,0 +1,154 @@
+/**
+ * Command line tools, run alongside or instead of the server (`npm run cli --` in
+ * development):
+ *
+ *   node dist/cli.js import-openf1 <sessionKey> [--overwrite] [--gzip]
+ *   node dist/cli.js import-archive <directory|url> [--overwrite] [--gzip]
+ *   node dist/cli.js check-recording <id|directory>
+ *   node dist/cli.js repair-recording <id|directory>
+ *
+ * Reads the same DATA_DIR / RECORDINGS_DIR / OPENF1_CACHE_DIR as the server.
+ */
+
+import { existsSync, mkdirSync } from 'node:fs';
+import { OpenF1Client } from './openf1/client.js';
+import { importOpenF1Session } from './recording/openf1-import.js';
+import {
+  directoryArchive,
+  httpArchive,
+  importArchiveSession,
+} from './recording/archive-import.js';
+import {
+  checkRecording,
+  repairRecording,
+  type IntegrityReport,
+} from './recording/integrity.js';
+import { recordingDir } from './recording/storage.js';
+import { RECORDINGS_DIR, OPENF1_CACHE_DIR } from './config/paths.js';
+import { logger } from './util/logger.js';
+
+const USAGE = `Usage:
+  node dist/cli.js import-openf1 <sessionKey> [--overwrite] [--gzip]     Save an OpenF1 session as a recording
+  node dist/cli.js import-archive <directory|url> [--overwrite] [--gzip] Save an F1 static archive session
+  node dist/cli.js check-recording <id|directory>                        Report damage in a recording
+  node dist/cli.js repair-recording <id|directory>                       Repair a recording (not one being recorded)`;
+
+async function importOpenF1(args: string[]): Promise<void> {
+  const sessionKey = Number(args.find((a) => !a.startsWith('--')));
+  if (!Number.isInteger(sessionKey)) {
+    throw new Error(`A numeric session key is required\n\n${USAGE}`);
+  }
+
+  mkdirSync(RECORDINGS_DIR, { recursive: true });
+  const imported = await importOpenF1Session(sessionKey, {
+    recordingsDir: RECORDINGS_DIR,
+    client: new OpenF1Client(undefined, { cacheDir: OPENF1_CACHE_DIR }),
+    overwrite: args.includes('--overwrite'),
+    compress: args.includes('--gzip'),
+  });
+  console.log(
+    `Imported ${imported.metadata.sessionName} (${imported.entries} entries) to ${imported.dir}`,
+  );
+}
+
+async function importArchive(args: string[]): Promise<void> {
+  const location = args.find((a) => !a.startsWith('--'));
+  if (!location) {
+    throw new Error(`A session directory or URL is required\n\n${USAGE}`);
+  }
+
+  mkdirSync(RECORDINGS_DIR, { recursive: true });
+  const reader = /^https?:\/\//.test(location)
+    ? httpArchive(location)
+    : directoryArchive(location);
+  const imported = await importArchiveSession(reader, {
+    recordingsDir: RECORDINGS_DIR,
+    overwrite: args.includes('--overwrite'),
+    compress: args.includes('--gzip'),
+  });
+  console.log(
+    `Imported ${imported.metadata.sessionName} (${imported.entries} entries) to ${imported.dir}`,
+  );
+}
+
+/** A recording id in RECORDINGS_DIR, or a path to any recording directory */
+function resolveRecording(args: string[]): string {
+  const ref = args.find((a) => !a.startsWith('--'));
+  if (!ref) throw new Error(`A recording id or directory is required\n\n${USAGE}`);
+  const dir = recordingDir(RECORDINGS_DIR, ref) ?? (existsSync(ref) ? ref : null);
+  if (!dir) throw new Error(`No recording found: ${ref}`);
+  return dir;
+}
+
+function printReport(report: IntegrityReport): void {
+  console.log(`${report.dir}: ${report.ok ? 'OK' : 'DAMAGED'}`);
+  console.log(
+    `  ${report.entries} entries, ${report.firstTimestamp ?? '-'} to ${report.lastTimestamp ?? '-'}`,
+  );
+  const problems: Array<[boolean, string]> = [
+    [report.missingTimeline, 'no message log'],
+    [report.missingSubscribe, 'no subscribe.json'],
+    [report.missingMetadata, 'no readable metadata.json'],
+    [report.missingEndTime, 'no endTime in metadata.json'],
+    [
+      report.malformedCount > 0,
+      `${report.malformedCount} malformed lines (${report.malformedLines.join(', ')})` +
+        (report.truncated ? ', the last one cut off' : ''),
+    ],
+    [
+      report.readError !== null,
+      `unreadable after ${report.entries} entries: ${report.readError}`,
+    ],
+    [
+      report.outOfOrderCount > 0,
+      `${report.outOfOrderCount} out-of-order timestamps (warning)`,
+    ],
+    [report.gaps.length > 0, `${report.gaps.length} gaps in the feed (warning)`],
+  ];
+  for (const [present, problem] of problems) {
+    if (present) console.log(`  - ${problem}`);
+  }
+  for (const gap of report.gaps) {
+    console.log(`    ${gap.from} → ${gap.to} (${gap.seconds}s)`);
+  }
+}
+
+async function checkRecordingCommand(args: string[]): Promise<void> {
+  const report = await checkRecording(resolveRecording(args));
+  printReport(report);
+  if (!report.ok) process.exitCode = 1;
+}
+
+async function repairRecordingCommand(args: string[]): Promise<void> {
+  const result = await repairRecording(resolveRecording(args));
+  console.log(
+    `Dropped ${result.droppedLines} lines` +
+      (result.reordered ? ', reordered entries' : '') +
+      (result.endTime ? `, set endTime to ${result.endTime}` : ''),
+  );
+  printReport(result.report);
+  if (!result.report.ok) process.exitCode = 1;
+}
+
+async function main(argv: string[]): Promise<void> {
+  const [command, ...args] = argv;
+  switch (command) {
+    case 'import-openf1':
+      return importOpenF1(args);
+    case 'import-archive':
+      return importArchive(args);
+    case 'check-recording':
+      return checkRecordingCommand(args);
+    case 'repair-recording':
+      return repairRecordingCommand(args);
+    default:
+      console.error(USAGE);
+      process.exitCode = 1;
+  }
+}
+
+main(process.argv.slice(2)).catch((err: Error) => {
+  logger.error({ err }, 'Command failed');
+  console.error(err.message);
+  process.exit(1);
+});
@@ -0,0 +1,13 @@
+/**
+ * Data locations, from the environment. Shared by the server and the CLI so both
+ * read and write the same recordings and caches.
+ */
+
+import { join } from 'node:path';
+
+export const DATA_DIR = process.env['DATA_DIR'] ?? './data';
+export const RECORDINGS_DIR =
+  process.env['RECORDINGS_DIR'] ?? join(DATA_DIR, 'recordings');
+export const DB_PATH = process.env['DB_PATH'] ?? join(DATA_DIR, 'config.db');
+export const OPENF1_CACHE_DIR =
+  process.env['OPENF1_CACHE_DIR'] ?? join(DATA_DIR, 'openf1-cache');
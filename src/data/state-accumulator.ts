@@ -0,0 +1,323 @@
+/**
+ * State accumulator: merges incremental SignalR diffs into a full SessionState.
+ * SignalR only sends changed fields, so each topic handler merges onto existing state.
+ */
+
+import {
+  parseTrackStatus,
+  parseDriverList,
+  parseTimingData,
+  parseTimingAppData,
+  parseSessionInfo,
+  parseLapCount,
+  parseWeatherData,
+  parsePitLaneTimeCollection,
+  parseTopThree,
+  parseRaceControlMessageList,
+  raceControlDriver,
+  parseCarData,
+  parsePosition,
+  parseSessionStatus,
+  parseExtrapolatedClock,
+  parseHeartbeat,
+} from '../signalr/parsers.js';
+import type {
+  RawTrackStatus,
+  RawDriverList,
+  RawTimingData,
+  RawTimingAppData,
+  RawSessionInfo,
+  RawLapCount,
+  RawWeatherData,
+  RawPitLaneTimeCollection,
+  RawTopThree,
+  RawRaceControlMessage,
+  RawCarData,
+  RawPosition,
+  RawSessionStatus,
+  RawExtrapolatedClock,
+  RawHeartbeat,
+} from '../signalr/types.js';
+import type {
+  DriverInfo,
+  DriverLap,
+  DriverTiming,
+  RaceControlMessage,
+  SectorFlag,
+  SessionState,
+  WeatherData,
+} from './types.js';
+import { createEmptySessionState } from './types.js';
+import { parseLapTime } from '../util/lap-time.js';
+
+const SECTOR_FLAGS: Record<string, SectorFlag> = {
+  CLEAR: 'clear',
+  GREEN: 'clear',
+  YELLOW: 'yellow',
+  'DOUBLE YELLOW': 'double_yellow',
+};
+
+/** "01:23:45" → whole seconds */
+function clockSeconds(remaining: string): number {
+  return Math.round((parseLapTime(remaining) ?? 0) / 1000);
+}
+
+function emptyDriverInfo(driverNumber: string): DriverInfo {
+  return {
+    driverNumber,
+    abbreviation: driverNumber,
+    firstName: '',
+    lastName: '',
+    teamName: '',
+    teamColor: 'FFFFFF',
+    countryCode: '',
+  };
+}
+
+function emptyDriverTiming(driverNumber: string): DriverTiming {
+  return {
+    driverNumber,
+    position: 0,
+    gapToLeader: '',
+    interval: '',
+    lastLapTime: '',
+    bestLapTime: '',
+    sector1: '',
+    sector2: '',
+    sector3: '',
+    inPit: false,
+    retired: false,
+    stopped: false,
+  };
+}
+
+function emptyWeather(): WeatherData {
+  return {
+    rainfall: false,
+    airTemp: 0,
+    trackTemp: 0,
+    humidity: 0,
+    windSpeed: 0,
+    windDirection: 0,
+    pressure: 0,
+  };
+}
+
+export class StateAccumulator {
+  private state: SessionState;
+
+  constructor(initialState?: SessionState) {
+    // Fill in fields added after older recordings' subscribe.json was written
+    this.state = { ...createEmptySessionState(), ...initialState };
+  }
+
+  getState(): SessionState {
+    return this.state;
+  }
+
+  /** Deep copy of the current state, safe to hold across further updates */
+  snapshot(): SessionState {
+    return structuredClone(this.state);
+  }
+
+  reset(): void {
+    this.state = createEmptySessionState();
+  }
+
+  /** Append the lap just completed (signalled by a new LastLapTime) to the driver's history */
+  private recordLap(num: string): void {
+    const timing = this.state.timing[num]!;
+    const history = (this.state.lapHistory[num] ??= []);
+    const previous = history[history.length - 1];
+    const stint = this.state.stints[num];
+    const stintNumber = stint?.stintNumber ?? 0;
+
+    const lap: DriverLap = {
+      lap: timing.lapsCompleted ?? (previous?.lap ?? 0) + 1,
+      lapTime: timing.lastLapTime,
+      sector1: timing.sector1,
+      sector2: timing.sector2,
+      sector3: timing.sector3,
+      compound: stint?.compound ?? 'UNKNOWN',
+      stintNumber,
+      // A stint change since the last recorded lap means the stop happened on this lap
+      pitted:
+        timing.inPit ||
+        (previous !== undefined && stintNumber > previous.stintNumber),
+    };
+    history.push(lap);
+  }
+
+  /** Derive sector flags and DRS state from a race control message */
+  private applyRaceControlFlags(rcm: RaceControlMessage): void {
+    const flag = rcm.flag?.toUpperCase();
+
+    if (rcm.category === 'Drs') {
+      const status = (rcm.status ?? rcm.message).toUpperCase();
+      if (status.includes('ENABLED')) this.state.drsEnabled = true;
+      else if (status.includes('DISABLED')) this.state.drsEnabled = false;
+      return;
+    }
+
+    // TrackStatus has no chequered code — race control is the only source
+    if (flag === 'CHEQUERED') {
+      this.state.trackStatus = { flag: 'chequered', message: rcm.message };
+      return;
+    }
+
+    if (rcm.scope === 'Sector' && rcm.sector !== undefined) {
+      const sectorFlag = SECTOR_FLAGS[flag ?? ''];
+      if (sectorFlag) this.state.sectorFlags[String(rcm.sector)] = sectorFlag;
+      return;
+    }
+
+    // Track-wide all clear / green resets every sector
+    if (rcm.scope === 'Track' && (flag === 'CLEAR' || flag === 'GREEN')) {
+      for (const sector of Object.keys(this.state.sectorFlags)) {
+        this.state.sectorFlags[sector] = 'clear';
+      }
+    }
+  }
+
+  /** Apply a single SignalR topic message to the state */
+  applyMessage(topic: string, data: unknown, timestamp?: string): void {
+    if (timestamp) this.state.timestamp = timestamp;
+
+    switch (topic) {
+      case 'TrackStatus': {
+        const status = parseTrackStatus(data as RawTrackStatus);
+        if (status) this.state.trackStatus = status;
+        break;
+      }
+
+      case 'DriverList': {
+        const drivers = parseDriverList(data as RawDriverList);
+        for (const [num, partial] of Object.entries(drivers)) {
+          this.state.drivers[num] = {
+            ...(this.state.drivers[num] ?? emptyDriverInfo(num)),
+            ...partial,
+          };
+        }
+        break;
+      }
+
+      case 'TimingData': {
+        const timing = parseTimingData(data as RawTimingData);
+        for (const [num, partial] of Object.entries(timing)) {
+          const prev = this.state.timing[num];
+          this.state.timing[num] = {
+            ...(prev ?? emptyDriverTiming(num)),
+            ...partial,
+          };
+          if (partial.lastLapTime && partial.lastLapTime !== prev?.lastLapTime) {
+            this.recordLap(num);
+          }
+        }
+        break;
+      }
+
+      case 'TimingAppData': {
+        const stints = parseTimingAppData(data as RawTimingAppData);
+        Object.assign(this.state.stints, stints);
+        break;
+      }
+
+      case 'SessionInfo': {
+        const info = parseSessionInfo(data as RawSessionInfo);
+        if (info) this.state.sessionInfo = info;
+        break;
+      }
+
+      case 'LapCount': {
+        const lapCount = parseLapCount(data as RawLapCount);
+        if (lapCount) {
+          const raw = data as RawLapCount;
+          this.state.lapCount = {
+            current: raw.CurrentLap ?? this.state.lapCount.current,
+            total: raw.TotalLaps ?? this.state.lapCount.total,
+          };
+        }
+        break;
+      }
+
+      case 'WeatherData': {
+        const weather = parseWeatherData(data as RawWeatherData);
+        this.state.weather = {
+          ...(this.state.weather ?? emptyWeather()),
+          ...weather,
+        };
+        break;
+      }
+
+      case 'PitLaneTimeCollection': {
+        const pitTimes = parsePitLaneTimeCollection(data as RawPitLaneTimeCollection);
+        Object.assign(this.state.pitLaneTimes, pitTimes);
+        break;
+      }
+
+      case 'TopThree':
+        this.state.topThree = parseTopThree(data as RawTopThree);
+        break;
+
+      case 'RaceControlMessages': {
+        const messages = parseRaceControlMessageList(data as RawRaceControlMessage);
+        for (const rcm of messages) {
+          this.state.raceControlMessages.push(rcm);
+          this.state.latestRaceControlMessage = rcm;
+          const driver = raceControlDriver(rcm);
+          if (driver) this.state.driverRaceControl[driver] = rcm;
+          this.applyRaceControlFlags(rcm);
+        }
+        break;
+      }
+
+      case 'SessionStatus': {
+        const phase = parseSessionStatus(data as RawSessionStatus);
+        if (phase) this.state.sessionPhase = phase;
+        break;
+      }
+
+      case 'ExtrapolatedClock': {
+        const clock = {
+          utc: '',
+          remaining: '00:00:00',
+          extrapolating: false,
+          ...this.state.clock,
+          ...parseExtrapolatedClock(data as RawExtrapolatedClock),
+        };
+        this.state.clock = { ...clock, remainingSeconds: clockSeconds(clock.remaining) };
+        break;
+      }
+
+      case 'Heartbeat': {
+        // Count a running clock down between ExtrapolatedClock updates
+        const utc = parseHeartbeat(data as RawHeartbeat);
+        const clock = this.state.clock;
+        if (!utc || !clock?.extrapolating) break;
+        const elapsed = (Date.parse(utc) - Date.parse(clock.utc)) / 1000;
+        if (!Number.isFinite(elapsed) || elapsed < 0) break;
+        clock.remainingSeconds = Math.max(
+          0,
+          clockSeconds(clock.remaining) - Math.round(elapsed),
+        );
+        break;
+      }
+
+      case 'CarData': {
+        const telemetry = parseCarData(data as RawCarData);
+        this.state.telemetry = { ...this.state.telemetry, ...telemetry };
+        break;
+      }
+
+      case 'Position': {
+        const positions = parsePosition(data as RawPosition);
+        this.state.positions = { ...this.state.positions, ...positions };
+        break;
+      }
+
+      default:
+        // Topics without a parser (SessionData, ...) are ignored
+        break;
+    }
+  }
+}
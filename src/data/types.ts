@@ -0,0 +1,215 @@
+/**
+ * Canonical session state types.
+ * Parsers map raw SignalR payloads into these; detectors and publishers read them.
+ */
+
+export type TrackFlag =
+  | 'green'
+  | 'yellow'
+  | 'red'
+  | 'sc'
+  | 'vsc'
+  | 'vsc_ending'
+  | 'chequered';
+
+export type SessionType =
+  | 'Race'
+  | 'Qualifying'
+  | 'Practice'
+  | 'Sprint'
+  | 'SprintQualifying';
+
+export interface TrackStatus {
+  flag: TrackFlag;
+  message?: string;
+}
+
+export type SectorFlag = 'clear' | 'yellow' | 'double_yellow';
+
+/** SessionStatus values as sent by the feed */
+export type SessionPhase =
+  | 'Inactive'
+  | 'Started'
+  | 'Aborted'
+  | 'Finished'
+  | 'Finalised'
+  | 'Ends';
+
+export interface DriverInfo {
+  driverNumber: string;
+  abbreviation: string;
+  firstName: string;
+  lastName: string;
+  teamName: string;
+  teamColor: string; // hex without #
+  countryCode: string;
+}
+
+export interface DriverTiming {
+  driverNumber: string;
+  position: number;
+  gapToLeader: string;
+  interval: string;
+  lastLapTime: string;
+  bestLapTime: string;
+  sector1: string;
+  sector2: string;
+  sector3: string;
+  inPit: boolean;
+  retired: boolean;
+  stopped: boolean;
+  lapsCompleted?: number;
+}
+
+export interface DriverStint {
+  driverNumber: string;
+  stintNumber: number;
+  compound: string;
+  tyreAge: number;
+  new: boolean;
+}
+
+export interface SessionInfo {
+  key?: string; // live timing session key, unique per session
+  name: string;
+  type: SessionType;
+  circuit: string;
+  country: string;
+  startTime: string;
+  endTime?: string;
+}
+
+export interface LapCount {
+  current: number;
+  total: number;
+}
+
+export interface WeatherData {
+  rainfall: boolean;
+  airTemp: number;
+  trackTemp: number;
+  humidity: number;
+  windSpeed: number;
+  windDirection: number;
+  pressure: number;
+}
+
+export interface PitLaneTime {
+  driverNumber: string;
+  duration: string; // seconds, e.g. "25.3"
+  lap: string;
+}
+
+export interface TopThreeEntry {
+  position: number;
+  driverNumber: string;
+  abbreviation: string;
+  teamColor: string;
+  lapTime: string;
+  gapToLeader: string;
+}
+
+export interface RaceControlMessage {
+  utc: string;
+  message: string;
+  category: string;
+  flag?: string;
+  status?: string;
+  scope?: string;
+  sector?: number;
+  racingNumber?: string;
+}
+
+/** One completed lap in a driver's history */
+export interface DriverLap {
+  lap: number;
+  lapTime: string;
+  sector1: string;
+  sector2: string;
+  sector3: string;
+  compound: string;
+  stintNumber: number;
+  pitted: boolean;
+}
+
+export interface CarTelemetry {
+  driverNumber: string;
+  utc: string;
+  speed: number; // km/h
+  rpm: number;
+  gear: number;
+  throttle: number; // 0-100
+  brake: boolean;
+  drs: boolean; // flap open
+}
+
+export interface CarPosition {
+  driverNumber: string;
+  utc: string;
+  x: number;
+  y: number;
+  z: number;
+  onTrack: boolean;
+}
+
+/** Session countdown from ExtrapolatedClock */
+export interface SessionClock {
+  utc: string; // when `remaining` was reported
+  remaining: string; // "01:23:45" as of `utc`
+  extrapolating: boolean; // true while the clock is running
+  /** Seconds left as of the latest Heartbeat, counting down while extrapolating */
+  remainingSeconds: number;
+}
+
+/** Full accumulated session state */
+export interface SessionState {
+  sessionInfo: SessionInfo | null;
+  sessionPhase: SessionPhase | null;
+  clock: SessionClock | null;
+  trackStatus: TrackStatus;
+  lapCount: LapCount;
+  weather: WeatherData | null;
+  drivers: Record<string, DriverInfo>;
+  timing: Record<string, DriverTiming>;
+  stints: Record<string, DriverStint>;
+  pitLaneTimes: Record<string, PitLaneTime>;
+  topThree: TopThreeEntry[];
+  latestRaceControlMessage: RaceControlMessage | null;
+  /** Every race control message of the session, oldest first */
+  raceControlMessages: RaceControlMessage[];
+  /** Marshal sector flags from race control, keyed by sector number */
+  sectorFlags: Record<string, SectorFlag>;
+  /** DRS enabled state from race control; null until announced */
+  drsEnabled: boolean | null;
+  /** Most recent race control message about each car, keyed by driver number */
+  driverRaceControl: Record<string, RaceControlMessage>;
+  telemetry: Record<string, CarTelemetry>;
+  positions: Record<string, CarPosition>;
+  lapHistory: Record<string, DriverLap[]>;
+  timestamp: string;
+}
+
+export function createEmptySessionState(): SessionState {
+  return {
+    sessionInfo: null,
+    sessionPhase: null,
+    clock: null,
+    trackStatus: { flag: 'green' },
+    lapCount: { current: 0, total: 0 },
+    weather: null,
+    drivers: {},
+    timing: {},
+    stints: {},
+    pitLaneTimes: {},
+    topThree: [],
+    latestRaceControlMessage: null,
+    raceControlMessages: [],
+    sectorFlags: {},
+    drsEnabled: null,
+    driverRaceControl: {},
+    telemetry: {},
+    positions: {},
+    lapHistory: {},
+    timestamp: '',
+  };
+}
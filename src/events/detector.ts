@@ -4,6 +4,15 @@ import { detectFlagChange } from './flag-detector.js';
 import { detectOvertakes } from './overtake-detector.js';
 import { detectPitStops } from './pit-detector.js';
 import { detectWeatherChange } from './weather-detector.js';
+import { detectFastestLap, detectPersonalBests } from './fastest-lap-detector.js';
+import { detectRetirements } from './retirement-detector.js';
+import { detectRaceControlEvents } from './race-control-detector.js';
+import { detectSessionLifecycle } from './session-detector.js';
+
+export interface DetectorOptions {
+  /** Drivers to report personal_best events for (usually the favorites) */
+  personalBestDrivers?: string[];
+}
 
 /**
  * Run all event detectors against two consecutive state snapshots.
@@ -12,11 +21,17 @@ import { detectWeatherChange } from './weather-detector.js';
 export function detectEvents(
   prev: SessionState,
   curr: SessionState,
+  options: DetectorOptions = {},
 ): F1Event[] {
   return [
     ...detectFlagChange(prev, curr),
     ...detectOvertakes(prev, curr),
     ...detectPitStops(prev, curr),
     ...detectWeatherChange(prev, curr),
+    ...detectFastestLap(prev, curr),
+    ...detectPersonalBests(prev, curr, options.personalBestDrivers ?? []),
+    ...detectRetirements(prev, curr),
+    ...detectRaceControlEvents(prev, curr),
+    ...detectSessionLifecycle(prev, curr),
   ];
 }
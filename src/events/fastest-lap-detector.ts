@@ -0,0 +1,82 @@
+import type { SessionState } from '../data/types.js';
+import type { FastestLapEvent, PersonalBestEvent } from './types.js';
+import { parseLapTime } from '../util/lap-time.js';
+
+/** Driver holding the quickest bestLapTime in the state, if any */
+function overallFastest(
+  state: SessionState,
+): { driverNumber: string; lapTime: string; ms: number } | null {
+  let fastest: { driverNumber: string; lapTime: string; ms: number } | null = null;
+  for (const timing of Object.values(state.timing)) {
+    const ms = parseLapTime(timing.bestLapTime);
+    if (ms === null) continue;
+    if (!fastest || ms < fastest.ms) {
+      fastest = { driverNumber: timing.driverNumber, lapTime: timing.bestLapTime, ms };
+    }
+  }
+  return fastest;
+}
+
+export function detectFastestLap(
+  prev: SessionState,
+  curr: SessionState,
+): FastestLapEvent[] {
+  const currFastest = overallFastest(curr);
+  if (!currFastest) return [];
+
+  const prevFastest = overallFastest(prev);
+  if (prevFastest && currFastest.ms >= prevFastest.ms) return [];
+
+  const driver = curr.drivers[currFastest.driverNumber];
+  const event: FastestLapEvent = {
+    type: 'fastest_lap',
+    timestamp: curr.timestamp,
+    driverNumber: currFastest.driverNumber,
+    abbreviation: driver?.abbreviation ?? currFastest.driverNumber,
+    teamColor: driver?.teamColor ?? 'FFFFFF',
+    lapTime: currFastest.lapTime,
+  };
+
+  const lap = curr.timing[currFastest.driverNumber]?.lapsCompleted;
+  if (lap !== undefined) event.lap = lap;
+
+  if (prevFastest) {
+    event.previousDriverNumber = prevFastest.driverNumber;
+    event.previousLapTime = prevFastest.lapTime;
+  }
+
+  return [event];
+}
+
+/**
+ * Personal bests are only reported for the given drivers (typically favorites),
+ * and only when they improve on an earlier best — a first timed lap is not a PB.
+ */
+export function detectPersonalBests(
+  prev: SessionState,
+  curr: SessionState,
+  driverNumbers: string[],
+): PersonalBestEvent[] {
+  const events: PersonalBestEvent[] = [];
+
+  for (const num of driverNumbers) {
+    const prevBest = prev.timing[num]?.bestLapTime ?? '';
+    const currBest = curr.timing[num]?.bestLapTime ?? '';
+    const prevMs = parseLapTime(prevBest);
+    const currMs = parseLapTime(currBest);
+    if (prevMs === null || currMs === null || currMs >= prevMs) continue;
+
+    const driver = curr.drivers[num];
+    events.push({
+      type: 'personal_best',
+      timestamp: curr.timestamp,
+      driverNumber: num,
+      abbreviation: driver?.abbreviation ?? num,
+      teamColor: driver?.teamColor ?? 'FFFFFF',
+      lapTime: currBest,
+      previousLapTime: prevBest,
+    });
+  }
+
+  return events;
+}
@@ -0,0 +1,109 @@
+import type { RaceControlMessage, SessionState } from '../data/types.js';
+import type { InvestigationStatus, PenaltyType, RaceControlEvent } from './types.js';
+import { raceControlDriver } from '../signalr/parsers.js';
+
+/** "1 (VER)" style car references in steward messages */
+const CAR_REFERENCE = /\b(\d{1,2}) \([A-Z]{3}\)/g;
+
+function investigationStatus(text: string): InvestigationStatus | null {
+  if (text.includes('UNDER INVESTIGATION')) return 'under_investigation';
+  if (text.includes('INVESTIGATED AFTER THE')) return 'after_race';
+  if (text.includes('NO FURTHER')) return 'no_further_action';
+  if (/\bNOTED\b/.test(text)) return 'noted';
+  return null;
+}
+
+function penaltyType(
+  text: string,
+): { penaltyType: PenaltyType; seconds?: number } | null {
+  const stopGo = /(\d+) SECOND STOP\/GO PENALTY/.exec(text);
+  if (stopGo) return { penaltyType: 'stop_go', seconds: Number(stopGo[1]) };
+  if (text.includes('DRIVE THROUGH PENALTY')) return { penaltyType: 'drive_through' };
+  const time = /(\d+) SECOND (?:TIME )?PENALTY/.exec(text);
+  if (time) return { penaltyType: 'time', seconds: Number(time[1]) };
+  return null;
+}
+
+/** Cars involved in an incident — all of them for multi-car investigations */
+function involvedCars(msg: RaceControlMessage): string[] {
+  if (msg.racingNumber) return [msg.racingNumber];
+  const cars = [...msg.message.matchAll(CAR_REFERENCE)].map((m) => m[1]!);
+  return [...new Set(cars)];
+}
+
+/**
+ * Classify one race control message into zero or more typed events.
+ * Messages that don't concern a specific car are ignored.
+ */
+export function classifyRaceControlMessage(
+  msg: RaceControlMessage,
+  state: SessionState,
+): RaceControlEvent[] {
+  const text = msg.message.toUpperCase();
+  const flag = msg.flag?.toUpperCase();
+
+  const base = (driverNumber: string) => {
+    const driver = state.drivers[driverNumber];
+    return {
+      timestamp: msg.utc || state.timestamp,
+      driverNumber,
+      abbreviation: driver?.abbreviation ?? driverNumber,
+      teamColor: driver?.teamColor ?? 'FFFFFF',
+      message: msg.message,
+    };
+  };
+
+  if (flag === 'BLUE') {
+    const num = raceControlDriver(msg);
+    return num ? [{ type: 'blue_flag', ...base(num) }] : [];
+  }
+
+  if (flag === 'BLACK AND WHITE') {
+    const num = raceControlDriver(msg);
+    return num ? [{ type: 'black_and_white', ...base(num) }] : [];
+  }
+
+  const penalty = penaltyType(text);
+  if (penalty) {
+    const num = raceControlDriver(msg);
+    if (!num) return [];
+    const reason = / - (.+)$/.exec(msg.message)?.[1];
+    return [{ type: 'penalty', ...base(num), ...penalty, ...(reason ? { reason } : {}) }];
+  }
+
+  if (text.includes('TRACK LIMITS') && text.includes('DELETED')) {
+    const num = raceControlDriver(msg);
+    if (!num) return [];
+    const lapTime = /TIME (\d+:\d{2}\.\d{3}) DELETED/.exec(text)?.[1];
+    const turn = /TURN (\d+)/.exec(text)?.[1];
+    const lap = /\bLAP (\d+)/.exec(text)?.[1];
+    return [
+      {
+        type: 'track_limits_deleted_lap',
+        ...base(num),
+        ...(lapTime ? { lapTime } : {}),
+        ...(turn ? { turn } : {}),
+        ...(lap ? { lap: Number(lap) } : {}),
+      },
+    ];
+  }
+
+  const status = investigationStatus(text);
+  if (status && text.includes('STEWARDS')) {
+    return involvedCars(msg).map((num) => ({
+      type: 'investigation' as const,
+      ...base(num),
+      status,
+    }));
+  }
+
+  return [];
+}
+
+export function detectRaceControlEvents(
+  prev: SessionState,
+  curr: SessionState,
+): RaceControlEvent[] {
+  const added = curr.raceControlMessages.slice(prev.raceControlMessages.length);
+  return added.flatMap((msg) => classifyRaceControlMessage(msg, curr));
+}
@@ -0,0 +1,34 @@
+import type { SessionState } from '../data/types.js';
+import type { RetirementEvent } from './types.js';
+
+export function detectRetirements(
+  prev: SessionState,
+  curr: SessionState,
+): RetirementEvent[] {
+  const events: RetirementEvent[] = [];
+
+  for (const [driverNum, currTiming] of Object.entries(curr.timing)) {
+    const prevTiming = prev.timing[driverNum];
+    // Drivers already retired in the first snapshot we see are not news
+    if (!prevTiming || prevTiming.retired || !currTiming.retired) continue;
+
+    const driver = curr.drivers[driverNum];
+    const event: RetirementEvent = {
+      type: 'retirement',
+      timestamp: curr.timestamp,
+      driverNumber: driverNum,
+      abbreviation: driver?.abbreviation ?? driverNum,
+      teamColor: driver?.teamColor ?? 'FFFFFF',
+      lap: currTiming.lapsCompleted ?? curr.lapCount.current,
+      lastPosition: prevTiming.position,
+      stopped: currTiming.stopped,
+    };
+
+    const rcm = curr.driverRaceControl[driverNum];
+    if (rcm) event.raceControlMessage = rcm.message;
+
+    events.push(event);
+  }
+
+  return events;
+}
@@ -0,0 +1,54 @@
+import type { SessionPhase, SessionState } from '../data/types.js';
+import type {
+  ChequeredFlagEvent,
+  SessionFinishedEvent,
+  SessionStartedEvent,
+} from './types.js';
+
+const FINISHED_PHASES: SessionPhase[] = ['Finished', 'Finalised'];
+
+export function detectSessionLifecycle(
+  prev: SessionState,
+  curr: SessionState,
+): (SessionStartedEvent | SessionFinishedEvent | ChequeredFlagEvent)[] {
+  const events: (SessionStartedEvent | SessionFinishedEvent | ChequeredFlagEvent)[] = [];
+  const sessionName = curr.sessionInfo?.name;
+
+  if (curr.sessionPhase === 'Started' && prev.sessionPhase !== 'Started') {
+    events.push({
+      type: 'session_started',
+      timestamp: curr.timestamp,
+      previousPhase: prev.sessionPhase,
+      ...(sessionName ? { sessionName } : {}),
+    });
+  }
+
+  // Finalised usually follows Finished — only report the first of the two
+  const isFinished = (phase: SessionPhase | null) =>
+    phase !== null && FINISHED_PHASES.includes(phase);
+  if (isFinished(curr.sessionPhase) && !isFinished(prev.sessionPhase)) {
+    events.push({
+      type: 'session_finished',
+      timestamp: curr.timestamp,
+      phase: curr.sessionPhase!,
+      ...(sessionName ? { sessionName } : {}),
+    });
+  }
+
+  if (curr.trackStatus.flag === 'chequered' && prev.trackStatus.flag !== 'chequered') {
+    const event: ChequeredFlagEvent = {
+      type: 'chequered_flag',
+      timestamp: curr.timestamp,
+    };
+    const leader = Object.values(curr.timing).find((t) => t.position === 1);
+    if (leader) {
+      const driver = curr.drivers[leader.driverNumber];
+      event.leaderNumber = leader.driverNumber;
+      event.leaderAbbreviation = driver?.abbreviation ?? leader.driverNumber;
+      event.leaderTeamColor = driver?.teamColor ?? 'FFFFFF';
+    }
+    events.push(event);
+  }
+
+  return events;
+}
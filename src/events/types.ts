@@ -3,7 +3,7 @@
  * Each event is a discrete, meaningful occurrence (not noisy continuous data).
  */
 
-import type { TrackFlag } from '../data/types.js';
+import type { SessionPhase, TrackFlag } from '../data/types.js';
 
 export interface FlagChangeEvent {
   type: 'flag_change';
@@ -44,8 +44,122 @@ export interface WeatherChangeEvent {
   newRainfall: boolean;
 }
 
+export interface FastestLapEvent {
+  type: 'fastest_lap';
+  timestamp: string;
+  driverNumber: string;
+  abbreviation: string;
+  teamColor: string;
+  lapTime: string;
+  lap?: number;
+  previousDriverNumber?: string; // absent for the first timed lap of the session
+  previousLapTime?: string;
+}
+
+export interface PersonalBestEvent {
+  type: 'personal_best';
+  timestamp: string;
+  driverNumber: string;
+  abbreviation: string;
+  teamColor: string;
+  lapTime: string;
+  previousLapTime: string;
+}
+
+export interface RetirementEvent {
+  type: 'retirement';
+  timestamp: string;
+  driverNumber: string;
+  abbreviation: string;
+  teamColor: string;
+  lap: number;
+  lastPosition: number;
+  stopped: boolean; // car stopped on track rather than retired in the pits
+  raceControlMessage?: string; // latest race control message about the car
+}
+
+export interface SessionStartedEvent {
+  type: 'session_started';
+  timestamp: string;
+  previousPhase: SessionPhase | null; // 'Aborted' when resuming after a red flag
+  sessionName?: string;
+}
+
+export interface SessionFinishedEvent {
+  type: 'session_finished';
+  timestamp: string;
+  phase: SessionPhase; // 'Finished' or 'Finalised'
+  sessionName?: string;
+}
+
+export interface ChequeredFlagEvent {
+  type: 'chequered_flag';
+  timestamp: string;
+  leaderNumber?: string; // race leader when the flag falls
+  leaderAbbreviation?: string;
+  leaderTeamColor?: string;
+}
+
+/** Fields shared by race control events that concern a single car */
+interface RaceControlDriverEvent {
+  timestamp: string;
+  driverNumber: string;
+  abbreviation: string;
+  teamColor: string;
+  message: string; // original race control text
+}
+
+export type InvestigationStatus =
+  | 'noted'
+  | 'under_investigation'
+  | 'after_race'
+  | 'no_further_action';
+
+export interface InvestigationEvent extends RaceControlDriverEvent {
+  type: 'investigation';
+  status: InvestigationStatus;
+}
+
+export type PenaltyType = 'time' | 'drive_through' | 'stop_go';
+
+export interface PenaltyEvent extends RaceControlDriverEvent {
+  type: 'penalty';
+  penaltyType: PenaltyType;
+  seconds?: number; // time and stop/go penalties
+  reason?: string;
+}
+
+export interface TrackLimitsEvent extends RaceControlDriverEvent {
+  type: 'track_limits_deleted_lap';
+  lapTime?: string;
+  turn?: string;
+  lap?: number;
+}
+
+export interface BlueFlagEvent extends RaceControlDriverEvent {
+  type: 'blue_flag';
+}
+
+export interface BlackAndWhiteFlagEvent extends RaceControlDriverEvent {
+  type: 'black_and_white';
+}
+
+export type RaceControlEvent =
+  | InvestigationEvent
+  | PenaltyEvent
+  | TrackLimitsEvent
+  | BlueFlagEvent
+  | BlackAndWhiteFlagEvent;
+
 export type F1Event =
   | FlagChangeEvent
   | OvertakeEvent
   | PitStopEvent
-  | WeatherChangeEvent;
+  | WeatherChangeEvent
+  | FastestLapEvent
+  | PersonalBestEvent
+  | RetirementEvent
+  | RaceControlEvent
+  | SessionStartedEvent
+  | SessionFinishedEvent
+  | ChequeredFlagEvent;
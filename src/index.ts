@@ -1,19 +1,20 @@
 import { createApp } from './web/app.js';
 import { logger } from './util/logger.js';
-import { join } from 'node:path';
 import { mkdirSync } from 'node:fs';
 import { SignalRPipeline } from './signalr/pipeline.js';
 import { F1SignalRClient } from './signalr/client.js';
+import { DelayBuffer } from './signalr/delay-buffer.js';
 import { F1MqttClient } from './mqtt/client.js';
 import { MqttPublisher } from './mqtt/publisher.js';
 import { ConfigStore } from './config/store.js';
+import { AutoRecorder } from './recording/auto-recorder.js';
+import { RecordingJanitor } from './recording/janitor.js';
+import { DEFAULT_LIVE_BUFFER_MINUTES, LiveBuffer } from './playback/live-buffer.js';
+import { OpenF1Client } from './openf1/client.js';
+import { DATA_DIR, RECORDINGS_DIR, DB_PATH, OPENF1_CACHE_DIR } from './config/paths.js';
 
 const PORT = parseInt(process.env['PORT'] ?? '3000', 10);
 const HOST = process.env['HOST'] ?? '0.0.0.0';
-const DATA_DIR = process.env['DATA_DIR'] ?? './data';
-const RECORDINGS_DIR =
-  process.env['RECORDINGS_DIR'] ?? join(DATA_DIR, 'recordings');
-const DB_PATH = process.env['DB_PATH'] ?? join(DATA_DIR, 'config.db');
 
 // MQTT config (optional — omit MQTT_HOST for web-only mode)
 const MQTT_HOST = process.env['MQTT_HOST'];
@@ -35,8 +36,11 @@ async function main() {
   // Config store — created early so publisher can read settings
   const configStore = new ConfigStore(DB_PATH);
 
-  // Core pipeline
-  const pipeline = new SignalRPipeline();
+  const favoriteDrivers =
+    (configStore.get('favoriteDrivers') as string[] | null) ?? [];
+
+  // Core pipeline — personal bests are only reported for favorites
+  const pipeline = new SignalRPipeline({ personalBestDrivers: favoriteDrivers });
 
   // MQTT (optional — skip for web-only mode)
   let mqttClient: F1MqttClient | undefined;
@@ -52,18 +56,21 @@ async function main() {
     });
     await mqttClient.connect();
 
-    const favoriteDrivers =
-      (configStore.get('favoriteDrivers') as string[] | null) ?? [];
     const awtrixEnabled =
       (configStore.get('awtrixEnabled') as boolean | null) ?? false;
     const awtrixPrefix =
       (configStore.get('awtrixPrefix') as string | null) ?? 'awtrix';
+    const sessionEndGraceMinutes = configStore.get('sessionEndGraceMinutes') as
+      | number
+      | null;
 
     publisher = new MqttPublisher(mqttClient, {
       prefix: MQTT_PREFIX,
       favoriteDrivers,
       awtrixEnabled,
       awtrixPrefix,
+      sessionEndGraceMs:
+        sessionEndGraceMinutes !== null ? sessionEndGraceMinutes * 60_000 : undefined,
     });
     publisher.registerPersistentEntities();
 
@@ -80,24 +87,66 @@ async function main() {
     authCookie: AUTH_COOKIE,
   });
 
-  // Wire: SignalR messages → Pipeline
+  // Live sessions are recorded unless autoRecord is switched off
+  const autoRecorder = new AutoRecorder({
+    recordingsDir: RECORDINGS_DIR,
+    isEnabled: () => (configStore.get('autoRecord') as boolean | null) ?? true,
+    compress: () => (configStore.get('compressRecordings') as boolean | null) ?? false,
+  });
+
+  // Old recordings are deleted by the retention rules, read from config on every run
+  const janitor = new RecordingJanitor({
+    recordingsDir: RECORDINGS_DIR,
+    policy: () => {
+      const maxSizeGB = configStore.get('retentionMaxSizeGB') as number | null;
+      return {
+        keepLast: configStore.get('retentionKeepLast') as number | null,
+        practiceMaxAgeDays: configStore.get('retentionPracticeDays') as number | null,
+        maxTotalBytes: maxSizeGB !== null ? maxSizeGB * 1024 ** 3 : null,
+      };
+    },
+    activeDirectory: () => autoRecorder.getDirectory(),
+  });
+  janitor.on('usage', (usage) => publisher?.publishRecordingsUsage(usage));
+  janitor.start();
+
+  // Live data is held back by liveDelaySeconds to line up with the TV broadcast
+  const liveDelaySeconds = (configStore.get('liveDelaySeconds') as number | null) ?? 0;
+  const delayBuffer = new DelayBuffer(liveDelaySeconds * 1000);
+
+  // Wire: SignalR messages → delay buffer → Pipeline
   signalRClient.on('message', (msg) => {
+    delayBuffer.push(msg);
+  });
+  delayBuffer.on('message', (msg) => {
     pipeline.processMessage(msg);
   });
 
-  // Wire: Pipeline state/events → MQTT Publisher
+  // Wire: Pipeline state/events → MQTT Publisher. Session status (not the socket
+  // connection) drives HA entity registration.
   pipeline.on('update', ({ state, events }) => {
+    publisher?.updateSessionLifecycle(state.sessionPhase);
     publisher?.publishState(state);
     publisher?.publishEvents(events);
   });
 
-  // Wire: session lifecycle → MQTT entity registration
-  signalRClient.on('connected', () => {
-    publisher?.registerSessionEntities();
+  // Wire: Pipeline → session recording
+  pipeline.on('update', (msg) => {
+    autoRecorder.handleUpdate(msg).catch((err) => {
+      logger.error({ err }, 'Auto recording failed');
+    });
   });
 
-  signalRClient.on('disconnected', () => {
-    publisher?.deregisterSessionEntities();
+  // Wire: Pipeline → in-memory live timeline, for pausing and rewinding live. It keeps
+  // the last liveBufferMinutes of the session, read from config as it grows.
+  const liveBuffer = new LiveBuffer({
+    maxAgeMs: () => {
+      const minutes = configStore.get('liveBufferMinutes') as number | null;
+      return (minutes ?? DEFAULT_LIVE_BUFFER_MINUTES) * 60_000;
+    },
+  });
+  pipeline.on('update', (msg) => {
+    liveBuffer.handleUpdate(msg);
   });
 
   // Web server (passes pipeline + signalRClient for live status/WS)
@@ -108,6 +157,13 @@ async function main() {
     configStore,
     pipeline,
     signalRClient,
+    delayBuffer,
+    liveBuffer,
+    openf1Client: new OpenF1Client(undefined, { cacheDir: OPENF1_CACHE_DIR }),
+    autoRecorder,
+    janitor,
+    mqtt: mqttClient ? { client: mqttClient, prefix: MQTT_PREFIX } : undefined,
+    publisher,
   });
 
   // Start connecting to F1 feed
@@ -118,6 +174,10 @@ async function main() {
   const shutdown = async () => {
     logger.info('Shutting down...');
     signalRClient.stop();
+    // Messages still held back by the delay go to the recording before it is closed
+    delayBuffer.flush();
+    janitor.stop();
+    await autoRecorder.stop();
     await mqttClient?.disconnect();
     await app.close();
     process.exit(0);
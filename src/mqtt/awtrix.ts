@@ -7,6 +7,9 @@ import type {
   FlagChangeEvent,
   OvertakeEvent,
   PitStopEvent,
+  FastestLapEvent,
+  PersonalBestEvent,
+  RetirementEvent,
 } from '../events/types.js';
 
 /** AWTRIX text fragment with color */
@@ -140,6 +143,43 @@ export function pitStopNotification(event: PitStopEvent): AwtrixNotifyPayload {
   };
 }
 
+/** Build notification for overall fastest lap (F1 timing purple) */
+export function fastestLapNotification(event: FastestLapEvent): AwtrixNotifyPayload {
+  return {
+    text: [
+      { t: 'FASTEST ', c: 'FFFFFF' },
+      { t: event.abbreviation, c: event.teamColor },
+      { t: ` ${event.lapTime}`, c: 'FFFFFF' },
+    ],
+    background: '8A2BE2',
+    duration: 4,
+    sound: 'notification',
+  };
+}
+
+/** Build notification for a favorite driver's personal best (F1 timing green) */
+export function personalBestNotification(event: PersonalBestEvent): AwtrixNotifyPayload {
+  return {
+    text: [
+      { t: 'PB ', c: '00FF00' },
+      { t: event.abbreviation, c: event.teamColor },
+      { t: ` ${event.lapTime}`, c: '00FF00' },
+    ],
+    duration: 3,
+  };
+}
+
+/** Build notification for a retirement, on the driver's team color */
+export function retirementNotification(event: RetirementEvent): AwtrixNotifyPayload {
+  return {
+    text: `OUT ${event.abbreviation}`,
+    background: event.teamColor,
+    color: 'FFFFFF',
+    duration: 5,
+    sound: 'notification',
+  };
+}
+
 /** Build top three custom app payload */
 export function topThreeApp(topThree: TopThreeEntry[]): AwtrixAppPayload {
   const text: AwtrixTextFragment[] = [];
@@ -5,7 +5,7 @@
 import mqtt from 'mqtt';
 import type { MqttClient, IClientOptions } from 'mqtt';
 import { createChildLogger } from '../util/logger.js';
-import { statusTopic } from './topics.js';
+import { liveDelayCommand, playbackCommand, statusTopic } from './topics.js';
 
 const log = createChildLogger('mqtt');
 
@@ -57,14 +57,19 @@ export class F1MqttClient {
         log.warn('MQTT reconnecting...');
       });
 
-      // Subscribe to playback command topic
+      // Subscribe to command topics
       this.client.on('connect', () => {
-        this.client?.subscribe(`${this.prefix}/playback/command`);
+        this.client?.subscribe([
+          playbackCommand(this.prefix),
+          liveDelayCommand(this.prefix),
+        ]);
       });
 
       this.client.on('message', (topic, payload) => {
-        if (topic === `${this.prefix}/playback/command`) {
+        if (topic === playbackCommand(this.prefix)) {
           this.onPlaybackCommand?.(payload.toString());
+        } else if (topic === liveDelayCommand(this.prefix)) {
+          this.onLiveDelayCommand?.(payload.toString());
         }
       });
     });
@@ -73,6 +78,9 @@ export class F1MqttClient {
   /** Callback for playback commands received via MQTT */
   onPlaybackCommand?: (command: string) => void;
 
+  /** Callback for live delay commands received via MQTT */
+  onLiveDelayCommand?: (command: string) => void;
+
   publish(topic: string, payload: string | object, retain = false): void {
     if (!this.client?.connected) {
       log.warn({ topic }, 'Cannot publish: not connected');
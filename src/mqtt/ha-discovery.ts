@@ -1,6 +1,6 @@
 /**
  * Home Assistant MQTT Auto-Discovery payload generators.
- * Publishes config payloads to homeassistant/sensor/f12mqtt/<id>/config.
+ * Publishes config payloads to homeassistant/<component>/f12mqtt/<id>/config.
  */
 
 export interface HADiscoveryPayload {
@@ -9,7 +9,11 @@ export interface HADiscoveryPayload {
   state_topic: string;
   value_template?: string;
   json_attributes_topic?: string;
+  unit_of_measurement?: string;
+  payload_on?: string;
+  payload_off?: string;
   icon?: string;
+  entity_category?: 'diagnostic' | 'config';
   device: HADevicePayload;
   availability?: {
     topic: string;
@@ -32,8 +36,13 @@ const DEVICE: HADevicePayload = {
   model: 'F1 MQTT Bridge',
 };
 
-export function discoveryTopic(entityId: string): string {
-  return `homeassistant/sensor/f12mqtt/${entityId}/config`;
+export type HAComponent = 'sensor' | 'binary_sensor';
+
+export function discoveryTopic(
+  entityId: string,
+  component: HAComponent = 'sensor',
+): string {
+  return `homeassistant/${component}/f12mqtt/${entityId}/config`;
 }
 
 export function sensorPayload(
@@ -44,7 +53,9 @@ export function sensorPayload(
     icon?: string;
     valueTemplate?: string;
     jsonAttributesTopic?: string;
+    unitOfMeasurement?: string;
     availabilityTopic?: string;
+    entityCategory?: 'diagnostic' | 'config';
   } = {},
 ): HADiscoveryPayload {
   const payload: HADiscoveryPayload = {
@@ -58,6 +69,9 @@ export function sensorPayload(
   if (opts.valueTemplate) payload.value_template = opts.valueTemplate;
   if (opts.jsonAttributesTopic)
     payload.json_attributes_topic = opts.jsonAttributesTopic;
+  if (opts.unitOfMeasurement)
+    payload.unit_of_measurement = opts.unitOfMeasurement;
+  if (opts.entityCategory) payload.entity_category = opts.entityCategory;
   if (opts.availabilityTopic) {
     payload.availability = {
       topic: opts.availabilityTopic,
@@ -69,6 +83,25 @@ export function sensorPayload(
   return payload;
 }
 
+export function binarySensorPayload(
+  entityId: string,
+  name: string,
+  stateTopic: string,
+  opts: {
+    payloadOn: string;
+    payloadOff: string;
+    icon?: string;
+    valueTemplate?: string;
+    availabilityTopic?: string;
+  },
+): HADiscoveryPayload {
+  return {
+    ...sensorPayload(entityId, name, stateTopic, opts),
+    payload_on: opts.payloadOn,
+    payload_off: opts.payloadOff,
+  };
+}
+
 // --- Ephemeral entities (created on session start, removed on session end) ---
 
 export function sessionStatusEntity(prefix: string): HADiscoveryPayload {
@@ -78,6 +111,23 @@ export function sessionStatusEntity(prefix: string): HADiscoveryPayload {
   });
 }
 
+export function sessionPhaseEntity(prefix: string): HADiscoveryPayload {
+  return sensorPayload('session_phase', 'F1 Session Phase', `${prefix}/session/phase`, {
+    icon: 'mdi:progress-clock',
+    availabilityTopic: `${prefix}/status`,
+  });
+}
+
+/** Remaining session time; attributes carry remainingSeconds for countdown cards */
+export function sessionClockEntity(prefix: string): HADiscoveryPayload {
+  return sensorPayload('session_clock', 'F1 Session Time Remaining', `${prefix}/session/clock`, {
+    icon: 'mdi:timer-sand',
+    valueTemplate: '{{ value_json.remaining }}',
+    jsonAttributesTopic: `${prefix}/session/clock`,
+    availabilityTopic: `${prefix}/status`,
+  });
+}
+
 export function flagStatusEntity(prefix: string): HADiscoveryPayload {
   return sensorPayload('flag_status', 'F1 Flag Status', `${prefix}/session/flag`, {
     icon: 'mdi:flag',
@@ -158,6 +208,24 @@ export function driverTyreEntity(
   );
 }
 
+export function driverTelemetryEntity(
+  prefix: string,
+  driverNum: string,
+): HADiscoveryPayload {
+  return sensorPayload(
+    `driver_${driverNum}_telemetry`,
+    `F1 Driver ${driverNum} Speed`,
+    `${prefix}/driver/${driverNum}/telemetry`,
+    {
+      icon: 'mdi:speedometer',
+      valueTemplate: '{{ value_json.speed }}',
+      jsonAttributesTopic: `${prefix}/driver/${driverNum}/telemetry`,
+      unitOfMeasurement: 'km/h',
+      availabilityTopic: `${prefix}/status`,
+    },
+  );
+}
+
 export function latestOvertakeEntity(prefix: string): HADiscoveryPayload {
   return sensorPayload('latest_overtake', 'F1 Latest Overtake', `${prefix}/event/overtake`, {
     icon: 'mdi:swap-horizontal',
@@ -177,6 +245,38 @@ export function latestPitStopEntity(prefix: string): HADiscoveryPayload {
   });
 }
 
+/** Binary sensor: DRS enabled by race control */
+export function drsEntity(prefix: string): HADiscoveryPayload {
+  return binarySensorPayload('drs', 'F1 DRS Enabled', `${prefix}/session/drs`, {
+    payloadOn: 'enabled',
+    payloadOff: 'disabled',
+    icon: 'mdi:car-speed-limiter',
+    availabilityTopic: `${prefix}/status`,
+  });
+}
+
+/**
+ * Binary sensor: yellow (single or double) in one marshal sector.
+ * Sector counts vary by circuit, so these are registered as sectors first appear.
+ */
+export function sectorYellowEntity(
+  prefix: string,
+  sector: string,
+): HADiscoveryPayload {
+  return binarySensorPayload(
+    `sector_${sector}_yellow`,
+    `F1 Sector ${sector} Yellow`,
+    `${prefix}/session/sectors`,
+    {
+      payloadOn: 'ON',
+      payloadOff: 'OFF',
+      icon: 'mdi:flag-variant',
+      valueTemplate: `{{ 'OFF' if value_json['${sector}'] | default('clear') == 'clear' else 'ON' }}`,
+      availabilityTopic: `${prefix}/status`,
+    },
+  );
+}
+
 export function playbackStatusEntity(prefix: string): HADiscoveryPayload {
   return sensorPayload('playback_status', 'F1 Playback Status', `${prefix}/playback/state`, {
     icon: 'mdi:play-circle-outline',
@@ -248,6 +348,22 @@ export function nextRaceEntity(prefix: string): HADiscoveryPayload {
   });
 }
 
+export function recordingsDiskUsageEntity(prefix: string): HADiscoveryPayload {
+  return sensorPayload(
+    'recordings_disk_usage',
+    'F1 Recordings Disk Usage',
+    `${prefix}/recordings/usage`,
+    {
+      icon: 'mdi:harddisk',
+      valueTemplate: '{{ (value_json.totalBytes / 1048576) | round(1) }}',
+      jsonAttributesTopic: `${prefix}/recordings/usage`,
+      unitOfMeasurement: 'MB',
+      availabilityTopic: `${prefix}/status`,
+      entityCategory: 'diagnostic',
+    },
+  );
+}
+
 /** All ephemeral entity generators */
 export function ephemeralEntities(
   prefix: string,
@@ -255,6 +371,8 @@ export function ephemeralEntities(
 ): { topic: string; payload: HADiscoveryPayload }[] {
   const entities = [
     sessionStatusEntity,
+    sessionPhaseEntity,
+    sessionClockEntity,
     flagStatusEntity,
     raceLeaderEntity,
     lapCountEntity,
@@ -268,8 +386,16 @@ export function ephemeralEntities(
     payload: fn(prefix),
   }));
 
+  const drs = drsEntity(prefix);
+  entities.push({ topic: discoveryTopic('drs', 'binary_sensor'), payload: drs });
+
   for (const num of favoriteDrivers) {
-    for (const fn of [driverPositionEntity, driverGapEntity, driverTyreEntity]) {
+    for (const fn of [
+      driverPositionEntity,
+      driverGapEntity,
+      driverTyreEntity,
+      driverTelemetryEntity,
+    ]) {
       const payload = fn(prefix, num);
       entities.push({
         topic: discoveryTopic(payload.unique_id.replace('f12mqtt_', '')),
@@ -285,10 +411,14 @@ export function ephemeralEntities(
 export function persistentEntities(
   prefix: string,
 ): { topic: string; payload: HADiscoveryPayload }[] {
-  return [lastWinnerEntity, driversLeaderEntity, constructorsLeaderEntity, nextRaceEntity].map(
-    (fn) => ({
-      topic: discoveryTopic(fn(prefix).unique_id.replace('f12mqtt_', '')),
-      payload: fn(prefix),
-    }),
-  );
+  return [
+    lastWinnerEntity,
+    driversLeaderEntity,
+    constructorsLeaderEntity,
+    nextRaceEntity,
+    recordingsDiskUsageEntity,
+  ].map((fn) => ({
+    topic: discoveryTopic(fn(prefix).unique_id.replace('f12mqtt_', '')),
+    payload: fn(prefix),
+  }));
 }
@@ -4,8 +4,10 @@
  */
 
 import type { F1MqttClient } from './client.js';
-import type { SessionState } from '../data/types.js';
+import type { SessionPhase, SessionState } from '../data/types.js';
 import type { F1Event } from '../events/types.js';
+import type { PlaybackState } from '../playback/controller.js';
+import type { RecordingsUsage } from '../recording/storage.js';
 import * as topics from './topics.js';
 import * as ha from './ha-discovery.js';
 import * as awtrix from './awtrix.js';
@@ -18,11 +20,35 @@ export interface PublisherConfig {
   favoriteDrivers: string[];
   awtrixEnabled: boolean;
   awtrixPrefix: string;
+  /** Minimum interval between telemetry/position publishes (default 1000ms) */
+  telemetryIntervalMs?: number;
+  /** How long a session must stay ended before its entities are removed (default 10 min) */
+  sessionEndGraceMs?: number;
+}
+
+const DEFAULT_TELEMETRY_INTERVAL_MS = 1000;
+const DEFAULT_SESSION_END_GRACE_MS = 10 * 60 * 1000;
+
+/** Where published session data comes from */
+export type PublishSource = 'live' | 'replay';
+
+/** Phases in which a session is running (Aborted = red flag, it will resume) */
+const RUNNING_PHASES: SessionPhase[] = ['Started', 'Aborted'];
+
+/** Compact track map payload: driver number → [x, y, z, onTrack ? 1 : 0] */
+export interface CompactPositions {
+  timestamp: string;
+  cars: Record<string, [number, number, number, number]>;
 }
 
 export class MqttPublisher {
   private sessionActive = false;
   private registeredEphemeralTopics: string[] = [];
+  private registeredSectors = new Set<string>();
+  private lastThrottledPublish = new Map<string, number>();
+  private teardownTimer: ReturnType<typeof setTimeout> | undefined;
+  /** Only data from this source is published; 'replay' while a recording drives the topics */
+  private source: PublishSource = 'live';
 
   constructor(
     private mqtt: F1MqttClient,
@@ -50,7 +76,7 @@ export class MqttPublisher {
       this.mqtt.publish(entity.topic, entity.payload, true);
     }
 
-    this.mqtt.publish(
+    this.send(
       topics.sessionStatus(this.config.prefix),
       'active',
       true,
@@ -59,54 +85,156 @@ export class MqttPublisher {
     log.info({ count: entities.length }, 'Registered ephemeral HA entities');
   }
 
+  /**
+   * Follow the feed's session phase: register entities when a session starts and
+   * remove them once it has stayed ended for the grace period. Qualifying breaks and
+   * feed reconnects therefore leave HA dashboards untouched.
+   */
+  updateSessionLifecycle(phase: SessionPhase | null): void {
+    if (phase && RUNNING_PHASES.includes(phase)) {
+      // A real session always takes over from a replay
+      if (this.source === 'replay') this.endReplay();
+      if (this.teardownTimer) {
+        clearTimeout(this.teardownTimer);
+        this.teardownTimer = undefined;
+        log.info({ phase }, 'Session resumed, teardown cancelled');
+      }
+      if (!this.sessionActive) this.registerSessionEntities();
+      return;
+    }
+
+    // No phase yet (fresh connection) says nothing about the session ending
+    if (!phase || this.source === 'replay') return;
+    if (!this.sessionActive || this.teardownTimer) return;
+
+    const graceMs = this.config.sessionEndGraceMs ?? DEFAULT_SESSION_END_GRACE_MS;
+    log.info({ phase, graceMs }, 'Session ended, scheduling entity teardown');
+    this.teardownTimer = setTimeout(() => {
+      this.teardownTimer = undefined;
+      this.deregisterSessionEntities();
+    }, graceMs);
+  }
+
+  /**
+   * Let a recording drive the session topics, as if it were live. Refused while a
+   * live session is active. Object payloads carry `replay: true` until endReplay().
+   */
+  beginReplay(): boolean {
+    if (this.source === 'replay') return true;
+    if (this.sessionActive) {
+      log.warn('Live session active, not publishing replay');
+      return false;
+    }
+    this.source = 'replay';
+    this.registerSessionEntities();
+    log.info('Replay publishing started');
+    return true;
+  }
+
+  endReplay(): void {
+    if (this.source !== 'replay') return;
+    this.deregisterSessionEntities();
+    this.source = 'live';
+    log.info('Replay publishing ended');
+  }
+
+  isReplaying(): boolean {
+    return this.source === 'replay';
+  }
+
+  /** Publish playback controller state (always, whether or not replays are published) */
+  publishPlaybackState(state: PlaybackState): void {
+    this.mqtt.publish(topics.playbackState(this.config.prefix), state, true);
+  }
+
+  /** Publish the delay applied to live data */
+  publishLiveDelay(delayMs: number): void {
+    this.mqtt.publish(
+      topics.liveDelay(this.config.prefix),
+      { seconds: delayMs / 1000 },
+      true,
+    );
+  }
+
+  /** Publish the disk usage of the recordings directory */
+  publishRecordingsUsage(usage: RecordingsUsage): void {
+    this.mqtt.publish(topics.recordingsUsage(this.config.prefix), usage, true);
+  }
+
   /** Remove ephemeral HA entities (called on session end) */
   deregisterSessionEntities(): void {
+    clearTimeout(this.teardownTimer);
+    this.teardownTimer = undefined;
     for (const topic of this.registeredEphemeralTopics) {
       this.mqtt.clear(topic);
     }
-    this.mqtt.publish(
+    this.send(
       topics.sessionStatus(this.config.prefix),
       'finished',
       true,
     );
     this.sessionActive = false;
     this.registeredEphemeralTopics = [];
+    this.registeredSectors.clear();
     log.info('Deregistered ephemeral HA entities');
   }
 
   /** Publish current session state snapshot */
-  publishState(state: SessionState): void {
-    if (!this.sessionActive) return;
+  publishState(state: SessionState, source: PublishSource = 'live'): void {
+    if (!this.sessionActive || source !== this.source) return;
     const p = this.config.prefix;
 
     // Session-level topics
-    this.mqtt.publish(topics.sessionFlag(p), state.trackStatus.flag, true);
+    this.send(topics.sessionFlag(p), state.trackStatus.flag, true);
 
     if (state.lapCount.total > 0) {
-      this.mqtt.publish(topics.sessionLap(p), state.lapCount, true);
+      this.send(topics.sessionLap(p), state.lapCount, true);
     }
 
     if (state.weather) {
-      this.mqtt.publish(topics.sessionWeather(p), state.weather, true);
+      this.send(topics.sessionWeather(p), state.weather, true);
     }
 
     if (state.sessionInfo) {
-      this.mqtt.publish(topics.sessionInfo(p), state.sessionInfo, true);
+      this.send(topics.sessionInfo(p), state.sessionInfo, true);
+    }
+
+    if (state.sessionPhase) {
+      this.send(topics.sessionPhase(p), state.sessionPhase, true);
+    }
+
+    if (state.clock) {
+      this.send(topics.sessionClock(p), state.clock, true);
     }
 
     if (state.latestRaceControlMessage) {
-      this.mqtt.publish(
+      this.send(
         topics.sessionRaceControl(p),
         state.latestRaceControlMessage,
         true,
       );
     }
 
+    if (Object.keys(state.sectorFlags).length > 0) {
+      this.registerSectorEntities(state);
+      this.send(topics.sessionSectors(p), state.sectorFlags, true);
+    }
+
+    if (state.drsEnabled !== null) {
+      this.send(
+        topics.sessionDrs(p),
+        state.drsEnabled ? 'enabled' : 'disabled',
+        true,
+      );
+    }
+
+    this.publishPositions(state);
+
     // Find leader
     const leader = Object.values(state.timing).find((t) => t.position === 1);
     if (leader) {
       const driverInfo = state.drivers[leader.driverNumber];
-      this.mqtt.publish(
+      this.send(
         topics.sessionLeader(p),
         {
           driverNumber: leader.driverNumber,
@@ -122,12 +250,12 @@ export class MqttPublisher {
       const timing = state.timing[num];
       if (!timing) continue;
 
-      this.mqtt.publish(
+      this.send(
         topics.driverPosition(p, num),
         String(timing.position),
         true,
       );
-      this.mqtt.publish(
+      this.send(
         topics.driverGap(p, num),
         timing.position === 1 ? 'LEADER' : timing.gapToLeader,
         true,
@@ -135,7 +263,7 @@ export class MqttPublisher {
 
       const stint = state.stints[num];
       if (stint) {
-        this.mqtt.publish(topics.driverTyre(p, num), stint, true);
+        this.send(topics.driverTyre(p, num), stint, true);
       }
 
       const driverStatusValue = timing.retired
@@ -143,11 +271,13 @@ export class MqttPublisher {
         : timing.inPit
           ? 'pit'
           : 'racing';
-      this.mqtt.publish(
+      this.send(
         topics.driverStatus(p, num),
         driverStatusValue,
         true,
       );
+
+      this.publishTelemetry(state, num);
     }
 
     // AWTRIX custom apps
@@ -157,13 +287,14 @@ export class MqttPublisher {
   }
 
   /** Publish detected events */
-  publishEvents(events: F1Event[]): void {
+  publishEvents(events: F1Event[], source: PublishSource = 'live'): void {
+    if (source !== this.source) return;
     const p = this.config.prefix;
 
     for (const event of events) {
       switch (event.type) {
         case 'flag_change':
-          this.mqtt.publish(topics.eventFlag(p), event);
+          this.send(topics.eventFlag(p), event);
           if (this.config.awtrixEnabled) {
             this.mqtt.publish(
               awtrix.awtrixNotifyTopic(this.config.awtrixPrefix),
@@ -173,7 +304,7 @@ export class MqttPublisher {
           break;
 
         case 'overtake':
-          this.mqtt.publish(topics.eventOvertake(p), event);
+          this.send(topics.eventOvertake(p), event);
           if (this.config.awtrixEnabled) {
             this.mqtt.publish(
               awtrix.awtrixNotifyTopic(this.config.awtrixPrefix),
@@ -183,7 +314,7 @@ export class MqttPublisher {
           break;
 
         case 'pit_stop':
-          this.mqtt.publish(topics.eventPitStop(p), event);
+          this.send(topics.eventPitStop(p), event);
           if (this.config.awtrixEnabled) {
             this.mqtt.publish(
               awtrix.awtrixNotifyTopic(this.config.awtrixPrefix),
@@ -193,12 +324,124 @@ export class MqttPublisher {
           break;
 
         case 'weather_change':
-          this.mqtt.publish(topics.eventWeather(p), event);
+          this.send(topics.eventWeather(p), event);
+          break;
+
+        case 'fastest_lap':
+          this.send(topics.eventFastestLap(p), event);
+          if (this.config.awtrixEnabled) {
+            this.mqtt.publish(
+              awtrix.awtrixNotifyTopic(this.config.awtrixPrefix),
+              awtrix.fastestLapNotification(event),
+            );
+          }
+          break;
+
+        case 'personal_best':
+          // Shares the fastest_lap topic; consumers tell them apart by `type`
+          this.send(topics.eventFastestLap(p), event);
+          if (this.config.awtrixEnabled) {
+            this.mqtt.publish(
+              awtrix.awtrixNotifyTopic(this.config.awtrixPrefix),
+              awtrix.personalBestNotification(event),
+            );
+          }
+          break;
+
+        case 'retirement':
+          this.send(topics.eventRetirement(p), event);
+          if (this.config.awtrixEnabled) {
+            this.mqtt.publish(
+              awtrix.awtrixNotifyTopic(this.config.awtrixPrefix),
+              awtrix.retirementNotification(event),
+            );
+          }
+          break;
+
+        case 'investigation':
+          this.send(topics.eventInvestigation(p), event);
+          break;
+
+        case 'penalty':
+          this.send(topics.eventPenalty(p), event);
+          break;
+
+        case 'track_limits_deleted_lap':
+          this.send(topics.eventTrackLimits(p), event);
+          break;
+
+        case 'blue_flag':
+          this.send(topics.eventBlueFlag(p), event);
+          break;
+
+        case 'black_and_white':
+          this.send(topics.eventBlackAndWhite(p), event);
+          break;
+
+        case 'session_started':
+        case 'session_finished':
+          this.send(topics.eventSession(p), event);
+          break;
+
+        case 'chequered_flag':
+          // The AWTRIX flag notification comes from the accompanying flag_change
+          this.send(topics.eventChequeredFlag(p), event);
           break;
       }
     }
   }
 
+  /** Publish to an f12mqtt topic, marking object payloads during a replay */
+  private send(topic: string, payload: string | object, retain = false): void {
+    const marked =
+      this.source === 'replay' && typeof payload === 'object'
+        ? { ...payload, replay: true }
+        : payload;
+    this.mqtt.publish(topic, marked, retain);
+  }
+
+  /** Register a yellow-flag binary sensor the first time each sector appears */
+  private registerSectorEntities(state: SessionState): void {
+    for (const sector of Object.keys(state.sectorFlags)) {
+      if (this.registeredSectors.has(sector)) continue;
+      const payload = ha.sectorYellowEntity(this.config.prefix, sector);
+      const topic = ha.discoveryTopic(`sector_${sector}_yellow`, 'binary_sensor');
+      this.mqtt.publish(topic, payload, true);
+      this.registeredEphemeralTopics.push(topic);
+      this.registeredSectors.add(sector);
+    }
+  }
+
+  /** CarData arrives several times a second — throttle per driver, never retain */
+  private publishTelemetry(state: SessionState, num: string): void {
+    const telemetry = state.telemetry[num];
+    if (!telemetry || !this.throttle(`telemetry/${num}`)) return;
+    this.send(topics.driverTelemetry(this.config.prefix, num), telemetry);
+  }
+
+  /** Position.z is high-frequency too — one compact, unretained message for all cars */
+  private publishPositions(state: SessionState): void {
+    const entries = Object.values(state.positions);
+    if (entries.length === 0 || !this.throttle('positions')) return;
+
+    const payload: CompactPositions = { timestamp: state.timestamp, cars: {} };
+    for (const pos of entries) {
+      payload.cars[pos.driverNumber] = [pos.x, pos.y, pos.z, pos.onTrack ? 1 : 0];
+    }
+    this.send(topics.sessionPositions(this.config.prefix), payload);
+  }
+
+  /** Returns true (and records the time) if `key` is due for publishing */
+  private throttle(key: string): boolean {
+    const now = Date.now();
+    const interval =
+      this.config.telemetryIntervalMs ?? DEFAULT_TELEMETRY_INTERVAL_MS;
+    const last = this.lastThrottledPublish.get(key);
+    if (last !== undefined && now - last < interval) return false;
+    this.lastThrottledPublish.set(key, now);
+    return true;
+  }
+
   private publishAwtrixApps(state: SessionState): void {
     const ap = this.config.awtrixPrefix;
 
@@ -16,6 +16,11 @@ export const sessionLeader = (p: string) => `${p}/session/leader`;
 export const sessionLap = (p: string) => `${p}/session/lap`;
 export const sessionWeather = (p: string) => `${p}/session/weather`;
 export const sessionRaceControl = (p: string) => `${p}/session/race_control`;
+export const sessionPositions = (p: string) => `${p}/session/positions`;
+export const sessionSectors = (p: string) => `${p}/session/sectors`;
+export const sessionDrs = (p: string) => `${p}/session/drs`;
+export const sessionPhase = (p: string) => `${p}/session/phase`;
+export const sessionClock = (p: string) => `${p}/session/clock`;
 
 // --- Driver topics ---
 export const driverPosition = (p: string, num: string) =>
@@ -26,16 +31,32 @@ export const driverTyre = (p: string, num: string) =>
   `${p}/driver/${num}/tyre`;
 export const driverStatus = (p: string, num: string) =>
   `${p}/driver/${num}/status`;
+export const driverTelemetry = (p: string, num: string) =>
+  `${p}/driver/${num}/telemetry`;
 
 // --- Event topics ---
 export const eventFlag = (p: string) => `${p}/event/flag`;
 export const eventOvertake = (p: string) => `${p}/event/overtake`;
 export const eventPitStop = (p: string) => `${p}/event/pit_stop`;
 export const eventWeather = (p: string) => `${p}/event/weather`;
+export const eventFastestLap = (p: string) => `${p}/event/fastest_lap`;
+export const eventRetirement = (p: string) => `${p}/event/retirement`;
+export const eventInvestigation = (p: string) => `${p}/event/investigation`;
+export const eventPenalty = (p: string) => `${p}/event/penalty`;
+export const eventTrackLimits = (p: string) => `${p}/event/track_limits`;
+export const eventBlueFlag = (p: string) => `${p}/event/blue_flag`;
+export const eventBlackAndWhite = (p: string) => `${p}/event/black_and_white`;
+export const eventSession = (p: string) => `${p}/event/session`;
+export const eventChequeredFlag = (p: string) => `${p}/event/chequered_flag`;
 
 // --- Playback topics ---
 export const playbackState = (p: string) => `${p}/playback/state`;
 export const playbackCommand = (p: string) => `${p}/playback/command`;
+export const playbackCommandResult = (p: string) => `${p}/playback/command/result`;
+
+// --- Live delay topics ---
+export const liveDelay = (p: string) => `${p}/live/delay`;
+export const liveDelayCommand = (p: string) => `${p}/live/delay/command`;
 
 // --- Persistent topics ---
 export const lastWinner = (p: string) => `${p}/standings/last_winner`;
@@ -44,5 +65,8 @@ export const constructorsLeader = (p: string) =>
   `${p}/standings/constructors_leader`;
 export const nextRace = (p: string) => `${p}/schedule/next_race`;
 
+// --- Recording topics ---
+export const recordingsUsage = (p: string) => `${p}/recordings/usage`;
+
 // --- System topics ---
 export const statusTopic = (p: string) => `${p}/status`;
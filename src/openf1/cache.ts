@@ -0,0 +1,54 @@
+/**
+ * On-disk cache for OpenF1 responses.
+ * Data for a finished session never changes, so a response is kept forever once
+ * fetched — one JSON file per endpoint and query.
+ */
+
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { createChildLogger } from '../util/logger.js';
+
+const log = createChildLogger('openf1-cache');
+
+export type OpenF1Params = Record<string, string | number | undefined>;
+
+/** Stable key for a request: endpoint plus its params in sorted order */
+export function cacheKey(endpoint: string, params: OpenF1Params): string {
+  const query = Object.entries(params)
+    .filter(([, value]) => value !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${key}=${String(value)}`)
+    .join('&');
+  return `${endpoint}?${query}`;
+}
+
+export class OpenF1Cache {
+  constructor(private dir: string) {}
+
+  get<T>(key: string): T | undefined {
+    const path = this.pathFor(key);
+    if (!existsSync(path)) return undefined;
+    try {
+      return JSON.parse(readFileSync(path, 'utf-8')) as T;
+    } catch (err) {
+      // A half-written or corrupt file is treated as a miss and refetched
+      log.warn({ err, key }, 'Ignoring unreadable cache entry');
+      return undefined;
+    }
+  }
+
+  set(key: string, value: unknown): void {
+    mkdirSync(this.dir, { recursive: true });
+    const path = this.pathFor(key);
+    // Write then rename, so a crash never leaves a truncated entry behind
+    const tmp = `${path}.tmp`;
+    writeFileSync(tmp, JSON.stringify(value));
+    renameSync(tmp, path);
+  }
+
+  private pathFor(key: string): string {
+    const hash = createHash('sha256').update(key).digest('hex').slice(0, 32);
+    return join(this.dir, `${hash}.json`);
+  }
+}
@@ -1,18 +1,28 @@
 /**
  * OpenF1 REST client.
- * Fetches historical F1 data from api.openf1.org/v1/.
+ * Fetches historical F1 data from api.openf1.org/v1/, within the public API's rate
+ * limit, retrying throttled and failed requests and caching finished sessions' data
+ * on disk.
  */
 
 import { createChildLogger } from '../util/logger.js';
+import { OpenF1Cache, cacheKey, type OpenF1Params } from './cache.js';
+import { TokenBucket } from './rate-limiter.js';
 import type {
   OpenF1RaceControl,
   OpenF1Position,
   OpenF1Pit,
+  OpenF1Lap,
+  OpenF1Interval,
+  OpenF1SessionResult,
 } from './mapper.js';
 
 const log = createChildLogger('openf1');
 const BASE_URL = 'https://api.openf1.org/v1';
 
+/** OpenF1 keeps filling in a session's data for a while after it ends */
+const SETTLED_AFTER_MS = 60 * 60_000;
+
 export interface OpenF1Session {
   session_key: number;
   session_name: string;
@@ -58,14 +68,40 @@ export interface OpenF1Weather {
   session_key: number;
 }
 
+export interface OpenF1ClientOptions {
+  /** Directory for cached responses; nothing is cached when omitted */
+  cacheDir?: string;
+  /** Sustained request rate (default 3 per second, the public API's limit) */
+  requestsPerSecond?: number;
+  /** Requests that may go out at once before the rate applies (default 3) */
+  burst?: number;
+  /** Retries for a request failing with 429, 5xx or no answer at all (default 3) */
+  maxRetries?: number;
+  /** Delay before the first retry, doubled for each one after (default 1000 ms) */
+  retryBaseMs?: number;
+}
+
 export class OpenF1Client {
   private baseUrl: string;
+  private cache: OpenF1Cache | null;
+  private limiter: TokenBucket;
+  private maxRetries: number;
+  private retryBaseMs: number;
+  /** Known end of each session, as ms since the epoch */
+  private sessionEnds = new Map<number, number>();
 
-  constructor(baseUrl = BASE_URL) {
+  constructor(baseUrl = BASE_URL, options: OpenF1ClientOptions = {}) {
     this.baseUrl = baseUrl;
+    this.cache = options.cacheDir ? new OpenF1Cache(options.cacheDir) : null;
+    const rate = options.requestsPerSecond ?? 3;
+    this.limiter = new TokenBucket(options.burst ?? rate, rate);
+    this.maxRetries = options.maxRetries ?? 3;
+    this.retryBaseMs = options.retryBaseMs ?? 1000;
   }
 
-  async getSessions(params: { year?: number; session_type?: string } = {}): Promise<OpenF1Session[]> {
+  async getSessions(
+    params: { year?: number; session_type?: string; session_key?: number } = {},
+  ): Promise<OpenF1Session[]> {
     return this.fetch<OpenF1Session[]>('/sessions', params);
   }
 
@@ -93,22 +129,134 @@ export class OpenF1Client {
     return this.fetch<OpenF1Weather[]>('/weather', { session_key: sessionKey });
   }
 
-  private async fetch<T>(endpoint: string, params: Record<string, string | number | undefined> = {}): Promise<T> {
+  async getLaps(sessionKey: number): Promise<OpenF1Lap[]> {
+    return this.fetch<OpenF1Lap[]>('/laps', { session_key: sessionKey });
+  }
+
+  async getIntervals(sessionKey: number): Promise<OpenF1Interval[]> {
+    return this.fetch<OpenF1Interval[]>('/intervals', { session_key: sessionKey });
+  }
+
+  async getSessionResult(sessionKey: number): Promise<OpenF1SessionResult[]> {
+    return this.fetch<OpenF1SessionResult[]>('/session_result', {
+      session_key: sessionKey,
+    });
+  }
+
+  private async fetch<T>(endpoint: string, params: OpenF1Params = {}): Promise<T> {
+    // Only data scoped to one session is cached: session listings grow over a season
+    const key = cacheKey(endpoint, params);
+    const sessionKey = params['session_key'];
+    const cacheable = this.cache !== null && sessionKey !== undefined;
+    if (cacheable) {
+      const cached = this.cache!.get<T>(key);
+      if (cached !== undefined) {
+        log.debug({ key }, 'OpenF1 cache hit');
+        return cached;
+      }
+    }
+
+    // OpenF1 answers 404 when a session has nothing to match, e.g. no intervals
+    // outside races; anywhere else it means the request itself is wrong
+    const data = await this.request<T>(this.url(endpoint, params), {
+      notFoundIsEmpty: endpoint !== '/sessions' && sessionKey !== undefined,
+    });
+    if (endpoint === '/sessions') {
+      for (const session of data as OpenF1Session[]) this.noteSessionEnd(session);
+    }
+    // An empty result may just mean OpenF1 hasn't published the data yet, and a
+    // running session's data is still growing
+    if (
+      cacheable &&
+      !(Array.isArray(data) && data.length === 0) &&
+      (await this.sessionSettled(Number(sessionKey)))
+    ) {
+      this.cache!.set(key, data);
+    }
+    return data;
+  }
+
+  private url(endpoint: string, params: OpenF1Params): string {
     const url = new URL(`${this.baseUrl}${endpoint}`);
-    for (const [key, value] of Object.entries(params)) {
+    for (const [name, value] of Object.entries(params)) {
       if (value !== undefined) {
-        url.searchParams.set(key, String(value));
+        url.searchParams.set(name, String(value));
       }
     }
+    return url.toString();
+  }
+
+  /** Whether a session ended long enough ago that its data won't change any more */
+  private async sessionSettled(sessionKey: number): Promise<boolean> {
+    if (!this.sessionEnds.has(sessionKey)) {
+      // Looked up directly, as a cached lookup would need this answer itself
+      const sessions = await this.request<OpenF1Session[]>(
+        this.url('/sessions', { session_key: sessionKey }),
+      );
+      for (const session of sessions) this.noteSessionEnd(session);
+    }
+    const end = this.sessionEnds.get(sessionKey);
+    return end !== undefined && Date.now() >= end + SETTLED_AFTER_MS;
+  }
 
-    log.info({ url: url.toString() }, 'Fetching from OpenF1');
-    const res = await fetch(url.toString());
+  private noteSessionEnd(session: OpenF1Session): void {
+    const end = Date.parse(session.date_end);
+    if (!Number.isNaN(end)) this.sessionEnds.set(session.session_key, end);
+  }
+
+  /**
+   * GET with rate limiting, retrying 429 and 5xx responses and network errors with
+   * exponential backoff
+   */
+  private async request<T>(
+    url: string,
+    options: { notFoundIsEmpty?: boolean } = {},
+  ): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      await this.limiter.take();
+      log.info({ url }, 'Fetching from OpenF1');
+      let res: Response;
+      try {
+        res = await fetch(url);
+      } catch (err) {
+        // A reset connection or a timeout is as transient as a 5xx
+        if (attempt >= this.maxRetries) throw err;
+        const delayMs = this.retryBaseMs * 2 ** attempt;
+        log.warn({ url, err, attempt: attempt + 1, delayMs }, 'Retrying OpenF1 request');
+        await sleep(delayMs);
+        continue;
+      }
+
+      if (res.status === 404 && options.notFoundIsEmpty) {
+        return [] as T;
+      }
+
+      if (res.ok) {
+        return (await res.json()) as T;
+      }
 
-    if (!res.ok) {
       const text = await res.text();
-      throw new Error(`OpenF1 API error ${res.status}: ${text}`);
-    }
+      const retryable = res.status === 429 || res.status >= 500;
+      if (!retryable || attempt >= this.maxRetries) {
+        throw new Error(`OpenF1 API error ${res.status}: ${text}`);
+      }
 
-    return (await res.json()) as T;
+      const delayMs = retryDelay(res, this.retryBaseMs * 2 ** attempt);
+      log.warn(
+        { url, status: res.status, attempt: attempt + 1, delayMs },
+        'Retrying OpenF1 request',
+      );
+      await sleep(delayMs);
+    }
   }
 }
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((r) => setTimeout(r, ms));
+}
+
+/** Honour a Retry-After header (in seconds) when the server sends one */
+function retryDelay(res: Response, backoffMs: number): number {
+  const retryAfter = Number(res.headers.get('retry-after'));
+  return retryAfter > 0 ? Math.max(backoffMs, retryAfter * 1000) : backoffMs;
+}
@@ -4,6 +4,8 @@
  */
 
 import type { SignalRMessage } from '../signalr/client.js';
+import type { OpenF1Session, OpenF1Stint, OpenF1Weather } from './client.js';
+import { formatLapTime } from '../util/lap-time.js';
 
 const FLAG_MAP: Record<string, string> = {
   GREEN: '1',
@@ -77,3 +79,257 @@ export function mapOpenF1Pit(pit: OpenF1Pit): SignalRMessage {
     timestamp: pit.date,
   };
 }
+
+/** Pit lane time for the pit stop event, published ahead of the stint change */
+export function mapOpenF1PitLaneTime(pit: OpenF1Pit): SignalRMessage {
+  const driverNum = String(pit.driver_number);
+  return {
+    topic: 'PitLaneTimeCollection',
+    data: {
+      PitTimes: {
+        [driverNum]: {
+          RacingNumber: driverNum,
+          Duration: String(pit.pit_duration),
+          Lap: String(pit.lap_number),
+        },
+      },
+    },
+    timestamp: pit.date,
+  };
+}
+
+export function mapOpenF1Session(session: OpenF1Session): SignalRMessage {
+  return {
+    topic: 'SessionInfo',
+    data: {
+      Key: session.session_key,
+      Meeting: {
+        Name: session.meeting_name,
+        Circuit: { ShortName: session.circuit_short_name },
+        Country: { Name: session.country_name },
+      },
+      Name: session.session_name,
+      Type: session.session_type,
+      StartDate: session.date_start,
+      EndDate: session.date_end,
+    },
+    timestamp: session.date_start,
+  };
+}
+
+export interface OpenF1Lap {
+  driver_number: number;
+  lap_number: number;
+  /** Null for some first laps */
+  date_start: string | null;
+  /** Null for laps that were not completed or not timed */
+  lap_duration: number | null;
+  duration_sector_1: number | null;
+  duration_sector_2: number | null;
+  duration_sector_3: number | null;
+  is_pit_out_lap: boolean;
+}
+
+function lapEnd(lap: OpenF1Lap): string | null {
+  if (!lap.date_start || lap.lap_duration === null) return null;
+  return new Date(Date.parse(lap.date_start) + lap.lap_duration * 1000).toISOString();
+}
+
+/**
+ * Completed laps → TimingData at the moment each lap ended: last lap time, sectors,
+ * lap count, and the best lap time whenever it improves.
+ */
+export function mapOpenF1Laps(laps: OpenF1Lap[]): SignalRMessage[] {
+  const messages: SignalRMessage[] = [];
+  const best = new Map<number, number>();
+  const ordered = [...laps].sort((a, b) => a.lap_number - b.lap_number);
+
+  for (const lap of ordered) {
+    const timestamp = lapEnd(lap);
+    if (!timestamp) continue;
+
+    const sectors: Record<string, { Value: string }> = {};
+    const durations = [
+      lap.duration_sector_1,
+      lap.duration_sector_2,
+      lap.duration_sector_3,
+    ];
+    durations.forEach((duration, i) => {
+      if (duration !== null) sectors[String(i)] = { Value: formatLapTime(duration) };
+    });
+
+    const line: Record<string, unknown> = {
+      LastLapTime: { Value: formatLapTime(lap.lap_duration!) },
+      Sectors: sectors,
+      NumberOfLaps: lap.lap_number,
+    };
+    const previousBest = best.get(lap.driver_number);
+    if (previousBest === undefined || lap.lap_duration! < previousBest) {
+      best.set(lap.driver_number, lap.lap_duration!);
+      line['BestLapTime'] = { Value: formatLapTime(lap.lap_duration!) };
+    }
+
+    messages.push({
+      topic: 'TimingData',
+      data: { Lines: { [String(lap.driver_number)]: line } },
+      timestamp,
+    });
+  }
+  return messages;
+}
+
+/** Lap starts → LapCount whenever the leading lap number goes up (races only) */
+export function mapOpenF1LapCount(
+  laps: OpenF1Lap[],
+  totalLaps?: number,
+): SignalRMessage[] {
+  const starts = laps
+    .filter((lap): lap is OpenF1Lap & { date_start: string } => lap.date_start !== null)
+    .sort((a, b) => Date.parse(a.date_start) - Date.parse(b.date_start));
+
+  const messages: SignalRMessage[] = [];
+  let current = 0;
+  for (const lap of starts) {
+    if (lap.lap_number <= current) continue;
+    current = lap.lap_number;
+    messages.push({
+      topic: 'LapCount',
+      data: totalLaps
+        ? { CurrentLap: current, TotalLaps: totalLaps }
+        : { CurrentLap: current },
+      timestamp: lap.date_start,
+    });
+  }
+  return messages;
+}
+
+export interface OpenF1Interval {
+  driver_number: number;
+  date: string;
+  /** Seconds, or a string such as "+1 LAP"; null for the leader */
+  gap_to_leader: number | string | null;
+  interval: number | string | null;
+}
+
+function formatGap(value: number | string | null): string {
+  if (value === null || value === 0) return '';
+  return typeof value === 'number' ? `+${value.toFixed(3)}` : value;
+}
+
+/** One timestamp's worth of intervals → TimingData gaps */
+export function mapOpenF1Intervals(intervals: OpenF1Interval[]): SignalRMessage {
+  const lines: Record<
+    string,
+    { GapToLeader: string; IntervalToPositionAhead: { Value: string } }
+  > = {};
+  for (const i of intervals) {
+    lines[String(i.driver_number)] = {
+      GapToLeader: formatGap(i.gap_to_leader),
+      IntervalToPositionAhead: { Value: formatGap(i.interval) },
+    };
+  }
+  return {
+    topic: 'TimingData',
+    data: { Lines: lines },
+    timestamp: intervals[0]?.date ?? new Date().toISOString(),
+  };
+}
+
+/**
+ * Stints → TimingAppData at the start of every lap on them, so tyre age counts up
+ * as in the live feed. Stints are keyed like SignalR's, from 0.
+ * `sessionStart` stands in for first laps that have no start time.
+ */
+export function mapOpenF1Stints(
+  stints: OpenF1Stint[],
+  laps: OpenF1Lap[],
+  sessionStart?: string,
+): SignalRMessage[] {
+  const lapStarts = new Map<string, string>();
+  for (const lap of laps) {
+    if (lap.date_start)
+      lapStarts.set(`${lap.driver_number}/${lap.lap_number}`, lap.date_start);
+  }
+
+  const messages: SignalRMessage[] = [];
+  for (const stint of stints) {
+    const driverNum = String(stint.driver_number);
+    for (let lap = stint.lap_start; lap <= stint.lap_end; lap++) {
+      const timestamp =
+        lapStarts.get(`${driverNum}/${lap}`) ?? (lap === 1 ? sessionStart : undefined);
+      if (!timestamp) continue;
+
+      messages.push({
+        topic: 'TimingAppData',
+        data: {
+          Lines: {
+            [driverNum]: {
+              Stints: {
+                [String(stint.stint_number - 1)]: {
+                  Compound: stint.compound,
+                  New: String(stint.tyre_age_at_start === 0),
+                  TotalLaps: stint.tyre_age_at_start + (lap - stint.lap_start),
+                },
+              },
+            },
+          },
+        },
+        timestamp,
+      });
+    }
+  }
+  return messages;
+}
+
+export function mapOpenF1Weather(weather: OpenF1Weather): SignalRMessage {
+  return {
+    topic: 'WeatherData',
+    data: {
+      AirTemp: String(weather.air_temperature),
+      TrackTemp: String(weather.track_temperature),
+      Humidity: String(weather.humidity),
+      Rainfall: weather.rainfall ? '1' : '0',
+      WindSpeed: String(weather.wind_speed),
+      WindDirection: String(weather.wind_direction),
+      Pressure: String(weather.pressure),
+    },
+    timestamp: weather.date,
+  };
+}
+
+export interface OpenF1SessionResult {
+  driver_number: number;
+  position: number | null;
+  number_of_laps: number;
+  dnf: boolean;
+  dns: boolean;
+  dsq: boolean;
+}
+
+/** Race distance: the laps completed by the winner */
+export function openF1TotalLaps(results: OpenF1SessionResult[]): number | undefined {
+  return results.find((r) => r.position === 1)?.number_of_laps;
+}
+
+/** A non-finisher → TimingData marking them retired, at the end of their last lap */
+export function mapOpenF1Retirement(
+  result: OpenF1SessionResult,
+  timestamp: string,
+): SignalRMessage {
+  return {
+    topic: 'TimingData',
+    data: { Lines: { [String(result.driver_number)]: { Retired: true } } },
+    timestamp,
+  };
+}
+
+/** When the driver's last completed lap ended, if known */
+export function lastLapEnd(laps: OpenF1Lap[], driverNumber: number): string | null {
+  let latest: string | null = null;
+  for (const lap of laps) {
+    if (lap.driver_number !== driverNumber) continue;
+    const end = lapEnd(lap);
+    if (end && (!latest || end > latest)) latest = end;
+  }
+  return latest;
+}
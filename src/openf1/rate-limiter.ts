@@ -0,0 +1,42 @@
+/**
+ * Token bucket rate limiter for the OpenF1 API.
+ * Allows short bursts up to `capacity` requests, then `refillPerSecond` on average.
+ */
+
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+  /** Callers waiting for a token, served in order */
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private capacity: number,
+    private refillPerSecond: number,
+  ) {
+    this.tokens = capacity;
+  }
+
+  /** Resolves once a token is available, and spends it */
+  take(): Promise<void> {
+    const turn = this.queue.then(() => this.waitForToken());
+    this.queue = turn;
+    return turn;
+  }
+
+  private async waitForToken(): Promise<void> {
+    this.refill();
+    if (this.tokens < 1) {
+      const waitMs = ((1 - this.tokens) / this.refillPerSecond) * 1000;
+      await new Promise((r) => setTimeout(r, Math.ceil(waitMs)));
+      this.refill();
+    }
+    this.tokens -= 1;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = (now - this.updatedAt) / 1000;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.refillPerSecond);
+    this.updatedAt = now;
+  }
+}
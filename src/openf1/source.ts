@@ -5,12 +5,23 @@
  */
 
 import type { SessionState } from '../data/types.js';
+import type { SignalRMessage } from '../signalr/client.js';
 import type { DataSource, TimelineEntry } from '../playback/data-source.js';
-import { OpenF1Client, type OpenF1Driver } from './client.js';
+import { OpenF1Client, type OpenF1Driver, type OpenF1Session } from './client.js';
 import {
   mapOpenF1RaceControl,
   mapOpenF1Position,
   mapOpenF1Pit,
+  mapOpenF1PitLaneTime,
+  mapOpenF1Session,
+  mapOpenF1Laps,
+  mapOpenF1LapCount,
+  mapOpenF1Intervals,
+  mapOpenF1Stints,
+  mapOpenF1Weather,
+  mapOpenF1Retirement,
+  openF1TotalLaps,
+  lastLapEnd,
 } from './mapper.js';
 import { createChildLogger } from '../util/logger.js';
 
@@ -21,6 +32,7 @@ export class OpenF1Source implements DataSource {
   private sessionKey: number;
   private entries: TimelineEntry[] | null = null;
   private drivers: OpenF1Driver[] | null = null;
+  private session: Promise<OpenF1Session | null> | null = null;
 
   constructor(sessionKey: number, client?: OpenF1Client) {
     this.sessionKey = sessionKey;
@@ -31,6 +43,8 @@ export class OpenF1Source implements DataSource {
     // Fetch drivers to build the initial DriverList message
     this.drivers = await this.client.getDrivers(this.sessionKey);
     if (this.drivers.length === 0) return null;
+    const session = await this.getSession();
+    const startTime = session?.date_start ?? new Date().toISOString();
 
     const driverData: Record<string, {
       RacingNumber: string;
@@ -50,7 +64,11 @@ export class OpenF1Source implements DataSource {
     // Build a minimal initial state by processing DriverList through the accumulator
     const { StateAccumulator } = await import('../data/state-accumulator.js');
     const acc = new StateAccumulator();
-    acc.applyMessage('DriverList', driverData, new Date().toISOString());
+    acc.applyMessage('DriverList', driverData, startTime);
+    if (session) {
+      const info = mapOpenF1Session(session);
+      acc.applyMessage(info.topic, info.data, startTime);
+    }
     return acc.getState();
   }
 
@@ -63,6 +81,11 @@ export class OpenF1Source implements DataSource {
     };
   }
 
+  async getEntries(): Promise<TimelineEntry[]> {
+    await this.loadEntries();
+    return this.entries ?? [];
+  }
+
   async *stream(from: string, speed: number): AsyncIterable<TimelineEntry> {
     await this.loadEntries();
     if (!this.entries) return;
@@ -95,6 +118,17 @@ export class OpenF1Source implements DataSource {
   async close(): Promise<void> {
     this.entries = null;
     this.drivers = null;
+    this.session = null;
+  }
+
+  /** Session metadata, fetched once and shared by the initial state and the timeline */
+  private getSession(): Promise<OpenF1Session | null> {
+    this.session ??= this.client
+      .getSessions({ session_key: this.sessionKey })
+      .then(
+        (sessions) => sessions.find((s) => s.session_key === this.sessionKey) ?? null,
+      );
+    return this.session;
   }
 
   /** Fetch all data for the session and build sorted timeline entries */
@@ -103,47 +137,106 @@ export class OpenF1Source implements DataSource {
 
     log.info({ sessionKey: this.sessionKey }, 'Loading OpenF1 session data');
 
-    const [raceControl, positions, pits] = await Promise.all([
+    const [
+      session,
+      raceControl,
+      positions,
+      pits,
+      laps,
+      intervals,
+      stints,
+      weather,
+      results,
+    ] = await Promise.all([
+      this.getSession(),
       this.client.getRaceControl(this.sessionKey),
       this.client.getPositions(this.sessionKey),
       this.client.getPitStops(this.sessionKey),
+      this.client.getLaps(this.sessionKey),
+      this.client.getIntervals(this.sessionKey),
+      this.client.getStints(this.sessionKey),
+      this.client.getWeather(this.sessionKey),
+      this.client.getSessionResult(this.sessionKey),
     ]);
 
     const entries: TimelineEntry[] = [];
+    const push = (msg: SignalRMessage) =>
+      entries.push({
+        timestamp: isoTimestamp(msg.timestamp),
+        topic: msg.topic,
+        data: msg.data,
+      });
 
     // Race control → TrackStatus messages
     for (const rc of raceControl) {
-      if (rc.flag) {
-        const msg = mapOpenF1RaceControl(rc);
-        entries.push({ timestamp: msg.timestamp, topic: msg.topic, data: msg.data });
-      }
+      if (rc.flag) push(mapOpenF1RaceControl(rc));
     }
 
-    // Positions → group by timestamp, map to TimingData
-    const positionsByTime = new Map<string, typeof positions>();
-    for (const p of positions) {
-      const existing = positionsByTime.get(p.date);
-      if (existing) {
-        existing.push(p);
-      } else {
-        positionsByTime.set(p.date, [p]);
-      }
+    // Positions and intervals → group by timestamp, map to TimingData
+    for (const group of groupByDate(positions).values()) {
+      push(mapOpenF1Position(group));
     }
-    for (const [, posGroup] of positionsByTime) {
-      const msg = mapOpenF1Position(posGroup);
-      entries.push({ timestamp: msg.timestamp, topic: msg.topic, data: msg.data });
+    for (const group of groupByDate(intervals).values()) {
+      push(mapOpenF1Intervals(group));
     }
 
-    // Pit stops → TimingAppData
+    // Laps → TimingData lap and sector times, plus LapCount in races
+    mapOpenF1Laps(laps).forEach(push);
+    if (session?.session_type === 'Race') {
+      mapOpenF1LapCount(laps, openF1TotalLaps(results)).forEach(push);
+    }
+
+    // Stints → TimingAppData per lap, so tyre age counts up. Pit stops fill in
+    // stints OpenF1 hasn't published yet, and always carry the pit lane time.
+    mapOpenF1Stints(stints, laps, session?.date_start).forEach(push);
+    const knownStints = new Set(
+      stints.map((s) => `${s.driver_number}/${s.stint_number}`),
+    );
     for (const pit of pits) {
-      const msg = mapOpenF1Pit(pit);
-      entries.push({ timestamp: msg.timestamp, topic: msg.topic, data: msg.data });
+      push(mapOpenF1PitLaneTime(pit));
+      if (!knownStints.has(`${pit.driver_number}/${pit.stint_number}`)) {
+        push(mapOpenF1Pit(pit));
+      }
     }
 
-    // Sort by timestamp
-    entries.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    // Weather → WeatherData
+    weather.forEach((w) => push(mapOpenF1Weather(w)));
+
+    // Non-finishers retire at the end of their last lap, or when the session ends
+    for (const result of results) {
+      if (!result.dnf) continue;
+      const at = lastLapEnd(laps, result.driver_number) ?? session?.date_end;
+      if (at) push(mapOpenF1Retirement(result, at));
+    }
+
+    // Sort by timestamp; all in one format now, so they compare as strings
+    entries.sort((a, b) =>
+      a.timestamp < b.timestamp ? -1 : a.timestamp > b.timestamp ? 1 : 0,
+    );
 
     this.entries = entries;
     log.info({ sessionKey: this.sessionKey, entryCount: entries.length }, 'OpenF1 session data loaded');
   }
 }
+
+/**
+ * OpenF1 dates come as `+00:00` with microseconds, times computed here as `Z` with
+ * milliseconds; one format keeps them in order within a second
+ */
+function isoTimestamp(timestamp: string): string {
+  const ms = Date.parse(timestamp);
+  return Number.isNaN(ms) ? timestamp : new Date(ms).toISOString();
+}
+
+function groupByDate<T extends { date: string }>(items: T[]): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const existing = groups.get(item.date);
+    if (existing) {
+      existing.push(item);
+    } else {
+      groups.set(item.date, [item]);
+    }
+  }
+  return groups;
+}
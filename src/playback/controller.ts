@@ -7,6 +7,14 @@ import { EventEmitter } from 'node:events';
 import { Timeline } from './timeline.js';
 import { StateAccumulator } from '../data/state-accumulator.js';
 import { detectEvents } from '../events/detector.js';
+import {
+  TimelineIndexer,
+  eventMatches,
+  type EventFilter,
+  type EventMarker,
+  type IndexedEvent,
+  type LapMarker,
+} from './timeline-index.js';
 import type { TimelineEntry } from './data-source.js';
 import type { SessionState } from '../data/types.js';
 import { createChildLogger } from '../util/logger.js';
@@ -25,6 +33,21 @@ export interface PlaybackState {
   endTime: string;
   currentIndex: number;
   totalEntries: number;
+  /** How far playback is behind the newest entry (live mode only) */
+  liveLagMs?: number;
+}
+
+export interface PlaybackControllerOptions {
+  /** Entries between keyframe snapshots used to speed up seek (default 5000) */
+  keyframeInterval?: number;
+}
+
+const DEFAULT_KEYFRAME_INTERVAL = 5000;
+
+/** Accumulator state after applying timeline entries [start, index) to the initial state */
+interface Keyframe {
+  index: number;
+  state: SessionState;
 }
 
 export class PlaybackController extends EventEmitter {
@@ -36,6 +59,19 @@ export class PlaybackController extends EventEmitter {
   private speed = 1;
   private mode: PlaybackMode = 'recorded';
   private timer: ReturnType<typeof setTimeout> | null = null;
+  private keyframeInterval: number;
+  /**
+   * Snapshots every keyframeInterval entries, recorded while indexing at load time
+   * (and as a live timeline grows). Contiguous, at multiples of the interval:
+   * keyframes[k].index === keyframes[0].index + k * interval.
+   */
+  private keyframes: Keyframe[] = [];
+  private index = new TimelineIndexer(null);
+
+  constructor(options: PlaybackControllerOptions = {}) {
+    super();
+    this.keyframeInterval = options.keyframeInterval ?? DEFAULT_KEYFRAME_INTERVAL;
+  }
 
   getPlaybackState(): PlaybackState {
     const range = this.timeline?.getTimeRange();
@@ -48,6 +84,7 @@ export class PlaybackController extends EventEmitter {
       endTime: range?.end ?? '',
       currentIndex: this.currentIndex,
       totalEntries: this.timeline?.length ?? 0,
+      ...(this.mode === 'live' ? { liveLagMs: this.getLiveLag() } : {}),
     };
   }
 
@@ -55,7 +92,11 @@ export class PlaybackController extends EventEmitter {
     return this.accumulator.getState();
   }
 
-  /** Load a timeline for playback */
+  /**
+   * Load a timeline for playback. In 'live' mode the timeline keeps growing: call
+   * handleAppended() after adding entries, and playback waits at the end for more
+   * instead of finishing.
+   */
   load(
     timeline: Timeline,
     initialState: SessionState | null,
@@ -65,7 +106,10 @@ export class PlaybackController extends EventEmitter {
     this.timeline = timeline;
     this.initialState = initialState;
     this.mode = mode;
-    this.currentIndex = 0;
+    this.currentIndex = timeline.start;
+    this.keyframes = [];
+    this.index = new TimelineIndexer(initialState, timeline.start);
+    this.indexEntries();
 
     if (initialState) {
       this.accumulator = new StateAccumulator(
@@ -77,13 +121,19 @@ export class PlaybackController extends EventEmitter {
 
     this.emit('loaded', this.getPlaybackState());
     log.info(
-      { entries: timeline.length, mode },
+      {
+        entries: timeline.length,
+        mode,
+        laps: this.index.laps.length,
+        events: this.index.events.length,
+      },
       'Timeline loaded',
     );
   }
 
   play(): void {
-    if (!this.timeline || this.timeline.length === 0) return;
+    if (!this.timeline) return;
+    if (this.timeline.length === 0 && this.mode !== 'live') return;
     if (this.status === 'playing') return;
 
     this.status = 'playing';
@@ -106,7 +156,7 @@ export class PlaybackController extends EventEmitter {
       clearTimeout(this.timer);
       this.timer = null;
     }
-    this.currentIndex = 0;
+    this.currentIndex = this.timeline?.start ?? 0;
     this.emit('stateChange', this.getPlaybackState());
   }
 
@@ -123,16 +173,120 @@ export class PlaybackController extends EventEmitter {
 
   /**
    * Seek to a specific timestamp.
-   * Rebuilds state by replaying from initial state to target.
+   * Restores the nearest keyframe at or before the target (or the initial state)
+   * and replays only the entries after it.
    */
   seek(timestamp: string): void {
     if (!this.timeline) return;
+    this.seekToIndex(this.timeline.findIndex(timestamp));
+  }
+
+  /** Jump to the start of a lap. Returns false if the timeline has no such lap. */
+  seekLap(lap: number): boolean {
+    const marker = this.index.laps.find((m) => m.lap === lap);
+    if (!marker) return false;
+    this.seekToIndex(marker.index);
+    return true;
+  }
+
+  /**
+   * Jump to just after the next (or previous) indexed event matching the filter.
+   * Returns the event, or null if there is none in that direction.
+   */
+  seekEvent(direction: 'next' | 'prev', filter: EventFilter = {}): IndexedEvent | null {
+    const matching = this.index.events.filter((m) => eventMatches(m.event, filter));
+    // Sitting at marker.index means that event has just happened — skip it both ways
+    const target =
+      direction === 'next'
+        ? matching.find((m) => m.index > this.currentIndex)
+        : matching.filter((m) => m.index < this.currentIndex).pop();
+    if (!target) return null;
+    this.seekToIndex(target.index);
+    return target.event;
+  }
+
+  /** Jump to the newest entry and carry on in real time */
+  goLive(): void {
+    if (!this.timeline || this.mode !== 'live') return;
+    this.speed = 1;
+    this.seekToIndex(this.timeline.length);
+    this.play();
+  }
+
+  /**
+   * Index entries appended to a live timeline since the last call, and play them
+   * straight away if playback is waiting at the end.
+   */
+  handleAppended(): void {
+    if (!this.timeline || this.mode !== 'live') return;
+    this.indexEntries();
+    if (this.status === 'playing' && !this.timer) this.scheduleNext();
+  }
+
+  /**
+   * Follow a live timeline that dropped its oldest entries. `initialState` is the
+   * state just before its new start; playback in the dropped part moves up to it.
+   */
+  handleTrimmed(initialState: SessionState): void {
+    if (!this.timeline || this.mode !== 'live') return;
+    const start = this.timeline.start;
+    this.initialState = initialState;
+    this.keyframes = this.keyframes.filter((k) => k.index >= start);
+    if (this.index.applied < start) {
+      this.index = new TimelineIndexer(initialState, start);
+      this.indexEntries();
+    } else {
+      this.index.dropBefore(start);
+    }
+    if (this.currentIndex < start) this.seekToIndex(start);
+  }
+
+  getLaps(): LapMarker[] {
+    return this.index.laps;
+  }
+
+  getEventMarkers(): EventMarker[] {
+    return this.index.events;
+  }
+
+  /** Index timeline entries not seen yet, snapshotting a keyframe every interval */
+  private indexEntries(): void {
+    const timeline = this.timeline!;
+    while (this.index.applied < timeline.length) {
+      this.index.apply(timeline.getEntry(this.index.applied)!);
+      if (this.index.applied % this.keyframeInterval === 0) {
+        this.keyframes.push({
+          index: this.index.applied,
+          state: this.index.accumulator.snapshot(),
+        });
+      }
+    }
+  }
+
+  private seekToIndex(targetIndex: number): void {
+    if (!this.timeline) return;
 
     const wasPlaying = this.status === 'playing';
     if (wasPlaying) this.pause();
-
-    // Reset to initial state
-    if (this.initialState) {
+    targetIndex = Math.max(targetIndex, this.timeline.start);
+
+    // Nearest keyframe at or before the target
+    const first = this.keyframes[0];
+    const keyframe =
+      first && targetIndex >= first.index
+        ? this.keyframes[
+            Math.min(
+              Math.floor((targetIndex - first.index) / this.keyframeInterval),
+              this.keyframes.length - 1,
+            )
+          ]
+        : undefined;
+    let startIndex = this.timeline.start;
+    if (keyframe) {
+      this.accumulator = new StateAccumulator(structuredClone(keyframe.state));
+      startIndex = keyframe.index;
+    } else if (this.initialState) {
+      // No keyframe yet — reset to initial state
       this.accumulator = new StateAccumulator(
         JSON.parse(JSON.stringify(this.initialState)) as SessionState,
       );
@@ -140,11 +294,8 @@ export class PlaybackController extends EventEmitter {
       this.accumulator = new StateAccumulator();
     }
 
-    // Find target index
-    const targetIndex = this.timeline.findIndex(timestamp);
-
-    // Fast-forward: replay all entries up to target (without emitting events)
-    for (let i = 0; i < targetIndex && i < this.timeline.length; i++) {
+    // Fast-forward: replay the remaining entries up to target (without emitting events)
+    for (let i = startIndex; i < targetIndex; i++) {
       const entry = this.timeline.getEntry(i)!;
       this.accumulator.applyMessage(entry.topic, entry.data, entry.timestamp);
     }
@@ -159,6 +310,14 @@ export class PlaybackController extends EventEmitter {
     if (wasPlaying) this.play();
   }
 
+  /** Time between the last entry played and the newest one */
+  private getLiveLag(): number {
+    const newest = this.timeline?.getEntry(this.timeline.length - 1);
+    const played = this.timeline?.getEntry(Math.max(0, this.currentIndex - 1));
+    if (!newest || !played) return 0;
+    return Date.parse(newest.timestamp) - Date.parse(played.timestamp);
+  }
+
   private getCurrentTime(): string {
     if (!this.timeline) return '';
     const entry = this.timeline.getEntry(
@@ -173,6 +332,10 @@ export class PlaybackController extends EventEmitter {
       !this.timeline ||
       this.currentIndex >= this.timeline.length
     ) {
+      if (this.mode === 'live' && this.status === 'playing') {
+        this.waitForLive();
+        return;
+      }
       if (this.currentIndex >= (this.timeline?.length ?? 0)) {
         this.status = 'stopped';
         this.emit('finished');
@@ -198,13 +361,23 @@ export class PlaybackController extends EventEmitter {
 
       // Cap delay at 5 seconds (for large gaps in data)
       const cappedDelay = Math.min(delayMs, 5000);
-      this.timer = setTimeout(() => this.scheduleNext(), cappedDelay);
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.scheduleNext();
+      }, cappedDelay);
     } else {
       // No more entries
       this.scheduleNext();
     }
   }
 
+  /** Caught up with a live timeline: stay playing, in real time, until it grows */
+  private waitForLive(): void {
+    if (this.speed === 1) return;
+    this.speed = 1;
+    this.emit('stateChange', this.getPlaybackState());
+  }
+
   private processEntry(entry: TimelineEntry): void {
     const prevState = this.accumulator.snapshot();
     this.accumulator.applyMessage(entry.topic, entry.data, entry.timestamp);
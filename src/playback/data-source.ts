@@ -14,6 +14,9 @@ export interface DataSource {
   /** Get the initial state snapshot (subscribe.json equivalent) */
   getInitialState(): Promise<SessionState | null>;
 
+  /** All entries, in timestamp order (for loading into a Timeline) */
+  getEntries(): Promise<TimelineEntry[]>;
+
   /** Stream entries from a given timestamp at a given speed multiplier */
   stream(from: string, speed: number): AsyncIterable<TimelineEntry>;
 
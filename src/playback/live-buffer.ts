@@ -0,0 +1,107 @@
+/**
+ * Live buffer: keeps the ongoing live session in memory as a growing Timeline,
+ * so the playback controller can pause, rewind and catch up to live like a DVR.
+ * Only a window of the session is kept; older entries are folded into the
+ * initial state.
+ */
+
+import { EventEmitter } from 'node:events';
+import { Timeline } from './timeline.js';
+import { StateAccumulator } from '../data/state-accumulator.js';
+import { recordingKey } from '../recording/auto-recorder.js';
+import type { TimelineEntry } from './data-source.js';
+import type { SessionState } from '../data/types.js';
+import type { PipelineMessage } from '../signalr/pipeline.js';
+import { createChildLogger } from '../util/logger.js';
+
+const log = createChildLogger('live-buffer');
+
+/** How much of the live session is kept for rewinding when liveBufferMinutes is unset */
+export const DEFAULT_LIVE_BUFFER_MINUTES = 60;
+
+/**
+ * Entries are dropped once the oldest is this far past the window, so the front of
+ * the timeline is cut in batches rather than on every entry
+ */
+const TRIM_SLACK_MS = 60_000;
+
+export interface LiveBufferOptions {
+  /** How much of the session to keep, read on every entry; null keeps all of it */
+  maxAgeMs?: () => number | null;
+}
+
+/**
+ * Emits 'session' when a new session replaces the buffered one, 'entry' with
+ * each entry appended to the current session's timeline, and 'trim' with the
+ * timeline's new start index after old entries were dropped.
+ */
+export class LiveBuffer extends EventEmitter {
+  private timeline: Timeline | null = null;
+  private initialState: SessionState | null = null;
+  private sessionKey: string | null = null;
+
+  constructor(private options: LiveBufferOptions = {}) {
+    super();
+  }
+
+  /** Timeline of the current session, or null before SessionInfo arrives */
+  getTimeline(): Timeline | null {
+    return this.timeline;
+  }
+
+  /** Session state just before the first entry still in the timeline */
+  getInitialState(): SessionState | null {
+    return this.initialState;
+  }
+
+  getSessionKey(): string | null {
+    return this.sessionKey;
+  }
+
+  /** Feed every pipeline update through here */
+  handleUpdate({ state, rawMessage }: PipelineMessage): void {
+    const key = state.sessionInfo ? recordingKey(state.sessionInfo) : null;
+    if (!key) return;
+
+    if (key !== this.sessionKey) {
+      // The state already includes this message, so the timeline starts after it
+      this.sessionKey = key;
+      this.initialState = structuredClone(state);
+      this.timeline = new Timeline([]);
+      log.info({ sessionKey: key }, 'Buffering live session');
+      this.emit('session', key);
+      return;
+    }
+
+    const entry: TimelineEntry = {
+      timestamp: rawMessage.timestamp,
+      topic: rawMessage.topic,
+      data: rawMessage.data,
+    };
+    this.timeline!.append(entry);
+    this.emit('entry', entry);
+    this.trim();
+  }
+
+  /** Drop entries older than the window, applying them to the initial state */
+  private trim(): void {
+    const maxAgeMs = this.options.maxAgeMs?.() ?? null;
+    if (maxAgeMs === null || !(maxAgeMs > 0)) return;
+
+    const timeline = this.timeline!;
+    const oldest = timeline.getEntry(timeline.start)!;
+    const newest = Date.parse(timeline.getEntry(timeline.length - 1)!.timestamp);
+    // Written so that unparseable timestamps never trim
+    if (!(newest - Date.parse(oldest.timestamp) >= maxAgeMs + TRIM_SLACK_MS)) return;
+
+    const cutoff = new Date(newest - maxAgeMs).toISOString();
+    const dropped = timeline.dropBefore(timeline.findIndex(cutoff));
+    const accumulator = new StateAccumulator(structuredClone(this.initialState!));
+    for (const entry of dropped) {
+      accumulator.applyMessage(entry.topic, entry.data, entry.timestamp);
+    }
+    this.initialState = accumulator.getState();
+    log.debug({ dropped: dropped.length, start: timeline.start }, 'Live buffer trimmed');
+    this.emit('trim', timeline.start);
+  }
+}
@@ -1,36 +1,36 @@
 /**
  * Recorded data source: loads a recorded session from disk.
+ * The message log is read lazily; stream() reads it straight from the file.
  */
 
 import type { DataSource, TimelineEntry } from './data-source.js';
 import type { SessionState } from '../data/types.js';
-import { loadInitialState, loadTimeline } from '../recording/storage.js';
+import { loadInitialState, loadTimeline, readTimeline } from '../recording/storage.js';
 
 export class RecordedDataSource implements DataSource {
-  private entries: TimelineEntry[];
+  private entries: TimelineEntry[] | null = null;
   private initialState: SessionState | null;
 
-  constructor(sessionDir: string) {
+  constructor(private sessionDir: string) {
     this.initialState = loadInitialState(sessionDir);
-    this.entries = loadTimeline(sessionDir);
   }
 
   async getInitialState(): Promise<SessionState | null> {
     return this.initialState;
   }
 
-  async *stream(from: string, speed: number): AsyncIterable<TimelineEntry> {
-    const startIdx = this.entries.findIndex(
-      (e) => e.timestamp >= from,
-    );
-    if (startIdx === -1) return;
+  async getEntries(): Promise<TimelineEntry[]> {
+    this.entries ??= await loadTimeline(this.sessionDir);
+    return this.entries;
+  }
 
-    let prevTime = new Date(this.entries[startIdx]!.timestamp).getTime();
+  async *stream(from: string, speed: number): AsyncIterable<TimelineEntry> {
+    let prevTime: number | null = null;
 
-    for (let i = startIdx; i < this.entries.length; i++) {
-      const entry = this.entries[i]!;
+    for await (const entry of this.entries ?? readTimeline(this.sessionDir)) {
+      if (entry.timestamp < from) continue;
       const currTime = new Date(entry.timestamp).getTime();
-      const delay = (currTime - prevTime) / speed;
+      const delay = prevTime === null ? 0 : (currTime - prevTime) / speed;
 
       if (delay > 0) {
         await new Promise((resolve) =>
@@ -44,14 +44,25 @@ export class RecordedDataSource implements DataSource {
   }
 
   async getTimeRange(): Promise<{ start: string; end: string } | null> {
-    if (this.entries.length === 0) return null;
-    return {
-      start: this.entries[0]!.timestamp,
-      end: this.entries[this.entries.length - 1]!.timestamp,
-    };
+    if (this.entries) {
+      if (this.entries.length === 0) return null;
+      return {
+        start: this.entries[0]!.timestamp,
+        end: this.entries[this.entries.length - 1]!.timestamp,
+      };
+    }
+
+    // One pass over the file, keeping only the ends
+    let start: string | null = null;
+    let end: string | null = null;
+    for await (const entry of readTimeline(this.sessionDir)) {
+      start ??= entry.timestamp;
+      end = entry.timestamp;
+    }
+    return start && end ? { start, end } : null;
   }
 
   async close(): Promise<void> {
-    // No resources to clean up for file-based source
+    this.entries = null;
   }
 }
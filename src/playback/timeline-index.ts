@@ -0,0 +1,169 @@
+/**
+ * Timeline index: lap boundaries and key events, found in one pass at load time
+ * (and extended as a live timeline grows) so playback can jump straight to
+ * "lap 30" or "the restart after the red flag".
+ */
+
+import { StateAccumulator } from '../data/state-accumulator.js';
+import { detectFlagChange } from '../events/flag-detector.js';
+import { detectOvertakes } from '../events/overtake-detector.js';
+import { detectPitStops } from '../events/pit-detector.js';
+import type { SessionState } from '../data/types.js';
+import type { FlagChangeEvent, OvertakeEvent, PitStopEvent } from '../events/types.js';
+import type { Timeline } from './timeline.js';
+import type { TimelineEntry } from './data-source.js';
+
+/** Playing from `index` starts lap `lap` — its LapCount entry has been applied */
+export interface LapMarker {
+  lap: number;
+  index: number;
+  timestamp: string;
+}
+
+export type IndexedEvent = FlagChangeEvent | OvertakeEvent | PitStopEvent;
+export type IndexedEventType = IndexedEvent['type'];
+
+/** An event and the position just after the entry that caused it */
+export interface EventMarker {
+  index: number;
+  event: IndexedEvent;
+}
+
+export interface EventFilter {
+  type?: IndexedEventType;
+  driverNumber?: string;
+}
+
+export interface TimelineIndex {
+  laps: LapMarker[];
+  events: EventMarker[];
+}
+
+export const INDEXED_EVENT_TYPES: readonly IndexedEventType[] = [
+  'flag_change',
+  'overtake',
+  'pit_stop',
+];
+
+/**
+ * Incremental index builder: feed it timeline entries in order, starting from the
+ * one at `start` (with `initialState` the state just before it). The `laps` and
+ * `events` arrays grow in place.
+ */
+export class TimelineIndexer implements TimelineIndex {
+  readonly laps: LapMarker[] = [];
+  readonly events: EventMarker[] = [];
+  readonly accumulator: StateAccumulator;
+  /** Index of the next entry to apply */
+  applied: number;
+
+  constructor(
+    initialState: SessionState | null,
+    private start = 0,
+  ) {
+    this.applied = start;
+    this.accumulator = new StateAccumulator(
+      initialState ? structuredClone(initialState) : undefined,
+    );
+  }
+
+  apply(entry: TimelineEntry): void {
+    const state = this.accumulator.getState();
+    if (this.applied === this.start && state.lapCount.current > 0) {
+      this.laps.push({
+        lap: state.lapCount.current,
+        index: this.start,
+        timestamp: entry.timestamp,
+      });
+    }
+
+    // The accumulator replaces these per-driver objects rather than mutating them,
+    // so copying the containers is enough of a snapshot for the three detectors
+    const prev: SessionState = {
+      ...state,
+      timing: { ...state.timing },
+      stints: { ...state.stints },
+    };
+
+    this.accumulator.applyMessage(entry.topic, entry.data, entry.timestamp);
+    const curr = this.accumulator.getState();
+    this.applied++;
+
+    const lap = curr.lapCount.current;
+    if (lap > (this.laps[this.laps.length - 1]?.lap ?? 0)) {
+      this.laps.push({ lap, index: this.applied, timestamp: entry.timestamp });
+    }
+
+    for (const event of [
+      ...detectFlagChange(prev, curr),
+      ...detectOvertakes(prev, curr),
+      ...detectPitStops(prev, curr),
+    ]) {
+      this.events.push({ index: this.applied, event });
+    }
+  }
+
+  /** Forget markers before `index`, once the timeline has dropped those entries */
+  dropBefore(index: number): void {
+    for (const markers of [this.laps, this.events]) {
+      const kept = markers.findIndex((m) => m.index >= index);
+      markers.splice(0, kept === -1 ? markers.length : kept);
+    }
+  }
+}
+
+/**
+ * Replay the whole timeline once, recording lap starts and flag/overtake/pit events.
+ * `onApplied` is called after each entry with the number of entries applied so far.
+ */
+export function buildTimelineIndex(
+  timeline: Timeline,
+  initialState: SessionState | null,
+  onApplied?: (applied: number, accumulator: StateAccumulator) => void,
+): TimelineIndex {
+  const indexer = new TimelineIndexer(initialState, timeline.start);
+  for (let i = timeline.start; i < timeline.length; i++) {
+    indexer.apply(timeline.getEntry(i)!);
+    onApplied?.(indexer.applied, indexer.accumulator);
+  }
+  return { laps: indexer.laps, events: indexer.events };
+}
+
+export function eventMatches(event: IndexedEvent, filter: EventFilter): boolean {
+  if (filter.type && event.type !== filter.type) return false;
+  if (!filter.driverNumber) return true;
+
+  switch (event.type) {
+    case 'overtake':
+      return (
+        event.overtakingDriver === filter.driverNumber ||
+        event.overtakenDriver === filter.driverNumber
+      );
+    case 'pit_stop':
+      return event.driverNumber === filter.driverNumber;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Parse a command filter such as "overtake", "44" or "pit_stop 44".
+ * Returns null if any part is neither an event type nor a driver number.
+ */
+export function parseEventFilter(value?: string | number): EventFilter | null {
+  const filter: EventFilter = {};
+  const tokens = String(value ?? '')
+    .split(/[\s,]+/)
+    .filter(Boolean);
+
+  for (const token of tokens) {
+    if ((INDEXED_EVENT_TYPES as readonly string[]).includes(token)) {
+      filter.type = token as IndexedEventType;
+    } else if (/^\d+$/.test(token)) {
+      filter.driverNumber = token;
+    } else {
+      return null;
+    }
+  }
+  return filter;
+}
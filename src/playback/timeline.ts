@@ -6,6 +6,8 @@ import type { TimelineEntry } from './data-source.js';
 
 export class Timeline {
   private entries: TimelineEntry[];
+  /** Index of entries[0]; a live timeline drops its oldest entries, keeping indices stable */
+  private offset = 0;
 
   constructor(entries: TimelineEntry[]) {
     // Ensure sorted by timestamp
@@ -14,12 +16,57 @@ export class Timeline {
     );
   }
 
+  /**
+   * Take ownership of a freshly loaded array instead of copying it, so a long
+   * session isn't held twice while loading. It is only sorted (in place) if needed.
+   */
+  static adopt(entries: TimelineEntry[]): Timeline {
+    const timeline = new Timeline([]);
+    const sorted = entries.every(
+      (entry, i) => i === 0 || entries[i - 1]!.timestamp <= entry.timestamp,
+    );
+    if (!sorted) {
+      entries.sort((a, b) =>
+        a.timestamp < b.timestamp ? -1 : a.timestamp > b.timestamp ? 1 : 0,
+      );
+    }
+    timeline.entries = entries;
+    return timeline;
+  }
+
+  /**
+   * Add an entry to the end, as a live timeline grows. Entries older than the last
+   * one (clock jitter between arrivals) take its timestamp, keeping the order and
+   * every existing index stable.
+   */
+  append(entry: TimelineEntry): void {
+    const last = this.entries[this.entries.length - 1];
+    this.entries.push(
+      last && entry.timestamp < last.timestamp
+        ? { ...entry, timestamp: last.timestamp }
+        : entry,
+    );
+  }
+
+  /** One past the index of the last entry */
   get length(): number {
-    return this.entries.length;
+    return this.offset + this.entries.length;
+  }
+
+  /** Index of the first entry still held; entries before it were dropped */
+  get start(): number {
+    return this.offset;
   }
 
   getEntry(index: number): TimelineEntry | undefined {
-    return this.entries[index];
+    return index < this.offset ? undefined : this.entries[index - this.offset];
+  }
+
+  /** Drop the entries before `index`, returning them in order */
+  dropBefore(index: number): TimelineEntry[] {
+    const count = Math.min(Math.max(0, index - this.offset), this.entries.length);
+    this.offset += count;
+    return this.entries.splice(0, count);
   }
 
   /** Get time range of the timeline */
@@ -33,7 +80,7 @@ export class Timeline {
 
   /**
    * Binary search: find the index of the first entry at or after the given timestamp.
-   * Returns entries.length if all entries are before the timestamp.
+   * Returns length if all entries are before the timestamp, and start if none are.
    */
   findIndex(timestamp: string): number {
     let lo = 0;
@@ -48,12 +95,15 @@ export class Timeline {
       }
     }
 
-    return lo;
+    return this.offset + lo;
   }
 
   /** Get all entries from startIndex up to (not including) endIndex */
   slice(startIndex: number, endIndex: number): TimelineEntry[] {
-    return this.entries.slice(startIndex, endIndex);
+    return this.entries.slice(
+      Math.max(0, startIndex - this.offset),
+      Math.max(0, endIndex - this.offset),
+    );
   }
 
   /** Get all entries between two timestamps (inclusive) */
@@ -62,12 +112,9 @@ export class Timeline {
     // Find first entry AFTER endTime
     let endIdx = this.findIndex(endTime);
     // Include entries at exactly endTime
-    while (
-      endIdx < this.entries.length &&
-      this.entries[endIdx]!.timestamp === endTime
-    ) {
+    while (endIdx < this.length && this.getEntry(endIdx)!.timestamp === endTime) {
       endIdx++;
     }
-    return this.entries.slice(startIdx, endIdx);
+    return this.slice(startIdx, endIdx);
   }
 }
@@ -0,0 +1,221 @@
+/**
+ * F1 static archive import: turns a session folder from the livetiming static
+ * archive (livetiming.formula1.com/static/...) into a local recording.
+ *
+ * The archive has a keyframe (`Topic.json`) and a stream (`Topic.jsonStream`) per
+ * topic. Each stream line is an offset from the start of the feed followed by the
+ * message, e.g. `00:12:34.567{"Lines":{...}}`; `.z` topics carry compressed
+ * messages as in the live feed. Streams are merged into one live.jsonl with
+ * absolute timestamps, so the recording replays with the live feed's fidelity.
+ */
+
+import { readFile, readdir } from 'node:fs/promises';
+import { basename, join } from 'node:path';
+import { writeRecording } from './recorder.js';
+import { recordingMetadata } from './auto-recorder.js';
+import type { RecordedSession } from './storage.js';
+import { StateAccumulator } from '../data/state-accumulator.js';
+import type { SignalRMessage } from '../signalr/client.js';
+import { SIGNALR_TOPICS } from '../util/constants.js';
+import { decompressMessage } from '../util/zlib.js';
+import { createChildLogger } from '../util/logger.js';
+
+const log = createChildLogger('archive-import');
+
+const STREAM_SUFFIX = '.jsonStream';
+
+/** Topics whose end-of-session keyframe is also right at the start: it seeds subscribe.json */
+const INITIAL_KEYFRAME_TOPICS = ['SessionInfo', 'DriverList'];
+
+/** A session folder of the archive, on disk or served over HTTP */
+export interface ArchiveReader {
+  /** Where the archive is read from, for logs and errors */
+  location: string;
+  /** Contents of a file in the session folder, or null if it doesn't exist */
+  readFile(name: string): Promise<string | null>;
+  /** Topics with a stream in the folder, when the reader can list them */
+  listTopics(): Promise<string[] | null>;
+}
+
+export function directoryArchive(dir: string): ArchiveReader {
+  return {
+    location: dir,
+    async readFile(name) {
+      try {
+        return await readFile(join(dir, name), 'utf-8');
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw err;
+      }
+    },
+    async listTopics() {
+      const files = await readdir(dir);
+      return files
+        .filter((f) => f.endsWith(STREAM_SUFFIX))
+        .map((f) => f.slice(0, -STREAM_SUFFIX.length));
+    },
+  };
+}
+
+export function httpArchive(baseUrl: string): ArchiveReader {
+  const base = baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`;
+  return {
+    location: base,
+    async readFile(name) {
+      const res = await fetch(new URL(name, base));
+      if (res.status === 404 || res.status === 403) return null;
+      if (!res.ok) throw new Error(`Archive request for ${name} failed: ${res.status}`);
+      return res.text();
+    },
+    // Folders can't be listed over HTTP; Index.json or the known topics stand in
+    async listTopics() {
+      return null;
+    },
+  };
+}
+
+export interface ArchiveStreamLine {
+  /** Milliseconds since the start of the feed */
+  offsetMs: number;
+  data: unknown;
+}
+
+/** Archive files start with a UTF-8 byte order mark */
+function stripBom(content: string): string {
+  return content.replace(/^\uFEFF/, '');
+}
+
+const LINE_PATTERN = /^(\d+):(\d{2}):(\d{2})\.(\d{3})(.+)$/;
+
+/** Parse a .jsonStream file. Lines that don't parse are skipped. */
+export function parseJsonStream(content: string): ArchiveStreamLine[] {
+  const lines: ArchiveStreamLine[] = [];
+  for (const raw of stripBom(content).split(/\r?\n/)) {
+    const match = LINE_PATTERN.exec(raw.trim());
+    if (!match) continue;
+    const [, h, m, s, ms, json] = match;
+    try {
+      lines.push({
+        offsetMs: ((Number(h) * 60 + Number(m)) * 60 + Number(s)) * 1000 + Number(ms),
+        data: JSON.parse(json!) as unknown,
+      });
+    } catch {
+      log.warn({ line: raw.slice(0, 80) }, 'Skipping unparseable stream line');
+    }
+  }
+  return lines;
+}
+
+/** Topics in the archive: from Index.json, a folder listing, or the topics we subscribe to live */
+async function archiveTopics(reader: ArchiveReader): Promise<string[]> {
+  const index = await reader.readFile('Index.json');
+  if (index) {
+    const feeds = (JSON.parse(stripBom(index)) as { Feeds?: object }).Feeds;
+    if (feeds) return Object.keys(feeds);
+  }
+  return (await reader.listTopics()) ?? [...SIGNALR_TOPICS];
+}
+
+/**
+ * Wall-clock time the feed started: Heartbeat (or ExtrapolatedClock) messages carry
+ * a Utc timestamp alongside their offset.
+ */
+function feedStart(streams: Map<string, ArchiveStreamLine[]>): number {
+  for (const topic of ['Heartbeat', 'ExtrapolatedClock']) {
+    for (const line of streams.get(topic) ?? []) {
+      const utc = (line.data as { Utc?: string } | null)?.Utc;
+      const time = utc ? Date.parse(utc) : NaN;
+      if (!Number.isNaN(time)) return time - line.offsetMs;
+    }
+  }
+  throw new Error('Cannot date the archive: no Heartbeat or ExtrapolatedClock stream');
+}
+
+async function decodeLine(topic: string, data: unknown): Promise<unknown> {
+  if (topic.endsWith('.z') && typeof data === 'string') {
+    return JSON.parse(await decompressMessage(data)) as unknown;
+  }
+  return data;
+}
+
+export interface ArchiveImportOptions {
+  recordingsDir: string;
+  /** Replace an existing recording of the session instead of failing */
+  overwrite?: boolean;
+  /** Gzip the message log */
+  compress?: boolean;
+}
+
+export interface ArchiveImportResult extends RecordedSession {
+  entries: number;
+}
+
+export async function importArchiveSession(
+  reader: ArchiveReader,
+  options: ArchiveImportOptions,
+): Promise<ArchiveImportResult> {
+  const streams = new Map<string, ArchiveStreamLine[]>();
+  for (const topic of await archiveTopics(reader)) {
+    const content = await reader.readFile(`${topic}${STREAM_SUFFIX}`);
+    if (content) streams.set(topic, parseJsonStream(content));
+  }
+  if (streams.size === 0) {
+    throw new Error(`No .jsonStream files found in ${reader.location}`);
+  }
+
+  const start = feedStart(streams);
+  const startTime = new Date(start).toISOString();
+
+  // subscribe.json: the state at the start of the feed
+  const acc = new StateAccumulator();
+  for (const topic of INITIAL_KEYFRAME_TOPICS) {
+    const keyframe = await reader.readFile(`${topic}.json`);
+    if (keyframe) {
+      acc.applyMessage(topic, JSON.parse(stripBom(keyframe)), startTime);
+    }
+  }
+  const initialState = acc.getState();
+  const info = initialState.sessionInfo;
+  if (!info) throw new Error(`No SessionInfo keyframe in ${reader.location}`);
+
+  // live.jsonl: every stream merged in feed order. The sort is stable, so messages
+  // sharing an offset keep their order within a topic.
+  const lines: Array<ArchiveStreamLine & { topic: string }> = [];
+  for (const [topic, stream] of streams) {
+    for (const line of stream) lines.push({ ...line, topic });
+  }
+  lines.sort((a, b) => a.offsetMs - b.offsetMs);
+
+  const messages: SignalRMessage[] = [];
+  for (const line of lines) {
+    try {
+      messages.push({
+        topic: line.topic.replace(/\.z$/, ''),
+        data: await decodeLine(line.topic, line.data),
+        timestamp: new Date(start + line.offsetMs).toISOString(),
+      });
+    } catch (err) {
+      log.warn({ err, topic: line.topic }, 'Skipping undecodable stream line');
+    }
+  }
+
+  const last = messages[messages.length - 1];
+  const metadata = {
+    ...recordingMetadata(info),
+    ...(last ? { endTime: last.timestamp } : {}),
+    importedFrom: 'archive' as const,
+  };
+  const dir = await writeRecording(
+    options.recordingsDir,
+    metadata,
+    initialState,
+    messages,
+    options,
+  );
+
+  log.info(
+    { location: reader.location, dir, topics: streams.size, entries: messages.length },
+    'Archive session imported',
+  );
+  return { id: basename(dir), dir, metadata, entries: messages.length };
+}
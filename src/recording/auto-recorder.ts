@@ -0,0 +1,124 @@
+/**
+ * Auto recorder: records live sessions without user interaction.
+ * Starts a SessionRecorder once SessionInfo and SessionStatus are known,
+ * stops it when the session is finalised.
+ */
+
+import { SessionRecorder, type RecordingMetadata } from './recorder.js';
+import type { SessionInfo, SessionState } from '../data/types.js';
+import type { PipelineMessage } from '../signalr/pipeline.js';
+import type { SignalRMessage } from '../signalr/client.js';
+import { createChildLogger } from '../util/logger.js';
+
+const log = createChildLogger('auto-recorder');
+
+/** Messages held while waiting to decide on a session; the oldest go first */
+const MAX_PENDING_MESSAGES = 5000;
+
+export interface AutoRecorderOptions {
+  recordingsDir: string;
+  /** Consulted once per session, so toggling takes effect from the next session */
+  isEnabled: () => boolean;
+  /** Whether to gzip the message log, also consulted once per session */
+  compress?: () => boolean;
+}
+
+/** Session key for the recording directory — the feed's key, or one derived from the session */
+export function recordingKey(info: SessionInfo): string {
+  if (info.key) return info.key;
+  return `${info.name}-${info.type}-${info.startTime}`
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+export function recordingMetadata(info: SessionInfo): RecordingMetadata {
+  return {
+    sessionKey: recordingKey(info),
+    year: yearOf(info),
+    sessionName: `${info.name} - ${info.type}`,
+    sessionType: info.type,
+    circuit: info.circuit,
+    startTime: info.startTime,
+  };
+}
+
+function yearOf(info: SessionInfo): number {
+  const year = new Date(info.startTime).getUTCFullYear();
+  return Number.isNaN(year) ? new Date().getUTCFullYear() : year;
+}
+
+export class AutoRecorder {
+  private recorder: SessionRecorder | null = null;
+  /** Session the last start/skip decision was made for */
+  private currentKey: string | null = null;
+  /** Messages since connecting, before the decision — a resumed recording logs them */
+  private pending: SignalRMessage[] = [];
+
+  constructor(private options: AutoRecorderOptions) {}
+
+  isRecording(): boolean {
+    return this.recorder !== null;
+  }
+
+  /** Directory of the recording in progress, or null when not recording */
+  getDirectory(): string | null {
+    return this.recorder?.getDirectory() ?? null;
+  }
+
+  /** Feed every pipeline update through here */
+  async handleUpdate({ state, rawMessage }: PipelineMessage): Promise<void> {
+    const info = state.sessionInfo;
+    const key = info ? recordingKey(info) : null;
+
+    if (this.recorder) {
+      if (key === this.currentKey) {
+        this.recorder.write(rawMessage);
+        if (state.sessionPhase === 'Finalised') await this.stop(state.timestamp);
+        return;
+      }
+      // A different session replaced the one being recorded
+      await this.stop();
+    }
+
+    if (key === null || key !== this.currentKey) this.hold(rawMessage);
+
+    // Wait for SessionStatus too — the Subscribe snapshot carries it after SessionInfo
+    if (!info || !key || key === this.currentKey || !state.sessionPhase) return;
+    this.currentKey = key;
+    const pending = this.pending;
+    this.pending = [];
+
+    if (state.sessionPhase === 'Finalised') return; // connected after the session
+    if (!this.options.isEnabled()) {
+      log.info({ sessionKey: key }, 'Auto recording disabled, not recording session');
+      return;
+    }
+
+    this.start(info, state, pending);
+  }
+
+  /** Stop the current recording, if any */
+  async stop(endTime?: string): Promise<void> {
+    const recorder = this.recorder;
+    this.recorder = null;
+    await recorder?.stop(endTime);
+  }
+
+  private hold(msg: SignalRMessage): void {
+    this.pending.push(msg);
+    if (this.pending.length > MAX_PENDING_MESSAGES) this.pending.shift();
+  }
+
+  private start(info: SessionInfo, state: SessionState, pending: SignalRMessage[]): void {
+    const metadata = recordingMetadata(info);
+    this.recorder = new SessionRecorder(
+      this.options.recordingsDir,
+      metadata.sessionKey,
+      metadata.year,
+      { compress: this.options.compress?.() ?? false },
+    );
+    // The accumulated state so far becomes subscribe.json; later messages go to live.jsonl
+    this.recorder.start(metadata, state, pending);
+  }
+}
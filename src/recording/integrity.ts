@@ -0,0 +1,262 @@
+/**
+ * Recording integrity: find what a crash or a bad copy left behind in a recording,
+ * and repair what can be repaired. A process killed mid-session leaves a message log
+ * ending in a cut-off line and metadata.json without an endTime.
+ */
+
+import {
+  createWriteStream,
+  existsSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs';
+import { join } from 'node:path';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { createGzip } from 'node:zlib';
+import { isGzip, readTimelineLines, timelinePath } from './storage.js';
+import type { RecordingMetadata } from './recorder.js';
+import { createChildLogger } from '../util/logger.js';
+
+const log = createChildLogger('integrity');
+
+/** Silence in the feed longer than this is reported as a gap; the feed heartbeats every few seconds */
+const DEFAULT_GAP_THRESHOLD_MS = 60_000;
+
+/** Problems of each kind listed in a report; the counts cover all of them */
+const MAX_LISTED = 100;
+
+export interface TimestampIssue {
+  /** 1-based line number in the message log */
+  line: number;
+  timestamp: string;
+  /** Latest timestamp before this line */
+  previous: string;
+}
+
+export interface TimelineGap {
+  from: string;
+  to: string;
+  seconds: number;
+}
+
+export interface IntegrityReport {
+  dir: string;
+  /** False when the recording has errors; gaps and out-of-order entries are only warnings */
+  ok: boolean;
+  entries: number;
+  firstTimestamp: string | null;
+  lastTimestamp: string | null;
+  missingTimeline: boolean;
+  missingSubscribe: boolean;
+  missingMetadata: boolean;
+  missingEndTime: boolean;
+  malformedCount: number;
+  /** 1-based line numbers of lines that aren't timeline entries */
+  malformedLines: number[];
+  /** The last line is malformed, as a write cut off by a crash leaves it */
+  truncated: boolean;
+  /** Why the log couldn't be read to the end, such as a corrupt gzip stream */
+  readError: string | null;
+  outOfOrderCount: number;
+  outOfOrder: TimestampIssue[];
+  gaps: TimelineGap[];
+}
+
+export interface RepairResult {
+  dir: string;
+  /** Malformed lines dropped from the message log; anything after a read error is lost too */
+  droppedLines: number;
+  /** Whether entries were put back into timestamp order */
+  reordered: boolean;
+  /** endTime written into metadata.json, when it was missing */
+  endTime: string | null;
+  /** The recording as it is after the repair */
+  report: IntegrityReport;
+}
+
+interface ParsedLine {
+  ts: string;
+  line: string;
+}
+
+/** A line's timestamp, or null if it isn't a timeline entry */
+function parseLine(line: string): string | null {
+  try {
+    const parsed = JSON.parse(line) as { ts?: unknown; topic?: unknown };
+    if (typeof parsed.ts !== 'string' || typeof parsed.topic !== 'string') return null;
+    return Number.isNaN(Date.parse(parsed.ts)) ? null : parsed.ts;
+  } catch {
+    return null;
+  }
+}
+
+function readMetadata(sessionDir: string): RecordingMetadata | null {
+  try {
+    return JSON.parse(
+      readFileSync(join(sessionDir, 'metadata.json'), 'utf-8'),
+    ) as RecordingMetadata;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read a recording's message log, calling `onEntry` for every valid line and
+ * `onMalformed` for the rest. Returns the read error that ended it early, if any.
+ */
+async function scanTimeline(
+  sessionDir: string,
+  onEntry: (entry: ParsedLine, lineNumber: number) => void,
+  onMalformed: (lineNumber: number) => void,
+): Promise<string | null> {
+  let lineNumber = 0;
+  try {
+    for await (const line of readTimelineLines(sessionDir)) {
+      lineNumber++;
+      if (!line.trim()) continue;
+      const ts = parseLine(line);
+      if (ts === null) onMalformed(lineNumber);
+      else onEntry({ ts, line }, lineNumber);
+    }
+    return null;
+  } catch (err) {
+    return (err as Error).message;
+  }
+}
+
+/** Check a recording for damage without changing it */
+export async function checkRecording(
+  sessionDir: string,
+  options: { gapThresholdMs?: number } = {},
+): Promise<IntegrityReport> {
+  const gapThresholdMs = options.gapThresholdMs ?? DEFAULT_GAP_THRESHOLD_MS;
+  const metadata = readMetadata(sessionDir);
+  const report: IntegrityReport = {
+    dir: sessionDir,
+    ok: true,
+    entries: 0,
+    firstTimestamp: null,
+    lastTimestamp: null,
+    missingTimeline: timelinePath(sessionDir) === null,
+    missingSubscribe: !existsSync(join(sessionDir, 'subscribe.json')),
+    missingMetadata: metadata === null,
+    missingEndTime: metadata !== null && !metadata.endTime,
+    malformedCount: 0,
+    malformedLines: [],
+    truncated: false,
+    readError: null,
+    outOfOrderCount: 0,
+    outOfOrder: [],
+    gaps: [],
+  };
+
+  let latest: string | null = null;
+  let lastLineMalformed = false;
+
+  report.readError = await scanTimeline(
+    sessionDir,
+    ({ ts }, line) => {
+      lastLineMalformed = false;
+      report.entries++;
+      report.firstTimestamp ??= ts;
+      if (latest !== null && ts < latest) {
+        report.outOfOrderCount++;
+        if (report.outOfOrder.length < MAX_LISTED) {
+          report.outOfOrder.push({ line, timestamp: ts, previous: latest });
+        }
+        return;
+      }
+      if (latest !== null) {
+        const gapMs = Date.parse(ts) - Date.parse(latest);
+        if (gapMs > gapThresholdMs && report.gaps.length < MAX_LISTED) {
+          report.gaps.push({ from: latest, to: ts, seconds: gapMs / 1000 });
+        }
+      }
+      latest = ts;
+    },
+    (line) => {
+      lastLineMalformed = true;
+      report.malformedCount++;
+      if (report.malformedLines.length < MAX_LISTED) report.malformedLines.push(line);
+    },
+  );
+
+  report.lastTimestamp = latest;
+  report.truncated = lastLineMalformed;
+  report.ok =
+    !report.missingTimeline &&
+    !report.missingSubscribe &&
+    !report.missingMetadata &&
+    !report.missingEndTime &&
+    report.malformedCount === 0 &&
+    report.readError === null;
+  return report;
+}
+
+/**
+ * Repair a recording in place: drop malformed lines, keep what was readable before
+ * a read error, put entries in timestamp order, and fill in a missing endTime from
+ * the last entry kept. The log keeps its format and is replaced atomically. Entries
+ * are read the way checkRecording reads them, so the repaired log holds what the
+ * check counted. A missing subscribe.json can't be rebuilt; playback then starts
+ * from an empty state.
+ *
+ * Don't repair a recording that is still being written.
+ */
+export async function repairRecording(sessionDir: string): Promise<RepairResult> {
+  const metadata = readMetadata(sessionDir);
+  if (!metadata) throw new Error(`No readable metadata.json in ${sessionDir}`);
+
+  const before = await checkRecording(sessionDir);
+  const path = timelinePath(sessionDir);
+  let droppedLines = 0;
+  let reordered = false;
+  let last = before.lastTimestamp;
+
+  if (
+    path &&
+    (before.malformedCount > 0 || before.readError !== null || before.outOfOrderCount > 0)
+  ) {
+    const entries: ParsedLine[] = [];
+    await scanTimeline(
+      sessionDir,
+      (entry) => entries.push(entry),
+      () => droppedLines++,
+    );
+    if (before.outOfOrderCount > 0) {
+      // Array sort is stable, so entries sharing a timestamp keep their order
+      entries.sort((a, b) => (a.ts < b.ts ? -1 : a.ts > b.ts ? 1 : 0));
+      reordered = true;
+    }
+    last = entries[entries.length - 1]?.ts ?? null;
+
+    const lines = Readable.from(entries.map((e) => e.line + '\n'));
+    const tmp = `${path}.repair`;
+    try {
+      if (isGzip(path)) await pipeline(lines, createGzip(), createWriteStream(tmp));
+      else await pipeline(lines, createWriteStream(tmp));
+      renameSync(tmp, path);
+    } finally {
+      rmSync(tmp, { force: true });
+    }
+  }
+
+  let endTime: string | null = null;
+  if (!metadata.endTime && last) {
+    endTime = last;
+    writeFileSync(
+      join(sessionDir, 'metadata.json'),
+      JSON.stringify({ ...metadata, endTime }, null, 2),
+    );
+  }
+
+  const report = await checkRecording(sessionDir);
+  log.info(
+    { dir: sessionDir, droppedLines, reordered, endTime, ok: report.ok },
+    'Recording repaired',
+  );
+  return { dir: sessionDir, droppedLines, reordered, endTime, report };
+}
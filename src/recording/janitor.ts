@@ -0,0 +1,185 @@
+/**
+ * Recording janitor: enforces the retention policy on RECORDINGS_DIR, so
+ * recordings don't pile up until the disk is full. Pinned recordings and the one
+ * being written are never deleted.
+ */
+
+import { EventEmitter } from 'node:events';
+import {
+  deleteRecording,
+  listRecordings,
+  recordingSize,
+  recordingsUsage,
+  type RecordedSession,
+  type RecordingsUsage,
+} from './storage.js';
+import { createChildLogger } from '../util/logger.js';
+
+const log = createChildLogger('janitor');
+
+const DEFAULT_INTERVAL_MS = 60 * 60_000;
+const DAY_MS = 24 * 60 * 60_000;
+
+/** Each rule is off when unset; recordings breaking any rule that is on are deleted */
+export interface RetentionPolicy {
+  /** Keep this many of the most recent unpinned recordings */
+  keepLast?: number | null;
+  /** Delete practice sessions once they are this many days old; other sessions stay */
+  practiceMaxAgeDays?: number | null;
+  /** Delete the oldest unpinned recordings while all of them together take more */
+  maxTotalBytes?: number | null;
+}
+
+export interface SizedRecording extends RecordedSession {
+  bytes: number;
+}
+
+export interface JanitorOptions {
+  recordingsDir: string;
+  /** Read before every run, so policy changes apply from the next one */
+  policy: () => RetentionPolicy;
+  /** Directory of the recording in progress, if any */
+  activeDirectory?: () => string | null;
+  /** Time between runs (default 1 hour) */
+  intervalMs?: number;
+}
+
+export interface JanitorResult {
+  deleted: string[];
+  usage: RecordingsUsage;
+}
+
+/** The rule's value if it is switched on: a positive number, or zero where allowed */
+function limit(value: number | null | undefined, allowZero = false): number | null {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return null;
+  return value > 0 || (allowZero && value === 0) ? value : null;
+}
+
+/** When a recording's session happened, for ordering and age */
+function sessionTime(recording: RecordedSession): number {
+  const time = Date.parse(recording.metadata.endTime ?? recording.metadata.startTime);
+  return Number.isNaN(time) ? 0 : time;
+}
+
+/**
+ * Pick the recordings the policy deletes. `exempt` recordings (pinned, or being
+ * written) are never picked but still count towards the size limit.
+ */
+export function selectExpired(
+  recordings: SizedRecording[],
+  policy: RetentionPolicy,
+  now: number,
+  exempt: (recording: SizedRecording) => boolean = (r) => !!r.metadata.pinned,
+): SizedRecording[] {
+  const newestFirst = [...recordings].sort((a, b) => sessionTime(b) - sessionTime(a));
+  const candidates = newestFirst.filter((r) => !exempt(r));
+  const expired = new Set<SizedRecording>();
+
+  const keepLast = limit(policy.keepLast);
+  if (keepLast !== null) {
+    for (const r of candidates.slice(Math.floor(keepLast))) expired.add(r);
+  }
+
+  const practiceDays = limit(policy.practiceMaxAgeDays, true);
+  if (practiceDays !== null) {
+    for (const r of candidates) {
+      if (
+        r.metadata.sessionType === 'Practice' &&
+        now - sessionTime(r) > practiceDays * DAY_MS
+      ) {
+        expired.add(r);
+      }
+    }
+  }
+
+  const maxBytes = limit(policy.maxTotalBytes);
+  if (maxBytes !== null) {
+    let total = recordings
+      .filter((r) => !expired.has(r))
+      .reduce((sum, r) => sum + r.bytes, 0);
+    for (const r of [...candidates].reverse()) {
+      if (total <= maxBytes) break;
+      if (expired.has(r)) continue;
+      expired.add(r);
+      total -= r.bytes;
+    }
+  }
+
+  return newestFirst.filter((r) => expired.has(r));
+}
+
+/** Emits 'usage' with the recordings' disk usage after every run */
+export class RecordingJanitor extends EventEmitter {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private usage: RecordingsUsage | null = null;
+
+  constructor(private options: JanitorOptions) {
+    super();
+  }
+
+  /** Run now, then on every interval */
+  start(): void {
+    this.stop();
+    this.runSafely();
+    this.timer = setInterval(
+      () => this.runSafely(),
+      this.options.intervalMs ?? DEFAULT_INTERVAL_MS,
+    );
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** Disk usage as of the last run, or null before the first */
+  getUsage(): RecordingsUsage | null {
+    return this.usage;
+  }
+
+  /** Apply the retention policy once; returns the deleted directories and resulting usage */
+  run(now = Date.now()): JanitorResult {
+    const { recordingsDir } = this.options;
+    const active = this.options.activeDirectory?.() ?? null;
+    const recordings = listRecordings(recordingsDir).map((r) => ({
+      ...r,
+      bytes: recordingSize(r.dir),
+    }));
+
+    const expired = selectExpired(
+      recordings,
+      this.options.policy(),
+      now,
+      (r) => !!r.metadata.pinned || r.dir === active,
+    );
+
+    const deleted: string[] = [];
+    for (const r of expired) {
+      try {
+        deleteRecording(r.dir);
+        deleted.push(r.dir);
+      } catch (err) {
+        log.error({ err, dir: r.dir }, 'Failed to delete expired recording');
+      }
+    }
+    if (deleted.length > 0) {
+      log.info({ count: deleted.length }, 'Expired recordings deleted');
+    }
+
+    const usage = recordingsUsage(recordingsDir);
+    this.usage = usage;
+    this.emit('usage', usage);
+    return { deleted, usage };
+  }
+
+  private runSafely(): void {
+    try {
+      this.run();
+    } catch (err) {
+      log.error({ err }, 'Retention run failed');
+    }
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * OpenF1 import: materialises an OpenF1 session as a local recording, in the same
+ * metadata.json + subscribe.json + live.jsonl layout the recorder writes, so it
+ * lists and plays offline like any recorded session.
+ */
+
+import { basename } from 'node:path';
+import { writeRecording } from './recorder.js';
+import { recordingMetadata } from './auto-recorder.js';
+import type { RecordedSession } from './storage.js';
+import { OpenF1Source } from '../openf1/source.js';
+import type { OpenF1Client } from '../openf1/client.js';
+import { createChildLogger } from '../util/logger.js';
+
+const log = createChildLogger('openf1-import');
+
+export interface OpenF1ImportOptions {
+  recordingsDir: string;
+  client?: OpenF1Client;
+  /** Replace an existing recording of the session instead of failing */
+  overwrite?: boolean;
+  /** Gzip the message log */
+  compress?: boolean;
+  /** Directory of the recording in progress, if any, which is never replaced */
+  activeDirectory?: () => string | null;
+}
+
+export interface OpenF1ImportResult extends RecordedSession {
+  entries: number;
+}
+
+export async function importOpenF1Session(
+  sessionKey: number,
+  options: OpenF1ImportOptions,
+): Promise<OpenF1ImportResult> {
+  const source = new OpenF1Source(sessionKey, options.client);
+  try {
+    // Fetch everything before touching the disk, so a failed download leaves nothing behind
+    const initialState = await source.getInitialState();
+    const info = initialState?.sessionInfo;
+    if (!initialState || !info) {
+      throw new Error(`OpenF1 session not found: ${sessionKey}`);
+    }
+    const entries = await source.getEntries();
+
+    const metadata = {
+      ...recordingMetadata(info),
+      ...(info.endTime ? { endTime: info.endTime } : {}),
+      importedFrom: 'openf1' as const,
+    };
+    const dir = await writeRecording(
+      options.recordingsDir,
+      metadata,
+      initialState,
+      entries,
+      options,
+    );
+
+    log.info({ sessionKey, dir, entries: entries.length }, 'OpenF1 session imported');
+    return { id: basename(dir), dir, metadata, entries: entries.length };
+  } finally {
+    await source.close();
+  }
+}
@@ -1,11 +1,20 @@
 /**
  * Session recorder: writes live SignalR data to disk.
- * Format: metadata.json + subscribe.json + live.jsonl
+ * Format: metadata.json + subscribe.json + live.jsonl (or live.jsonl.gz)
  */
 
-import { createWriteStream, mkdirSync, writeFileSync } from 'node:fs';
-import type { WriteStream } from 'node:fs';
+import {
+  createWriteStream,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs';
+import { once } from 'node:events';
 import { join } from 'node:path';
+import type { Writable } from 'node:stream';
+import { createGzip, type Gzip } from 'node:zlib';
 import { createChildLogger } from '../util/logger.js';
 import type { SessionState } from '../data/types.js';
 import type { SignalRMessage } from '../signalr/client.js';
@@ -20,35 +29,101 @@ export interface RecordingMetadata {
   circuit: string;
   startTime: string;
   endTime?: string;
+  /** Set on recordings imported from elsewhere rather than recorded live */
+  importedFrom?: 'openf1' | 'archive';
+  /** User labels, edited from the recordings manager */
+  tags?: string[];
+  notes?: string;
+  /** Pinned recordings are never deleted by the retention janitor */
+  pinned?: boolean;
+}
+
+/** Message log file names; storage picks up whichever one a recording has */
+export const TIMELINE_FILE = 'live.jsonl';
+export const COMPRESSED_TIMELINE_FILE = 'live.jsonl.gz';
+
+/**
+ * How often a compressed recording is flushed to disk. Anything still buffered in
+ * the compressor is lost if the process dies, so this bounds the loss.
+ */
+const GZIP_FLUSH_INTERVAL_MS = 5000;
+
+export interface SessionRecorderOptions {
+  /** Gzip the message log — CarData and Position make uncompressed races large */
+  compress?: boolean;
 }
 
 export class SessionRecorder {
-  private stream: WriteStream | null = null;
+  private stream: Writable | null = null;
+  private file: Writable | null = null;
+  private gzip: Gzip | null = null;
+  private lastFlush = 0;
   private dir: string;
   private messageCount = 0;
+  private metadata: RecordingMetadata | null = null;
 
-  constructor(baseDir: string, sessionKey: string, year: number) {
+  constructor(
+    baseDir: string,
+    sessionKey: string,
+    year: number,
+    private options: SessionRecorderOptions = {},
+  ) {
     this.dir = join(baseDir, `${year}-${sessionKey}`);
   }
 
-  /** Start recording. Writes metadata and initial state snapshot. */
-  start(metadata: RecordingMetadata, initialState: SessionState): void {
+  /**
+   * Start recording. Writes metadata and initial state snapshot. Resuming a session
+   * after a restart keeps the original snapshot, which the log already continues
+   * from, and the metadata as it was edited since. The messages that built
+   * `initialState` are appended to the log instead, stamped with the resume time.
+   */
+  start(
+    metadata: RecordingMetadata,
+    initialState: SessionState,
+    messages: SignalRMessage[] = [],
+  ): void {
     mkdirSync(this.dir, { recursive: true });
 
-    writeFileSync(
-      join(this.dir, 'metadata.json'),
-      JSON.stringify(metadata, null, 2),
-    );
-    writeFileSync(
-      join(this.dir, 'subscribe.json'),
-      JSON.stringify(initialState, null, 2),
-    );
+    const existing = this.readMetadata();
+    this.metadata = existing
+      ? { ...metadata, ...existing, endTime: undefined }
+      : metadata;
+    this.writeMetadata();
 
-    this.stream = createWriteStream(join(this.dir, 'live.jsonl'), {
-      flags: 'a',
-    });
+    const subscribePath = join(this.dir, 'subscribe.json');
+    if (!existing || !existsSync(subscribePath)) {
+      writeFileSync(subscribePath, JSON.stringify(initialState, null, 2));
+    }
+
+    // Resuming a session keeps the format it was started in
+    const compress = existsSync(join(this.dir, COMPRESSED_TIMELINE_FILE))
+      ? true
+      : existsSync(join(this.dir, TIMELINE_FILE))
+        ? false
+        : !!this.options.compress;
+
+    if (compress) {
+      // Appending after a restart adds a new gzip member, which readers handle
+      this.file = createWriteStream(join(this.dir, COMPRESSED_TIMELINE_FILE), {
+        flags: 'a',
+      });
+      this.gzip = createGzip();
+      this.gzip.pipe(this.file);
+      this.stream = this.gzip;
+      this.lastFlush = Date.now();
+    } else {
+      this.file = createWriteStream(join(this.dir, TIMELINE_FILE), {
+        flags: 'a',
+      });
+      this.stream = this.file;
+    }
 
-    log.info({ dir: this.dir }, 'Recording started');
+    const resumedAt = messages[messages.length - 1]?.timestamp;
+    if (existing && resumedAt) {
+      for (const msg of messages) this.write({ ...msg, timestamp: resumedAt });
+    }
+
+    log.info({ dir: this.dir, compress, resumed: !!existing }, 'Recording started');
   }
 
   /** Append a message to the JSONL log */
@@ -61,25 +136,52 @@ export class SessionRecorder {
     });
     this.stream.write(line + '\n');
     this.messageCount++;
+
+    if (this.gzip && Date.now() - this.lastFlush >= GZIP_FLUSH_INTERVAL_MS) {
+      this.gzip.flush();
+      this.lastFlush = Date.now();
+    }
   }
 
-  /** Stop recording */
-  stop(): Promise<void> {
-    return new Promise((resolve) => {
-      if (this.stream) {
-        const s = this.stream;
-        this.stream = null;
-        s.end(() => {
-          log.info(
-            { messageCount: this.messageCount, dir: this.dir },
-            'Recording stopped',
-          );
-          resolve();
-        });
-      } else {
-        resolve();
-      }
-    });
+  /**
+   * Stop recording. `endTime`, when given, is written into metadata.json, keeping
+   * edits made to it while recording (pins, names, tags).
+   */
+  async stop(endTime?: string): Promise<void> {
+    if (endTime && this.metadata) {
+      this.metadata = { ...(this.readMetadata() ?? this.metadata), endTime };
+      this.writeMetadata();
+    }
+
+    const stream = this.stream;
+    const file = this.file;
+    this.stream = null;
+    this.file = null;
+    this.gzip = null;
+    if (!stream || !file) return;
+
+    // Wait for the file itself, which closes after the compressor has drained into it
+    const closed = once(file, 'close');
+    stream.end();
+    await closed;
+    log.info({ messageCount: this.messageCount, dir: this.dir }, 'Recording stopped');
+  }
+
+  private readMetadata(): RecordingMetadata | null {
+    try {
+      return JSON.parse(
+        readFileSync(join(this.dir, 'metadata.json'), 'utf-8'),
+      ) as RecordingMetadata;
+    } catch {
+      return null;
+    }
+  }
+
+  private writeMetadata(): void {
+    writeFileSync(
+      join(this.dir, 'metadata.json'),
+      JSON.stringify(this.metadata, null, 2),
+    );
   }
 
   getMessageCount(): number {
@@ -90,3 +192,55 @@ export class SessionRecorder {
     return this.dir;
   }
 }
+
+/** Thrown when the session was already recorded or imported and overwrite is off */
+export class RecordingExistsError extends Error {
+  constructor(readonly dir: string) {
+    super(`Recording already exists: ${dir}`);
+    this.name = 'RecordingExistsError';
+  }
+}
+
+/** Thrown when an import or upload would replace the recording still being written */
+export class RecordingInProgressError extends Error {
+  constructor(readonly dir: string) {
+    super(`Recording is in progress: ${dir}`);
+    this.name = 'RecordingInProgressError';
+  }
+}
+
+export interface WriteRecordingOptions {
+  overwrite?: boolean;
+  compress?: boolean;
+  /** Directory of the recording in progress, if any, which is never replaced */
+  activeDirectory?: () => string | null;
+}
+
+/**
+ * Write a complete session in one go, as importers do, in the same layout as a live
+ * recording. Returns the recording directory.
+ */
+export async function writeRecording(
+  baseDir: string,
+  metadata: RecordingMetadata,
+  initialState: SessionState,
+  messages: SignalRMessage[],
+  options: WriteRecordingOptions = {},
+): Promise<string> {
+  const recorder = new SessionRecorder(baseDir, metadata.sessionKey, metadata.year, {
+    compress: options.compress,
+  });
+  const dir = recorder.getDirectory();
+  if (options.activeDirectory?.() === dir) throw new RecordingInProgressError(dir);
+  if (existsSync(dir)) {
+    if (!options.overwrite) throw new RecordingExistsError(dir);
+    rmSync(dir, { recursive: true, force: true });
+  }
+
+  recorder.start(metadata, initialState);
+  for (const msg of messages) {
+    recorder.write(msg);
+  }
+  await recorder.stop(metadata.endTime);
+  return dir;
+}
@@ -1,10 +1,29 @@
 /**
- * Recording storage: list and load recorded sessions from disk.
+ * Recording storage: list, load and manage recorded sessions on disk.
  */
 
-import { readFileSync, readdirSync, existsSync } from 'node:fs';
+import {
+  closeSync,
+  createReadStream,
+  existsSync,
+  openSync,
+  readFileSync,
+  readSync,
+  readdirSync,
+  rmSync,
+  statSync,
+  statfsSync,
+  writeFileSync,
+} from 'node:fs';
 import { join } from 'node:path';
-import type { RecordingMetadata } from './recorder.js';
+import { createInterface } from 'node:readline';
+import { pipeline, type Readable } from 'node:stream';
+import { constants as zlibConstants, createGunzip } from 'node:zlib';
+import {
+  COMPRESSED_TIMELINE_FILE,
+  TIMELINE_FILE,
+  type RecordingMetadata,
+} from './recorder.js';
 import type { SessionState } from '../data/types.js';
 import type { TimelineEntry } from '../playback/data-source.js';
 import { createChildLogger } from '../util/logger.js';
@@ -12,16 +31,35 @@ import { createChildLogger } from '../util/logger.js';
 const log = createChildLogger('storage');
 
 export interface RecordedSession {
+  /** Directory name, which identifies the recording in the API */
+  id: string;
   dir: string;
   metadata: RecordingMetadata;
 }
 
+/** Recording ids are plain directory names: no separators, no hidden directories */
+const RECORDING_ID = /^[\w-][\w.-]*$/;
+
+/** Metadata fields users may change; the rest describe the session itself */
+export type RecordingMetadataUpdate = Pick<
+  Partial<RecordingMetadata>,
+  'sessionName' | 'tags' | 'notes' | 'pinned'
+>;
+
+export interface RecordingsUsage {
+  recordings: number;
+  pinned: number;
+  totalBytes: number;
+  /** Free space on the recordings volume, when the platform reports it */
+  freeBytes: number | null;
+}
+
 /** List all recorded sessions in the base directory */
 export function listRecordings(baseDir: string): RecordedSession[] {
   if (!existsSync(baseDir)) return [];
 
   const dirs = readdirSync(baseDir, { withFileTypes: true })
-    .filter((d) => d.isDirectory())
+    .filter((d) => d.isDirectory() && RECORDING_ID.test(d.name))
     .map((d) => d.name)
     .sort();
 
@@ -34,7 +72,7 @@ export function listRecordings(baseDir: string): RecordedSession[] {
     try {
       const raw = readFileSync(metadataPath, 'utf-8');
       const metadata = JSON.parse(raw) as RecordingMetadata;
-      sessions.push({ dir: join(baseDir, dirName), metadata });
+      sessions.push({ id: dirName, dir: join(baseDir, dirName), metadata });
     } catch (err) {
       log.warn({ dir: dirName, err }, 'Failed to read recording metadata');
     }
@@ -43,6 +81,58 @@ export function listRecordings(baseDir: string): RecordedSession[] {
   return sessions;
 }
 
+/** Directory of the recording with this id, or null if there is no such recording */
+export function recordingDir(baseDir: string, id: string): string | null {
+  if (!RECORDING_ID.test(id)) return null;
+  const dir = join(baseDir, id);
+  return existsSync(join(dir, 'metadata.json')) ? dir : null;
+}
+
+/** Apply user edits to a recording's metadata.json; returns the updated metadata */
+export function updateRecordingMetadata(
+  sessionDir: string,
+  update: RecordingMetadataUpdate,
+): RecordingMetadata {
+  const path = join(sessionDir, 'metadata.json');
+  const metadata = JSON.parse(readFileSync(path, 'utf-8')) as RecordingMetadata;
+  const updated = { ...metadata, ...update };
+  writeFileSync(path, JSON.stringify(updated, null, 2));
+  return updated;
+}
+
+/** Delete a recording and everything in its directory */
+export function deleteRecording(sessionDir: string): void {
+  rmSync(sessionDir, { recursive: true, force: true });
+  log.info({ sessionDir }, 'Recording deleted');
+}
+
+/** Bytes a recording takes on disk */
+export function recordingSize(sessionDir: string): number {
+  let total = 0;
+  for (const entry of readdirSync(sessionDir, { withFileTypes: true })) {
+    if (entry.isFile()) total += statSync(join(sessionDir, entry.name)).size;
+  }
+  return total;
+}
+
+/** Disk usage of all recordings in the base directory */
+export function recordingsUsage(baseDir: string): RecordingsUsage {
+  const recordings = listRecordings(baseDir);
+  let freeBytes: number | null = null;
+  try {
+    const fs = statfsSync(baseDir);
+    freeBytes = fs.bavail * fs.bsize;
+  } catch {
+    // Missing directory, or a platform without statfs
+  }
+  return {
+    recordings: recordings.length,
+    pinned: recordings.filter((r) => r.metadata.pinned).length,
+    totalBytes: recordings.reduce((sum, r) => sum + recordingSize(r.dir), 0),
+    freeBytes,
+  };
+}
+
 /** Load the initial state snapshot from a recording */
 export function loadInitialState(sessionDir: string): SessionState | null {
   const path = join(sessionDir, 'subscribe.json');
@@ -56,24 +146,72 @@ export function loadInitialState(sessionDir: string): SessionState | null {
   }
 }
 
-/** Load all timeline entries from a recording's JSONL file */
-export function loadTimeline(sessionDir: string): TimelineEntry[] {
-  const path = join(sessionDir, 'live.jsonl');
-  if (!existsSync(path)) return [];
-
-  const content = readFileSync(path, 'utf-8');
-  const lines = content.split('\n').filter((l) => l.trim());
-
-  return lines.map((line) => {
-    const parsed = JSON.parse(line) as {
-      ts: string;
-      topic: string;
-      data: unknown;
-    };
-    return {
-      timestamp: parsed.ts,
-      topic: parsed.topic,
-      data: parsed.data,
-    };
-  });
+/** The recording's message log, compressed or not, or null if it has none */
+export function timelinePath(sessionDir: string): string | null {
+  for (const name of [COMPRESSED_TIMELINE_FILE, TIMELINE_FILE]) {
+    const path = join(sessionDir, name);
+    if (existsSync(path)) return path;
+  }
+  return null;
+}
+
+/** Gzip is recognised by its magic bytes rather than trusted from the file name */
+export function isGzip(path: string): boolean {
+  const fd = openSync(path, 'r');
+  try {
+    const magic = Buffer.alloc(2);
+    return readSync(fd, magic, 0, 2, 0) === 2 && magic[0] === 0x1f && magic[1] === 0x8b;
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/** Stream the raw lines of a recording's message log, decompressing it if need be */
+export async function* readTimelineLines(sessionDir: string): AsyncGenerator<string> {
+  const path = timelinePath(sessionDir);
+  if (!path) return;
+
+  let input: Readable = createReadStream(path);
+  if (isGzip(path)) {
+    // Sync flush lets a file whose compressor never finished be read up to its end.
+    // pipeline() passes read errors on, so they end the iteration instead of hanging it.
+    input = pipeline(
+      input,
+      createGunzip({ finishFlush: zlibConstants.Z_SYNC_FLUSH }),
+      () => {},
+    );
+  }
+
+  yield* createInterface({ input, crlfDelay: Infinity });
+}
+
+/**
+ * Stream timeline entries from a recording line by line, without holding the file
+ * in memory. A line that doesn't parse, such as one cut off by a crash, is skipped.
+ */
+export async function* readTimeline(sessionDir: string): AsyncGenerator<TimelineEntry> {
+  let skipped = 0;
+  for await (const line of readTimelineLines(sessionDir)) {
+    if (!line.trim()) continue;
+    try {
+      const parsed = JSON.parse(line) as { ts: string; topic: string; data: unknown };
+      yield { timestamp: parsed.ts, topic: parsed.topic, data: parsed.data };
+    } catch {
+      skipped++;
+    }
+  }
+  if (skipped > 0) log.warn({ sessionDir, skipped }, 'Skipped unreadable timeline lines');
+}
+
+/**
+ * Load all timeline entries from a recording. The file is read line by line, but
+ * every parsed entry is held in the returned array; use readTimeline to go through
+ * a recording without keeping it.
+ */
+export async function loadTimeline(sessionDir: string): Promise<TimelineEntry[]> {
+  const entries: TimelineEntry[] = [];
+  for await (const entry of readTimeline(sessionDir)) {
+    entries.push(entry);
+  }
+  return entries;
 }
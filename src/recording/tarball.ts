@@ -0,0 +1,249 @@
+/**
+ * Recording tarballs: a recording directory as a .tar.gz, for download and upload.
+ * Recordings are flat folders of plain files, so only that much of ustar is
+ * supported — regular files under one top-level folder.
+ */
+
+import { randomBytes } from 'node:crypto';
+import {
+  closeSync,
+  createReadStream,
+  existsSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  readdirSync,
+  renameSync,
+  rmSync,
+  statSync,
+  writeSync,
+} from 'node:fs';
+import { join } from 'node:path';
+import { Readable, pipeline } from 'node:stream';
+import { createGunzip, createGzip } from 'node:zlib';
+import {
+  RecordingExistsError,
+  RecordingInProgressError,
+  type RecordingMetadata,
+} from './recorder.js';
+import type { RecordedSession } from './storage.js';
+import { createChildLogger } from '../util/logger.js';
+
+const log = createChildLogger('tarball');
+
+const BLOCK = 512;
+
+/** Uploads larger than this once decompressed are rejected, to stop gzip bombs */
+const DEFAULT_MAX_BYTES = 4 * 1024 ** 3;
+
+/** File names allowed inside a recording: no paths, no hidden files */
+const FILE_NAME = /^[\w-][\w.-]*$/;
+
+function header(name: string, size: number, mtime: Date): Buffer {
+  const block = Buffer.alloc(BLOCK);
+  const field = (value: string, offset: number, length: number) =>
+    block.write(value, offset, length, 'utf-8');
+  const octal = (value: number, offset: number, length: number) =>
+    field(value.toString(8).padStart(length - 1, '0') + '\0', offset, length);
+
+  field(name, 0, 100);
+  octal(0o644, 100, 8);
+  octal(0, 108, 8);
+  octal(0, 116, 8);
+  octal(size, 124, 12);
+  octal(Math.floor(mtime.getTime() / 1000), 136, 12);
+  field(' '.repeat(8), 148, 8);
+  field('0', 156, 1);
+  field('ustar\0', 257, 6);
+  field('00', 263, 2);
+
+  let checksum = 0;
+  for (const byte of block) checksum += byte;
+  field(checksum.toString(8).padStart(6, '0') + '\0 ', 148, 8);
+  return block;
+}
+
+async function* tarEntries(dir: string, root: string): AsyncGenerator<Buffer> {
+  const files = readdirSync(dir, { withFileTypes: true })
+    .filter((f) => f.isFile() && FILE_NAME.test(f.name))
+    .map((f) => f.name)
+    .sort();
+
+  for (const file of files) {
+    const path = join(dir, file);
+    const { size, mtime } = statSync(path);
+    yield header(`${root}/${file}`, size, mtime);
+    for await (const chunk of createReadStream(path)) yield chunk as Buffer;
+    if (size % BLOCK) yield Buffer.alloc(BLOCK - (size % BLOCK));
+  }
+  yield Buffer.alloc(BLOCK * 2);
+}
+
+/** Stream a recording directory as a .tar.gz whose files sit under `root/` */
+export function packRecording(dir: string, root: string): Readable {
+  return pipeline(Readable.from(tarEntries(dir, root)), createGzip(), () => {});
+}
+
+function readString(block: Buffer, offset: number, length: number): string {
+  const raw = block.subarray(offset, offset + length);
+  const end = raw.indexOf(0);
+  return raw.subarray(0, end === -1 ? length : end).toString('utf-8');
+}
+
+/** Target file name for an entry, or null for entries that are skipped */
+function entryFileName(name: string, type: string): string | null {
+  // Directories and pax / GNU metadata carry nothing a recording needs
+  if (type !== '0' && type !== '\0' && type !== '') return null;
+  const parts = name.split('/').filter((p) => p !== '' && p !== '.');
+  const file = parts.length === 1 ? parts[0] : parts.length === 2 ? parts[1] : undefined;
+  if (!file || !FILE_NAME.test(file) || parts.includes('..')) {
+    throw new Error(`Unexpected file in recording archive: ${name}`);
+  }
+  return file;
+}
+
+/**
+ * Extract a .tar.gz of a recording into `destDir`, which must exist. Files may sit
+ * at the top level or inside one folder; anything deeper, or with a suspicious
+ * name, fails the extraction. Returns the names of the extracted files.
+ */
+export async function unpackRecording(
+  input: Readable,
+  destDir: string,
+  maxBytes = DEFAULT_MAX_BYTES,
+): Promise<string[]> {
+  const tar = pipeline(input, createGunzip(), () => {});
+  const extracted: string[] = [];
+  let buffer: Buffer = Buffer.alloc(0);
+  let total = 0;
+  /** The entry whose data is being read: an open file, or null when skipping */
+  let entry: { fd: number | null; remaining: number; padding: number } | null = null;
+  let ended = false;
+
+  try {
+    for await (const chunk of tar) {
+      total += (chunk as Buffer).length;
+      if (total > maxBytes) throw new Error('Recording archive is too large');
+      buffer = buffer.length
+        ? Buffer.concat([buffer, chunk as Buffer])
+        : (chunk as Buffer);
+
+      while (!ended) {
+        if (entry) {
+          const take = Math.min(entry.remaining, buffer.length);
+          if (entry.fd !== null && take > 0) writeSync(entry.fd, buffer, 0, take);
+          entry.remaining -= take;
+          buffer = buffer.subarray(take);
+          if (entry.remaining > 0) break;
+
+          if (buffer.length < entry.padding) break;
+          buffer = buffer.subarray(entry.padding);
+          if (entry.fd !== null) closeSync(entry.fd);
+          entry = null;
+          continue;
+        }
+
+        if (buffer.length < BLOCK) break;
+        const block = buffer.subarray(0, BLOCK);
+        buffer = buffer.subarray(BLOCK);
+        if (block.every((b) => b === 0)) {
+          ended = true;
+          break;
+        }
+        if (readString(block, 257, 5) !== 'ustar') {
+          throw new Error('Not a tar archive');
+        }
+
+        const prefix = readString(block, 345, 155);
+        const name = (prefix ? `${prefix}/` : '') + readString(block, 0, 100);
+        const size = parseInt(readString(block, 124, 12).trim() || '0', 8);
+        const file = entryFileName(name, readString(block, 156, 1));
+        if (file) extracted.push(file);
+        entry = {
+          fd: file ? openSync(join(destDir, file), 'w') : null,
+          remaining: size,
+          padding: size % BLOCK ? BLOCK - (size % BLOCK) : 0,
+        };
+      }
+    }
+  } finally {
+    if (entry?.fd != null) closeSync(entry.fd);
+  }
+
+  if (!ended && (entry || buffer.length > 0)) {
+    throw new Error('Recording archive is truncated');
+  }
+  return extracted;
+}
+
+/** Thrown when an uploaded archive doesn't hold a usable recording */
+export class InvalidRecordingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidRecordingError';
+  }
+}
+
+function validMetadata(raw: string): RecordingMetadata {
+  let metadata: Partial<RecordingMetadata>;
+  try {
+    metadata = JSON.parse(raw) as Partial<RecordingMetadata>;
+  } catch {
+    throw new InvalidRecordingError('metadata.json is not valid JSON');
+  }
+  if (
+    typeof metadata.sessionKey !== 'string' ||
+    !/^[\w-]+$/.test(metadata.sessionKey) ||
+    !Number.isInteger(metadata.year)
+  ) {
+    throw new InvalidRecordingError('metadata.json lacks a valid sessionKey and year');
+  }
+  return metadata as RecordingMetadata;
+}
+
+/**
+ * Install an uploaded recording tarball under `baseDir`. The archive is extracted
+ * into a hidden staging directory and only moved into place, as `<year>-<sessionKey>`
+ * like any other recording, once it checks out.
+ */
+export async function importRecordingTarball(
+  input: Readable,
+  baseDir: string,
+  options: {
+    overwrite?: boolean;
+    maxBytes?: number;
+    activeDirectory?: () => string | null;
+  } = {},
+): Promise<RecordedSession> {
+  mkdirSync(baseDir, { recursive: true });
+  const staging = join(baseDir, `.upload-${randomBytes(6).toString('hex')}`);
+  mkdirSync(staging);
+
+  try {
+    try {
+      await unpackRecording(input, staging, options.maxBytes);
+    } catch (err) {
+      throw new InvalidRecordingError((err as Error).message);
+    }
+
+    const metadataPath = join(staging, 'metadata.json');
+    if (!existsSync(metadataPath)) {
+      throw new InvalidRecordingError('Archive has no metadata.json');
+    }
+    const metadata = validMetadata(readFileSync(metadataPath, 'utf-8'));
+
+    const id = `${metadata.year}-${metadata.sessionKey}`;
+    const dir = join(baseDir, id);
+    if (options.activeDirectory?.() === dir) throw new RecordingInProgressError(dir);
+    if (existsSync(dir)) {
+      if (!options.overwrite) throw new RecordingExistsError(dir);
+      rmSync(dir, { recursive: true, force: true });
+    }
+    renameSync(staging, dir);
+
+    log.info({ dir }, 'Recording uploaded');
+    return { id, dir, metadata };
+  } finally {
+    rmSync(staging, { recursive: true, force: true });
+  }
+}
@@ -94,12 +94,27 @@ export class F1SignalRClient extends EventEmitter {
       });
     }
 
-    // Invoke Subscribe on the Streaming hub with the list of topics
-    client.connection.hub.invoke(HUB_NAME, 'Subscribe', [
-      ...SIGNALR_TOPICS,
-    ]);
+    // Subscribe on the Streaming hub with the list of topics. The reply is a snapshot
+    // of every topic; the feed only sends changes after it, so a topic like
+    // SessionStatus may not come again for the rest of the session.
+    client.connection.hub
+      .call(HUB_NAME, 'Subscribe', [...SIGNALR_TOPICS])
+      .then((snapshot) => {
+        log.info({ topics: SIGNALR_TOPICS.length }, 'Subscribed to topics');
+        this.handleSnapshot(snapshot);
+      })
+      .catch((err: unknown) => {
+        log.error({ err }, 'Subscribe failed');
+      });
+  }
 
-    log.info({ topics: SIGNALR_TOPICS.length }, 'Subscribed to topics');
+  /** Emit the Subscribe snapshot as one message per topic, in topic order */
+  private handleSnapshot(snapshot: unknown): void {
+    if (!snapshot || typeof snapshot !== 'object') return;
+    const topics = snapshot as Record<string, unknown>;
+    for (const topic of SIGNALR_TOPICS) {
+      if (topics[topic] !== undefined) this.handleMessage(topic, topics[topic]);
+    }
   }
 
   private handleMessage(topic: string, data: unknown): void {
@@ -0,0 +1,106 @@
+/**
+ * Delay buffer between the SignalR client and the pipeline.
+ * Holds live messages back by a configurable delay so published data lines up
+ * with the TV broadcast, which typically runs 20–60 seconds behind the timing feed.
+ */
+
+import { EventEmitter } from 'node:events';
+import { createChildLogger } from '../util/logger.js';
+import type { SignalRMessage } from './client.js';
+
+const log = createChildLogger('delay-buffer');
+
+/** Upper bound on the delay, so a typo can't hold messages back for hours */
+export const MAX_DELAY_MS = 5 * 60_000;
+
+interface BufferedMessage {
+  msg: SignalRMessage;
+  receivedAt: number;
+}
+
+/**
+ * Emits 'message' for each pushed message once it is `delay` ms old, in arrival
+ * order, and 'delayChange' with the new delay in ms whenever it changes.
+ */
+export class DelayBuffer extends EventEmitter {
+  private queue: BufferedMessage[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private delayMs: number;
+
+  constructor(delayMs = 0) {
+    super();
+    this.delayMs = clampDelay(delayMs);
+  }
+
+  getDelay(): number {
+    return this.delayMs;
+  }
+
+  /** Number of messages waiting to be released */
+  size(): number {
+    return this.queue.length;
+  }
+
+  push(msg: SignalRMessage): void {
+    this.queue.push({ msg, receivedAt: Date.now() });
+    this.release();
+  }
+
+  /**
+   * Change the delay. Shortening it releases anything that is now due at once;
+   * lengthening it holds back messages that haven't been released yet.
+   */
+  setDelay(delayMs: number): void {
+    const next = clampDelay(delayMs);
+    if (next === this.delayMs) return;
+    this.delayMs = next;
+    log.info({ delayMs: next, buffered: this.queue.length }, 'Live delay changed');
+    this.release();
+    this.emit('delayChange', next);
+  }
+
+  /** Adjust the delay by a (signed) number of ms */
+  nudge(deltaMs: number): void {
+    this.setDelay(this.delayMs + deltaMs);
+  }
+
+  /** Emit every buffered message now, whatever its age, so none are lost on shutdown */
+  flush(): void {
+    this.cancelTimer();
+    const queue = this.queue;
+    this.queue = [];
+    for (const { msg } of queue) this.emit('message', msg);
+  }
+
+  /** Drop buffered messages and cancel the release timer */
+  clear(): void {
+    this.queue = [];
+    this.cancelTimer();
+  }
+
+  /** Emit every message that is due, then wait for the next one */
+  private release(): void {
+    this.cancelTimer();
+    const now = Date.now();
+    while (this.queue.length > 0 && this.queue[0]!.receivedAt + this.delayMs <= now) {
+      this.emit('message', this.queue.shift()!.msg);
+    }
+
+    const head = this.queue[0];
+    if (head) {
+      this.timer = setTimeout(() => this.release(), head.receivedAt + this.delayMs - now);
+    }
+  }
+
+  private cancelTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+function clampDelay(delayMs: number): number {
+  if (!Number.isFinite(delayMs)) return 0;
+  return Math.min(MAX_DELAY_MS, Math.max(0, Math.round(delayMs)));
+}
@@ -15,6 +15,10 @@ import type {
   PitLaneTime,
   TopThreeEntry,
   RaceControlMessage,
+  CarTelemetry,
+  CarPosition,
+  SessionClock,
+  SessionPhase,
 } from '../data/types.js';
 import type {
   RawDriverList,
@@ -27,6 +31,11 @@ import type {
   RawPitLaneTimeCollection,
   RawTopThree,
   RawRaceControlMessage,
+  RawCarData,
+  RawPosition,
+  RawSessionStatus,
+  RawExtrapolatedClock,
+  RawHeartbeat,
 } from './types.js';
 import { FLAG_NAMES } from '../util/constants.js';
 import { getTeamColor } from '../util/team-colors.js';
@@ -83,6 +92,7 @@ export function parseTimingData(
     if (entry.InPit !== undefined) partial.inPit = entry.InPit;
     if (entry.Retired !== undefined) partial.retired = entry.Retired;
     if (entry.Stopped !== undefined) partial.stopped = entry.Stopped;
+    if (entry.NumberOfLaps !== undefined) partial.lapsCompleted = entry.NumberOfLaps;
 
     // Parse sectors
     if (entry.Sectors) {
@@ -146,6 +156,7 @@ export function parseSessionInfo(raw: RawSessionInfo): SessionInfo | null {
   const type: SessionType = SESSION_TYPE_MAP[rawType] ?? 'Practice';
 
   return {
+    ...(raw.Key !== undefined ? { key: String(raw.Key) } : {}),
     name,
     type,
     circuit: raw.Meeting?.Circuit?.ShortName ?? '',
@@ -155,6 +166,35 @@ export function parseSessionInfo(raw: RawSessionInfo): SessionInfo | null {
   };
 }
 
+const SESSION_PHASES: readonly SessionPhase[] = [
+  'Inactive',
+  'Started',
+  'Aborted',
+  'Finished',
+  'Finalised',
+  'Ends',
+];
+
+export function parseSessionStatus(raw: RawSessionStatus): SessionPhase | null {
+  const status = raw.Status as SessionPhase | undefined;
+  return status && SESSION_PHASES.includes(status) ? status : null;
+}
+
+/** ExtrapolatedClock sends diffs — only the fields present are returned */
+export function parseExtrapolatedClock(
+  raw: RawExtrapolatedClock,
+): Partial<Omit<SessionClock, 'remainingSeconds'>> {
+  const result: Partial<Omit<SessionClock, 'remainingSeconds'>> = {};
+  if (raw.Utc !== undefined) result.utc = raw.Utc;
+  if (raw.Remaining !== undefined) result.remaining = raw.Remaining;
+  if (raw.Extrapolating !== undefined) result.extrapolating = raw.Extrapolating;
+  return result;
+}
+
+export function parseHeartbeat(raw: RawHeartbeat): string | null {
+  return raw.Utc ?? null;
+}
+
 export function parseLapCount(raw: RawLapCount): LapCount | null {
   if (raw.CurrentLap === undefined && raw.TotalLaps === undefined) return null;
   return {
@@ -212,24 +252,93 @@ export function parseTopThree(raw: RawTopThree): TopThreeEntry[] {
 export function parseRaceControlMessages(
   raw: RawRaceControlMessage,
 ): RaceControlMessage | null {
-  if (!raw.Messages) return null;
+  const messages = parseRaceControlMessageList(raw);
+  return messages[messages.length - 1] ?? null;
+}
+
+/** All messages in a RaceControlMessages payload, oldest first */
+export function parseRaceControlMessageList(
+  raw: RawRaceControlMessage,
+): RaceControlMessage[] {
+  if (!raw.Messages) return [];
 
   const keys = Object.keys(raw.Messages)
     .map(Number)
     .sort((a, b) => a - b);
-  const latestKey = keys[keys.length - 1];
-  if (latestKey === undefined) return null;
 
-  const entry = raw.Messages[String(latestKey)];
-  if (!entry?.Message) return null;
+  const result: RaceControlMessage[] = [];
+  for (const key of keys) {
+    const entry = raw.Messages[String(key)];
+    if (!entry?.Message) continue;
+    result.push({
+      utc: entry.Utc ?? '',
+      message: entry.Message,
+      category: entry.Category ?? '',
+      flag: entry.Flag,
+      status: entry.Status,
+      scope: entry.Scope,
+      sector: entry.Sector,
+      racingNumber: entry.RacingNumber,
+    });
+  }
+  return result;
+}
 
-  return {
-    utc: entry.Utc ?? '',
-    message: entry.Message,
-    category: entry.Category ?? '',
-    flag: entry.Flag,
-    scope: entry.Scope,
-    sector: entry.Sector,
-    racingNumber: entry.RacingNumber,
-  };
+/**
+ * Driver a race control message refers to: RacingNumber when present,
+ * otherwise the "CAR 44 (HAM)" prefix race control uses in the text.
+ */
+export function raceControlDriver(msg: RaceControlMessage): string | undefined {
+  if (msg.racingNumber) return msg.racingNumber;
+  return /\bCARS? (\d+)\b/.exec(msg.message)?.[1];
+}
+
+/** DRS channel values at or above this mean the flap is open (10, 12, 14) */
+const DRS_OPEN_MIN = 10;
+
+export function parseCarData(raw: RawCarData): Record<string, CarTelemetry> {
+  const result: Record<string, CarTelemetry> = {};
+  if (!raw.Entries) return result;
+
+  // Entries are in chronological order — later samples overwrite earlier ones
+  for (const entry of raw.Entries) {
+    if (!entry.Cars) continue;
+    for (const [num, car] of Object.entries(entry.Cars)) {
+      const ch = car.Channels;
+      if (!ch) continue;
+      result[num] = {
+        driverNumber: num,
+        utc: entry.Utc ?? '',
+        rpm: ch['0'] ?? 0,
+        speed: ch['2'] ?? 0,
+        gear: ch['3'] ?? 0,
+        throttle: ch['4'] ?? 0,
+        brake: (ch['5'] ?? 0) > 0,
+        drs: (ch['45'] ?? 0) >= DRS_OPEN_MIN,
+      };
+    }
+  }
+  return result;
+}
+
+export function parsePosition(raw: RawPosition): Record<string, CarPosition> {
+  const result: Record<string, CarPosition> = {};
+  if (!raw.Position) return result;
+
+  // Samples are in chronological order — later samples overwrite earlier ones
+  for (const sample of raw.Position) {
+    if (!sample.Entries) continue;
+    for (const [num, entry] of Object.entries(sample.Entries)) {
+      if (entry.X === undefined || entry.Y === undefined) continue;
+      result[num] = {
+        driverNumber: num,
+        utc: sample.Timestamp ?? '',
+        x: entry.X,
+        y: entry.Y,
+        z: entry.Z ?? 0,
+        onTrack: entry.Status !== 'OffTrack',
+      };
+    }
+  }
+  return result;
 }
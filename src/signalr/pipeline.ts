@@ -5,7 +5,7 @@
 
 import { EventEmitter } from 'node:events';
 import { StateAccumulator } from '../data/state-accumulator.js';
-import { detectEvents } from '../events/detector.js';
+import { detectEvents, type DetectorOptions } from '../events/detector.js';
 import { createChildLogger } from '../util/logger.js';
 import type { SignalRMessage } from './client.js';
 import type { F1Event } from '../events/types.js';
@@ -22,7 +22,7 @@ export interface PipelineMessage {
 export class SignalRPipeline extends EventEmitter {
   private accumulator: StateAccumulator;
 
-  constructor() {
+  constructor(private detectorOptions: DetectorOptions = {}) {
     super();
     this.accumulator = new StateAccumulator();
   }
@@ -41,7 +41,7 @@ export class SignalRPipeline extends EventEmitter {
     this.accumulator.applyMessage(msg.topic, msg.data, msg.timestamp);
     const currState = this.accumulator.getState();
 
-    const events = detectEvents(prevState, currState);
+    const events = detectEvents(prevState, currState, this.detectorOptions);
 
     if (events.length > 0) {
       log.info({ eventCount: events.length, topic: msg.topic }, 'Events detected');
@@ -38,6 +38,7 @@ export interface RawTimingDataEntry {
   InPit?: boolean;
   Retired?: boolean;
   Stopped?: boolean;
+  NumberOfLaps?: number;
 }
 
 export interface RawTimingData {
@@ -69,6 +70,7 @@ export interface RawSessionInfo {
     Circuit?: { ShortName?: string };
     Country?: { Name?: string };
   };
+  Key?: number;
   Name?: string; // "Race", "Qualifying", etc.
   Type?: string;
   StartDate?: string;
@@ -135,6 +137,7 @@ export interface RawRaceControlMessage {
       Message?: string;
       Category?: string;
       Flag?: string;
+      Status?: string; // "ENABLED" / "DISABLED" for Category "Drs"
       Scope?: string; // "Track", "Sector", "Driver"
       Sector?: number; // sector number when Scope is "Sector"
       RacingNumber?: string; // driver number when relevant
@@ -149,7 +152,43 @@ export interface RawExtrapolatedClock {
   Extrapolating?: boolean;
 }
 
+/** SessionStatus topic */
+export interface RawSessionStatus {
+  Status?: string; // "Inactive", "Started", "Aborted", "Finished", "Finalised", "Ends"
+}
+
 /** Heartbeat topic */
 export interface RawHeartbeat {
   Utc?: string;
 }
+
+/** CarData.z topic (after decompression) — telemetry samples keyed by channel */
+export interface RawCarDataEntry {
+  Utc?: string;
+  Cars?: Record<
+    string,
+    {
+      // "0" RPM, "2" speed, "3" gear, "4" throttle, "5" brake, "45" DRS
+      Channels?: Record<string, number>;
+    }
+  >;
+}
+
+export interface RawCarData {
+  Entries?: RawCarDataEntry[];
+}
+
+/** Position.z topic (after decompression) — car coordinates keyed by driver number */
+export interface RawPositionEntry {
+  Status?: string; // "OnTrack" / "OffTrack"
+  X?: number;
+  Y?: number;
+  Z?: number;
+}
+
+export interface RawPosition {
+  Position?: Array<{
+    Timestamp?: string;
+    Entries?: Record<string, RawPositionEntry>;
+  }>;
+}
@@ -47,6 +47,7 @@ export const SIGNALR_TOPICS = [
   'RaceControlMessages',
   'SessionInfo',
   'SessionData',
+  'SessionStatus',
   'LapCount',
   'WeatherData',
   'TimingAppData',
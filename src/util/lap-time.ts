@@ -0,0 +1,25 @@
+/**
+ * Parse an F1 timing string ("1:32.803", "59.412") into milliseconds.
+ * Returns null for empty or unparseable values.
+ */
+export function parseLapTime(value: string): number | null {
+  if (!value) return null;
+  const parts = value.split(':');
+  let seconds = 0;
+  for (const part of parts) {
+    const n = Number(part);
+    if (!Number.isFinite(n)) return null;
+    seconds = seconds * 60 + n;
+  }
+  return Math.round(seconds * 1000);
+}
+
+/**
+ * Format seconds the way F1 timing does: "1:32.803" from a minute up, "59.412" below.
+ */
+export function formatLapTime(seconds: number): string {
+  const ms = Math.round(seconds * 1000);
+  const minutes = Math.floor(ms / 60_000);
+  const rest = ((ms % 60_000) / 1000).toFixed(3);
+  return minutes > 0 ? `${minutes}:${rest.padStart(6, '0')}` : rest;
+}
@@ -8,16 +8,48 @@ import fastifyWebsocket from '@fastify/websocket';
 import fastifyStatic from '@fastify/static';
 import type { FastifyInstance } from 'fastify';
 import type { WebSocket } from 'ws';
-import { PlaybackController } from '../playback/controller.js';
+import type { Readable } from 'node:stream';
+import {
+  PlaybackController,
+  type PlaybackMode,
+  type PlaybackState,
+} from '../playback/controller.js';
 import { Timeline } from '../playback/timeline.js';
-import { listRecordings, loadInitialState, loadTimeline } from '../recording/storage.js';
+import { parseEventFilter } from '../playback/timeline-index.js';
+import type { LiveBuffer } from '../playback/live-buffer.js';
+import type { DataSource } from '../playback/data-source.js';
+import { OpenF1Client } from '../openf1/client.js';
+import { OpenF1Source } from '../openf1/source.js';
+import {
+  deleteRecording,
+  listRecordings,
+  loadInitialState,
+  loadTimeline,
+  recordingDir,
+  updateRecordingMetadata,
+  type RecordingMetadataUpdate,
+} from '../recording/storage.js';
+import { RecordingExistsError, RecordingInProgressError } from '../recording/recorder.js';
+import { importOpenF1Session } from '../recording/openf1-import.js';
+import {
+  importRecordingTarball,
+  InvalidRecordingError,
+  packRecording,
+} from '../recording/tarball.js';
+import { checkRecording, repairRecording } from '../recording/integrity.js';
+import type { AutoRecorder } from '../recording/auto-recorder.js';
+import type { RecordingJanitor } from '../recording/janitor.js';
 import { ConfigStore } from '../config/store.js';
 import { createChildLogger } from '../util/logger.js';
-import { join, dirname } from 'node:path';
+import { join, dirname, basename } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { existsSync } from 'node:fs';
 import type { SignalRPipeline } from '../signalr/pipeline.js';
 import type { F1SignalRClient } from '../signalr/client.js';
+import type { DelayBuffer } from '../signalr/delay-buffer.js';
+import type { F1MqttClient } from '../mqtt/client.js';
+import type { MqttPublisher } from '../mqtt/publisher.js';
+import * as topics from '../mqtt/topics.js';
 
 const log = createChildLogger('web');
 
@@ -32,6 +64,20 @@ export interface AppOptions {
   pipeline?: SignalRPipeline;
   /** SignalR client for connection status */
   signalRClient?: F1SignalRClient;
+  /** Delay buffer in front of the live pipeline, adjustable via REST, WebSocket and MQTT */
+  delayBuffer?: DelayBuffer;
+  /** In-memory timeline of the live session, which playback can attach to and rewind */
+  liveBuffer?: LiveBuffer;
+  /** MQTT client to accept playback commands from, replying on playback/command/result */
+  mqtt?: { client: F1MqttClient; prefix: string };
+  /** MQTT publisher for playback state, and for replayed session data when replayToMqtt is set */
+  publisher?: MqttPublisher;
+  /** OpenF1 API client for browsing and loading historical sessions (default: api.openf1.org) */
+  openf1Client?: OpenF1Client;
+  /** Auto recorder, so the recording it is writing can't be deleted from under it */
+  autoRecorder?: AutoRecorder;
+  /** Retention janitor, whose last disk usage figures the health check reports */
+  janitor?: RecordingJanitor;
 }
 
 export interface App {
@@ -43,8 +89,15 @@ export async function createApp(opts: AppOptions): Promise<App> {
   const fastify = Fastify({ logger: false });
   await fastify.register(fastifyWebsocket);
 
+  // Recording uploads are streamed to disk as they arrive rather than buffered
+  fastify.addContentTypeParser(
+    ['application/gzip', 'application/x-gzip', 'application/octet-stream'],
+    (_request, payload, done) => done(null, payload),
+  );
+
   const controller = new PlaybackController();
   const clients = new Set<WebSocket>();
+  const openf1Client = opts.openf1Client ?? new OpenF1Client();
 
   // Use provided ConfigStore or create one from dbPath
   const ownedConfigStore =
@@ -61,6 +114,10 @@ export async function createApp(opts: AppOptions): Promise<App> {
       // Send current playback state on connect
       send(socket, { type: 'playback_state', ...controller.getPlaybackState() });
 
+      if (opts.delayBuffer) {
+        send(socket, { type: 'live_delay', ...liveDelayStatus(opts.delayBuffer) });
+      }
+
       // Send current live state if pipeline has received data
       if (opts.pipeline) {
         const liveState = opts.pipeline.getState();
@@ -75,7 +132,9 @@ export async function createApp(opts: AppOptions): Promise<App> {
             command: string;
             value?: string | number;
           };
-          handlePlaybackCommand(msg.command, msg.value);
+          handlePlaybackCommand(msg.command, msg.value).catch((err) => {
+            log.error({ err, command: msg.command }, 'WebSocket playback command failed');
+          });
         } catch (err) {
           log.warn({ err }, 'Invalid WebSocket message');
         }
@@ -122,6 +181,51 @@ export async function createApp(opts: AppOptions): Promise<App> {
     broadcast({ type: 'playback_finished' });
   });
 
+  // Wire controller → MQTT. Replays drive the session topics only when replayToMqtt
+  // is set at load time, and never while a live session is being published.
+  if (opts.publisher) {
+    const publisher = opts.publisher;
+
+    controller.on('loaded', (playbackState: PlaybackState) => {
+      publisher.endReplay();
+      // Time-shifted live data has already been published as it arrived
+      const replay =
+        playbackState.mode !== 'live' && configStore?.get('replayToMqtt') === true;
+      if (replay && publisher.beginReplay()) {
+        publisher.publishState(controller.getSessionState(), 'replay');
+      }
+      publisher.publishPlaybackState(playbackState);
+    });
+
+    controller.on('stateChange', (playbackState) => {
+      publisher.publishPlaybackState(playbackState);
+    });
+
+    controller.on('update', (data) => {
+      publisher.publishState(data.state, 'replay');
+      publisher.publishEvents(data.events, 'replay');
+    });
+
+    controller.on('seek', (data) => {
+      publisher.publishState(data.state, 'replay');
+      publisher.publishPlaybackState(data.playbackState);
+    });
+  }
+
+  // Wire live buffer → attached playback: index new entries, follow session changes
+  if (opts.liveBuffer) {
+    const liveBuffer = opts.liveBuffer;
+    liveBuffer.on('entry', () => {
+      if (isLiveAttached()) controller.handleAppended();
+    });
+    liveBuffer.on('session', () => {
+      if (isLiveAttached()) attachLive();
+    });
+    liveBuffer.on('trim', () => {
+      if (isLiveAttached()) controller.handleTrimmed(liveBuffer.getInitialState()!);
+    });
+  }
+
   // Wire live pipeline events → WebSocket broadcast
   if (opts.pipeline) {
     opts.pipeline.on('update', (data) => {
@@ -132,10 +236,56 @@ export async function createApp(opts: AppOptions): Promise<App> {
     });
   }
 
+  // Wire live delay changes → persisted config, WebSocket and MQTT status
+  if (opts.delayBuffer) {
+    const delayBuffer = opts.delayBuffer;
+    opts.publisher?.publishLiveDelay(delayBuffer.getDelay());
+
+    delayBuffer.on('delayChange', (delayMs: number) => {
+      configStore?.set('liveDelaySeconds', delayMs / 1000);
+      opts.publisher?.publishLiveDelay(delayMs);
+      broadcast({ type: 'live_delay', ...liveDelayStatus(delayBuffer) });
+    });
+  }
+
+  // Wire MQTT playback commands → same handler as WebSocket/REST
+  if (opts.mqtt) {
+    const { client, prefix } = opts.mqtt;
+    client.onPlaybackCommand = async (payload) => {
+      const msg = parseCommandPayload(payload);
+      const result = msg
+        ? await handlePlaybackCommand(msg.command, msg.value).catch((err: Error) => ({
+            ok: false,
+            error: err.message,
+          }))
+        : { ok: false, error: 'Invalid playback command' };
+      const reply: Record<string, unknown> = { command: msg?.command ?? null, ...result };
+      // The full session state in seek replies is too large for an MQTT result
+      delete reply['state'];
+      client.publish(topics.playbackCommandResult(prefix), reply);
+    };
+
+    // The resulting delay is reported on live/delay; failures are only logged
+    client.onLiveDelayCommand = (payload) => {
+      const msg = parseCommandPayload(payload);
+      const result = msg
+        ? handleLiveDelayCommand(msg.command, msg.value)
+        : { ok: false, error: 'Invalid live delay command' };
+      if (!result.ok) {
+        log.warn({ payload, error: result.error }, 'Live delay command failed');
+      }
+    };
+  }
+
   // --- REST API ---
 
   fastify.get('/api/health', async () => {
-    return { status: 'ok', timestamp: new Date().toISOString() };
+    return {
+      status: 'ok',
+      timestamp: new Date().toISOString(),
+      // Walking the recordings on every probe is slow, and fails while one is deleted
+      recordings: opts.janitor?.getUsage() ?? null,
+    };
   });
 
   fastify.get('/api/live/status', async () => {
@@ -145,10 +295,167 @@ export async function createApp(opts: AppOptions): Promise<App> {
     };
   });
 
+  fastify.get('/api/live/delay', async (_request, reply) => {
+    if (!opts.delayBuffer) {
+      return reply.code(501).send({ error: 'Live delay not available' });
+    }
+    return liveDelayStatus(opts.delayBuffer);
+  });
+
+  fastify.post<{
+    Body: { command: string; value?: string | number };
+  }>('/api/live/delay', async (request) => {
+    const { command, value } = request.body;
+    return handleLiveDelayCommand(command, value);
+  });
+
+  fastify.get<{
+    Params: { num: string };
+  }>('/api/live/drivers/:num/laps', async (request, reply) => {
+    if (!opts.pipeline) return reply.code(501).send({ error: 'Live feed not available' });
+    return opts.pipeline.getState().lapHistory[request.params.num] ?? [];
+  });
+
   fastify.get('/api/sessions', async () => {
     return listRecordings(opts.recordingsDir);
   });
 
+  fastify.post<{
+    Body: { sessionKey?: number; overwrite?: boolean };
+  }>('/api/recordings/import/openf1', async (request, reply) => {
+    const { sessionKey, overwrite } = request.body ?? {};
+    if (!Number.isInteger(sessionKey)) {
+      return reply.code(400).send({ error: 'sessionKey is required' });
+    }
+    try {
+      const imported = await importOpenF1Session(sessionKey!, {
+        recordingsDir: opts.recordingsDir,
+        client: openf1Client,
+        overwrite: overwrite === true,
+        compress: (configStore?.get('compressRecordings') as boolean | null) ?? false,
+        activeDirectory: activeRecording,
+      });
+      return { ok: true, ...imported };
+    } catch (err) {
+      if (
+        err instanceof RecordingExistsError ||
+        err instanceof RecordingInProgressError
+      ) {
+        return reply.code(409).send({ error: err.message });
+      }
+      log.error({ err, sessionKey }, 'Failed to import OpenF1 session');
+      return reply.code(502).send({ error: (err as Error).message });
+    }
+  });
+
+  fastify.post<{
+    Body: Readable;
+    Querystring: { overwrite?: string };
+  }>('/api/recordings', async (request, reply) => {
+    if (typeof request.body?.pipe !== 'function') {
+      return reply.code(415).send({ error: 'Upload a .tar.gz as application/gzip' });
+    }
+    try {
+      const uploaded = await importRecordingTarball(request.body, opts.recordingsDir, {
+        overwrite: request.query.overwrite === 'true',
+        activeDirectory: activeRecording,
+      });
+      return { ok: true, ...uploaded };
+    } catch (err) {
+      if (
+        err instanceof RecordingExistsError ||
+        err instanceof RecordingInProgressError
+      ) {
+        return reply.code(409).send({ error: err.message });
+      }
+      if (err instanceof InvalidRecordingError) {
+        return reply.code(400).send({ error: err.message });
+      }
+      throw err;
+    }
+  });
+
+  fastify.patch<{
+    Params: { id: string };
+    Body: RecordingMetadataUpdate;
+  }>('/api/recordings/:id', async (request, reply) => {
+    const dir = recordingDir(opts.recordingsDir, request.params.id);
+    if (!dir) return reply.code(404).send({ error: 'Recording not found' });
+
+    const { sessionName, tags, notes, pinned } = request.body ?? {};
+    if (
+      sessionName !== undefined &&
+      (typeof sessionName !== 'string' || !sessionName.trim())
+    ) {
+      return reply.code(400).send({ error: 'sessionName must be a non-empty string' });
+    }
+    if (
+      tags !== undefined &&
+      (!Array.isArray(tags) || !tags.every((t) => typeof t === 'string'))
+    ) {
+      return reply.code(400).send({ error: 'tags must be an array of strings' });
+    }
+    if (notes !== undefined && typeof notes !== 'string') {
+      return reply.code(400).send({ error: 'notes must be a string' });
+    }
+    if (pinned !== undefined && typeof pinned !== 'boolean') {
+      return reply.code(400).send({ error: 'pinned must be a boolean' });
+    }
+
+    const update: RecordingMetadataUpdate = {};
+    if (sessionName !== undefined) update.sessionName = sessionName.trim();
+    if (tags !== undefined) {
+      update.tags = [...new Set(tags.map((t) => t.trim()).filter(Boolean))];
+    }
+    if (notes !== undefined) update.notes = notes;
+    if (pinned !== undefined) update.pinned = pinned;
+    const metadata = updateRecordingMetadata(dir, update);
+    return { ok: true, id: request.params.id, dir, metadata };
+  });
+
+  fastify.delete<{
+    Params: { id: string };
+  }>('/api/recordings/:id', async (request, reply) => {
+    const dir = recordingDir(opts.recordingsDir, request.params.id);
+    if (!dir) return reply.code(404).send({ error: 'Recording not found' });
+    if (activeRecording() === dir) {
+      return reply.code(409).send({ error: 'Recording is in progress' });
+    }
+    deleteRecording(dir);
+    return { ok: true };
+  });
+
+  fastify.get<{
+    Params: { id: string };
+  }>('/api/recordings/:id/archive', async (request, reply) => {
+    const { id } = request.params;
+    const dir = recordingDir(opts.recordingsDir, id);
+    if (!dir) return reply.code(404).send({ error: 'Recording not found' });
+    return reply
+      .type('application/gzip')
+      .header('content-disposition', `attachment; filename="${id}.tar.gz"`)
+      .send(packRecording(dir, id));
+  });
+
+  fastify.get<{
+    Params: { id: string };
+  }>('/api/recordings/:id/check', async (request, reply) => {
+    const dir = recordingDir(opts.recordingsDir, request.params.id);
+    if (!dir) return reply.code(404).send({ error: 'Recording not found' });
+    return checkRecording(dir);
+  });
+
+  fastify.post<{
+    Params: { id: string };
+  }>('/api/recordings/:id/repair', async (request, reply) => {
+    const dir = recordingDir(opts.recordingsDir, request.params.id);
+    if (!dir) return reply.code(404).send({ error: 'Recording not found' });
+    if (activeRecording() === dir) {
+      return reply.code(409).send({ error: 'Recording is in progress' });
+    }
+    return { ok: true, ...(await repairRecording(dir)) };
+  });
+
   fastify.get('/api/playback/state', async () => {
     return {
       playbackState: controller.getPlaybackState(),
@@ -156,15 +463,55 @@ export async function createApp(opts: AppOptions): Promise<App> {
     };
   });
 
+  fastify.get('/api/playback/index', async () => {
+    return { laps: controller.getLaps(), events: controller.getEventMarkers() };
+  });
+
+  fastify.get<{
+    Params: { num: string };
+  }>('/api/playback/drivers/:num/laps', async (request) => {
+    return controller.getSessionState().lapHistory[request.params.num] ?? [];
+  });
+
   fastify.post<{
-    Body: { sessionDir: string };
-  }>('/api/playback/load', async (request) => {
-    const { sessionDir } = request.body;
-    const initialState = loadInitialState(sessionDir);
-    const entries = loadTimeline(sessionDir);
-    const timeline = new Timeline(entries);
-    controller.load(timeline, initialState, 'recorded');
-    return { ok: true, entries: entries.length };
+    Body: { sessionDir?: string; source?: 'recording' | 'openf1'; sessionKey?: number };
+  }>('/api/playback/load', async (request, reply) => {
+    const { sessionDir, source, sessionKey } = request.body;
+
+    if (source === 'openf1') {
+      if (!Number.isInteger(sessionKey)) {
+        return reply.code(400).send({ error: 'sessionKey is required' });
+      }
+      const openf1Source = new OpenF1Source(sessionKey!, openf1Client);
+      try {
+        const entries = await loadSource(openf1Source, 'openf1');
+        return { ok: true, entries };
+      } catch (err) {
+        log.error({ err, sessionKey }, 'Failed to load OpenF1 session');
+        return reply.code(502).send({ error: (err as Error).message });
+      }
+    }
+
+    if (!sessionDir) return reply.code(400).send({ error: 'sessionDir is required' });
+    const entries = await loadRecording(sessionDir);
+    return { ok: true, entries };
+  });
+
+  // --- OpenF1 API ---
+
+  fastify.get<{
+    Querystring: { year?: string };
+  }>('/api/openf1/sessions', async (request, reply) => {
+    const { year } = request.query;
+    if (year !== undefined && !/^\d{4}$/.test(year)) {
+      return reply.code(400).send({ error: `Invalid year: ${year}` });
+    }
+    try {
+      return await openf1Client.getSessions({ year: year ? Number(year) : undefined });
+    } catch (err) {
+      log.error({ err, year }, 'Failed to list OpenF1 sessions');
+      return reply.code(502).send({ error: (err as Error).message });
+    }
   });
 
   fastify.post<{
@@ -218,10 +565,54 @@ export async function createApp(opts: AppOptions): Promise<App> {
 
   // --- Helpers ---
 
-  function handlePlaybackCommand(
+  /** Load a recording into the controller; returns the number of timeline entries */
+  async function loadRecording(sessionDir: string): Promise<number> {
+    const initialState = loadInitialState(sessionDir);
+    const timeline = Timeline.adopt(await loadTimeline(sessionDir));
+    controller.load(timeline, initialState, 'recorded');
+    return timeline.length;
+  }
+
+  /** Load any data source into the controller; returns the number of timeline entries */
+  async function loadSource(source: DataSource, mode: PlaybackMode): Promise<number> {
+    try {
+      const initialState = await source.getInitialState();
+      const timeline = Timeline.adopt(await source.getEntries());
+      controller.load(timeline, initialState, mode);
+      return timeline.length;
+    } finally {
+      await source.close();
+    }
+  }
+
+  /** Find a recording by its directory (full path or name) or session key */
+  function findRecording(ref: string): string | null {
+    const match = listRecordings(opts.recordingsDir).find(
+      (r) => r.dir === ref || basename(r.dir) === ref || r.metadata.sessionKey === ref,
+    );
+    return match?.dir ?? null;
+  }
+
+  /** Directory of the recording being written, which is never deleted or replaced */
+  function activeRecording(): string | null {
+    return opts.autoRecorder?.getDirectory() ?? null;
+  }
+
+  function isLiveAttached(): boolean {
+    return controller.getPlaybackState().mode === 'live';
+  }
+
+  /** Load the buffered live session into the controller and play from the live edge */
+  function attachLive(): void {
+    const liveBuffer = opts.liveBuffer!;
+    controller.load(liveBuffer.getTimeline()!, liveBuffer.getInitialState(), 'live');
+    controller.goLive();
+  }
+
+  async function handlePlaybackCommand(
     command: string,
     value?: string | number,
-  ): object {
+  ): Promise<object> {
     switch (command) {
       case 'play':
         controller.play();
@@ -242,11 +633,78 @@ export async function createApp(opts: AppOptions): Promise<App> {
           state: controller.getSessionState(),
           playbackState: controller.getPlaybackState(),
         };
+      case 'seek_lap': {
+        const lap = Number(value);
+        if (!controller.seekLap(lap)) {
+          return { ok: false, error: `Lap not found: ${value}` };
+        }
+        return {
+          ok: true,
+          lap,
+          state: controller.getSessionState(),
+          playbackState: controller.getPlaybackState(),
+        };
+      }
+      case 'next_event':
+      case 'prev_event': {
+        // Optional filter: event type and/or driver number, e.g. "overtake 44"
+        const filter = parseEventFilter(value);
+        if (!filter) return { ok: false, error: `Invalid event filter: ${value}` };
+        const direction = command === 'next_event' ? 'next' : 'prev';
+        const event = controller.seekEvent(direction, filter);
+        if (!event) return { ok: false, error: 'No matching event' };
+        return {
+          ok: true,
+          event,
+          state: controller.getSessionState(),
+          playbackState: controller.getPlaybackState(),
+        };
+      }
+      case 'live': {
+        // Attach to the live session, or catch up to live if already attached
+        if (!opts.liveBuffer?.getTimeline()) {
+          return { ok: false, error: 'No live session' };
+        }
+        if (isLiveAttached()) controller.goLive();
+        else attachLive();
+        return { ok: true, playbackState: controller.getPlaybackState() };
+      }
+      case 'load': {
+        // Only recordings under recordingsDir can be loaded this way
+        const sessionDir = findRecording(String(value ?? ''));
+        if (!sessionDir) return { ok: false, error: `Unknown session: ${value}` };
+        const entries = await loadRecording(sessionDir);
+        return { ok: true, sessionDir, entries };
+      }
       default:
         return { ok: false, error: `Unknown command: ${command}` };
     }
   }
 
+  /** `set` the live delay to, or `nudge` it by, a number of seconds */
+  function handleLiveDelayCommand(
+    command: string,
+    value?: string | number,
+  ): { ok: true; delaySeconds: number; buffered: number } | { ok: false; error: string } {
+    const delayBuffer = opts.delayBuffer;
+    if (!delayBuffer) return { ok: false, error: 'Live delay not available' };
+    const seconds = Number(value);
+    if (value === undefined || value === '' || !Number.isFinite(seconds)) {
+      return { ok: false, error: `Invalid delay: ${value}` };
+    }
+    switch (command) {
+      case 'set':
+        delayBuffer.setDelay(seconds * 1000);
+        break;
+      case 'nudge':
+        delayBuffer.nudge(seconds * 1000);
+        break;
+      default:
+        return { ok: false, error: `Unknown command: ${command}` };
+    }
+    return { ok: true, ...liveDelayStatus(delayBuffer) };
+  }
+
   function broadcast(msg: object): void {
     const data = JSON.stringify(msg);
     for (const client of clients) {
@@ -277,3 +735,29 @@ export async function createApp(opts: AppOptions): Promise<App> {
     },
   };
 }
+
+function liveDelayStatus(delayBuffer: DelayBuffer) {
+  return { delaySeconds: delayBuffer.getDelay() / 1000, buffered: delayBuffer.size() };
+}
+
+/**
+ * MQTT command payloads are either a bare command ("play") or JSON
+ * ({"command": "speed", "value": 4}).
+ */
+function parseCommandPayload(
+  payload: string,
+): { command: string; value?: string | number } | null {
+  const text = payload.trim();
+  if (!text.startsWith('{')) return text ? { command: text } : null;
+  try {
+    const msg = JSON.parse(text) as { command?: unknown; value?: unknown };
+    if (typeof msg.command !== 'string') return null;
+    const value =
+      typeof msg.value === 'string' || typeof msg.value === 'number'
+        ? msg.value
+        : undefined;
+    return { command: msg.command, value };
+  } catch {
+    return null;
+  }
+}
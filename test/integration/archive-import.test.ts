@@ -0,0 +1,219 @@
+/**
+ * Integration test: F1 static archive folder → recording → replay.
+ *
+ * Writes a small session folder in the archive's format (BOMs, offset-prefixed
+ * stream lines, a compressed .z stream), imports it from disk and over HTTP,
+ * and replays the result through RecordedDataSource and the pipeline.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import Fastify from 'fastify';
+import type { FastifyInstance } from 'fastify';
+import { deflateSync } from 'node:zlib';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+  directoryArchive,
+  httpArchive,
+  importArchiveSession,
+  parseJsonStream,
+} from '../../src/recording/archive-import.js';
+import { RecordingExistsError } from '../../src/recording/recorder.js';
+import { RecordedDataSource } from '../../src/playback/recorded-source.js';
+import { SignalRPipeline } from '../../src/signalr/pipeline.js';
+
+const BOM = '\uFEFF';
+
+const POSITION = {
+  Position: [
+    {
+      Timestamp: '2023-09-17T12:00:05.000Z',
+      Entries: { '55': { Status: 'OnTrack', X: 100, Y: 200, Z: 5 } },
+    },
+  ],
+};
+
+/** Session folder contents, keyed by file name */
+const ARCHIVE: Record<string, string> = {
+  'Index.json': JSON.stringify({
+    Feeds: {
+      SessionInfo: {
+        KeyFramePath: 'SessionInfo.json',
+        StreamPath: 'SessionInfo.jsonStream',
+      },
+      DriverList: {
+        KeyFramePath: 'DriverList.json',
+        StreamPath: 'DriverList.jsonStream',
+      },
+      Heartbeat: { KeyFramePath: 'Heartbeat.json', StreamPath: 'Heartbeat.jsonStream' },
+      TrackStatus: {
+        KeyFramePath: 'TrackStatus.json',
+        StreamPath: 'TrackStatus.jsonStream',
+      },
+      'Position.z': {
+        KeyFramePath: 'Position.z.json',
+        StreamPath: 'Position.z.jsonStream',
+      },
+    },
+  }),
+  'SessionInfo.json': JSON.stringify({
+    Meeting: {
+      Name: 'Singapore Grand Prix',
+      Circuit: { ShortName: 'Singapore' },
+      Country: { Name: 'Singapore' },
+    },
+    Key: 9158,
+    Name: 'Race',
+    Type: 'Race',
+    StartDate: '2023-09-17T20:00:00',
+  }),
+  'DriverList.json': JSON.stringify({
+    '55': { RacingNumber: '55', Tla: 'SAI', TeamName: 'Ferrari', TeamColour: 'E8002D' },
+  }),
+  'SessionInfo.jsonStream': '00:00:00.100{"Key":9158}\r\n',
+  'DriverList.jsonStream': '',
+  // Feed started at 12:00:00 UTC: this heartbeat came 10 s in
+  'Heartbeat.jsonStream': '00:00:10.000{"Utc":"2023-09-17T12:00:10.0000000Z"}\r\n',
+  'TrackStatus.jsonStream': [
+    '00:00:02.000{"Status":"1","Message":"AllClear"}',
+    'not a stream line',
+    '01:00:00.000{"Status":"5","Message":"Red"}',
+  ].join('\r\n'),
+  'Position.z.jsonStream': `00:00:05.000"${deflateSync(JSON.stringify(POSITION)).toString('base64')}"\r\n`,
+};
+
+function writeArchive(dir: string, files: Record<string, string>) {
+  for (const [name, content] of Object.entries(files)) {
+    writeFileSync(join(dir, name), BOM + content);
+  }
+}
+
+describe('parseJsonStream', () => {
+  it('turns offsets into milliseconds and skips junk', () => {
+    const lines = parseJsonStream(
+      `${BOM}00:00:01.500{"a":1}\r\nnope\r\n1:02:03.004"x"\r\n`,
+    );
+    expect(lines).toEqual([
+      { offsetMs: 1500, data: { a: 1 } },
+      { offsetMs: 3_723_004, data: 'x' },
+    ]);
+  });
+});
+
+describe('Archive import', () => {
+  let archiveDir: string;
+  let recordingsDir: string;
+  let httpServer: FastifyInstance;
+  let httpUrl: string;
+
+  beforeAll(async () => {
+    // Local HTTP stand-in for livetiming.formula1.com/static, serving the same folder
+    httpServer = Fastify({ logger: false });
+    httpServer.get<{ Params: { file: string } }>(
+      '/static/2023/singapore/race/:file',
+      async (request, reply) => {
+        const content = ARCHIVE[request.params.file];
+        if (content === undefined) return reply.code(403).send('AccessDenied');
+        return reply.type('application/octet-stream').send(BOM + content);
+      },
+    );
+    await httpServer.listen({ port: 0, host: '127.0.0.1' });
+    const addr = httpServer.server.address();
+    const port = typeof addr === 'object' && addr ? addr.port : 0;
+    httpUrl = `http://127.0.0.1:${port}/static/2023/singapore/race`;
+  });
+
+  afterAll(async () => {
+    await httpServer?.close();
+  });
+
+  beforeEach(() => {
+    archiveDir = mkdtempSync(join(tmpdir(), 'f12mqtt-archive-test-'));
+    recordingsDir = mkdtempSync(join(tmpdir(), 'f12mqtt-archive-rec-test-'));
+    writeArchive(archiveDir, ARCHIVE);
+  });
+
+  afterEach(() => {
+    rmSync(archiveDir, { recursive: true, force: true });
+    rmSync(recordingsDir, { recursive: true, force: true });
+  });
+
+  it('merges streams into one timeline with absolute timestamps', async () => {
+    const imported = await importArchiveSession(directoryArchive(archiveDir), {
+      recordingsDir,
+    });
+
+    expect(imported.dir).toBe(join(recordingsDir, '2023-9158'));
+    expect(imported.metadata).toMatchObject({
+      sessionKey: '9158',
+      sessionName: 'Singapore Grand Prix - Race',
+      endTime: '2023-09-17T13:00:00.000Z',
+      importedFrom: 'archive',
+    });
+
+    const lines = readFileSync(join(imported.dir, 'live.jsonl'), 'utf-8')
+      .trim()
+      .split('\n')
+      .map((l) => JSON.parse(l) as { ts: string; topic: string; data: unknown });
+    expect(lines.map((l) => [l.ts, l.topic])).toEqual([
+      ['2023-09-17T12:00:00.100Z', 'SessionInfo'],
+      ['2023-09-17T12:00:02.000Z', 'TrackStatus'],
+      ['2023-09-17T12:00:05.000Z', 'Position'],
+      ['2023-09-17T12:00:10.000Z', 'Heartbeat'],
+      ['2023-09-17T13:00:00.000Z', 'TrackStatus'],
+    ]);
+    // .z streams are stored decompressed, as the live recorder does
+    expect(lines[2]!.data).toEqual(POSITION);
+  });
+
+  it('replays through RecordedDataSource like a live recording', async () => {
+    const { dir } = await importArchiveSession(directoryArchive(archiveDir), {
+      recordingsDir,
+    });
+
+    const source = new RecordedDataSource(dir);
+    const initial = await source.getInitialState();
+    expect(initial?.drivers['55']?.abbreviation).toBe('SAI');
+    expect(initial?.sessionInfo).toMatchObject({ key: '9158', circuit: 'Singapore' });
+
+    const pipeline = new SignalRPipeline();
+    pipeline.loadInitialState(initial!);
+    const events: string[] = [];
+    for (const entry of await source.getEntries()) {
+      events.push(...pipeline.processMessage(entry).events.map((e) => e.type));
+    }
+    expect(events).toContain('flag_change');
+    expect(pipeline.getState().trackStatus.flag).toBe('red');
+  });
+
+  it('reads the same session from an HTTP stand-in', async () => {
+    const imported = await importArchiveSession(httpArchive(httpUrl), { recordingsDir });
+    expect(imported.entries).toBe(5);
+    expect(imported.metadata.sessionKey).toBe('9158');
+  });
+
+  it('lists streams from the folder when there is no Index.json', async () => {
+    rmSync(join(archiveDir, 'Index.json'));
+    const imported = await importArchiveSession(directoryArchive(archiveDir), {
+      recordingsDir,
+    });
+    expect(imported.entries).toBe(5);
+  });
+
+  it('refuses to replace an existing recording unless asked to', async () => {
+    const reader = directoryArchive(archiveDir);
+    await importArchiveSession(reader, { recordingsDir });
+    await expect(importArchiveSession(reader, { recordingsDir })).rejects.toThrow(
+      RecordingExistsError,
+    );
+    await importArchiveSession(reader, { recordingsDir, overwrite: true });
+  });
+
+  it('fails without a way to date the feed', async () => {
+    rmSync(join(archiveDir, 'Heartbeat.jsonStream'));
+    await expect(
+      importArchiveSession(directoryArchive(archiveDir), { recordingsDir }),
+    ).rejects.toThrow('Cannot date the archive');
+  });
+});
@@ -7,11 +7,34 @@
  * 4. New session starts → fresh ephemeral entities registered
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EventEmitter } from 'node:events';
 import { MqttPublisher } from '../../src/mqtt/publisher.js';
 import { SignalRPipeline } from '../../src/signalr/pipeline.js';
+import { F1SignalRClient } from '../../src/signalr/client.js';
 import type { F1MqttClient } from '../../src/mqtt/client.js';
 
+// Stand-in for the SignalR connection: the test decides what Subscribe returns
+const signalr = vi.hoisted(() => ({ snapshot: {} as unknown, client: null as unknown }));
+
+vi.mock('node-signalr', () => ({
+  Client: class extends EventEmitter {
+    headers: Record<string, string> = {};
+    connection = {
+      hub: {
+        on: () => {},
+        call: () => Promise.resolve(signalr.snapshot),
+      },
+    };
+    constructor() {
+      super();
+      signalr.client = this;
+    }
+    start() {}
+    end() {}
+  },
+}));
+
 interface MqttCall {
   topic: string;
   payload: string | object;
@@ -70,7 +93,10 @@ describe('HA Discovery Lifecycle', () => {
     expect(persistentTopics).toContain(
       'homeassistant/sensor/f12mqtt/next_race/config',
     );
-    expect(persistentTopics).toHaveLength(4);
+    expect(persistentTopics).toContain(
+      'homeassistant/sensor/f12mqtt/recordings_disk_usage/config',
+    );
+    expect(persistentTopics).toHaveLength(5);
 
     // Verify all persistent entities are retained
     const persistentCalls = mqtt.calls.filter((c) =>
@@ -89,8 +115,8 @@ describe('HA Discovery Lifecycle', () => {
       .filter((c) => c.topic.startsWith('homeassistant/'))
       .map((c) => c.topic);
 
-    // Should have ephemeral entities: 9 base + 3 per driver × 1 favorite = 12
-    expect(ephemeralTopics).toHaveLength(12);
+    // Should have ephemeral entities: 12 base + 4 per driver × 1 favorite = 16
+    expect(ephemeralTopics).toHaveLength(16);
     expect(ephemeralTopics).toContain(
       'homeassistant/sensor/f12mqtt/session_status/config',
     );
@@ -168,14 +194,14 @@ describe('HA Discovery Lifecycle', () => {
     // === Step 4: Session 1 ends ===
     publisher.deregisterSessionEntities();
 
-    // All 12 ephemeral discovery topics should be cleared (empty payload)
+    // All 16 ephemeral discovery topics should be cleared (empty payload)
     const clearCalls = mqtt.calls.filter(
       (c) =>
         c.topic.startsWith('homeassistant/') &&
         c.payload === '' &&
         c.retain === true,
     );
-    expect(clearCalls).toHaveLength(12);
+    expect(clearCalls).toHaveLength(16);
 
     // Session status should be "finished"
     const finishedCalls = mqtt.calls.filter(
@@ -201,7 +227,7 @@ describe('HA Discovery Lifecycle', () => {
     const session2Ephemeral = mqtt.calls
       .filter((c) => c.topic.startsWith('homeassistant/'))
       .map((c) => c.topic);
-    expect(session2Ephemeral).toHaveLength(12); // same count as session 1
+    expect(session2Ephemeral).toHaveLength(16); // same count as session 1
 
     // State updates should work again
     const msg = pipeline.processMessage({
@@ -218,4 +244,111 @@ describe('HA Discovery Lifecycle', () => {
     expect(session2LapCalls).toHaveLength(1);
     expect(session2LapCalls[0]!.payload).toEqual({ current: 1, total: 44 });
   });
+
+  describe('driven by session status', () => {
+    const GRACE_MS = 60_000;
+
+    function discoveryConfigs() {
+      return mqtt.calls.filter(
+        (c) => c.topic.startsWith('homeassistant/') && c.payload !== '',
+      );
+    }
+
+    function discoveryClears() {
+      return mqtt.calls.filter(
+        (c) => c.topic.startsWith('homeassistant/') && c.payload === '',
+      );
+    }
+
+    function sessionStatus(status: string) {
+      const msg = pipeline.processMessage({
+        topic: 'SessionStatus',
+        data: { Status: status },
+        timestamp: '2025-07-06T14:00:00Z',
+      });
+      publisher.updateSessionLifecycle(msg.state.sessionPhase);
+    }
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      publisher = new MqttPublisher(mqtt.client, {
+        prefix: 'f12mqtt',
+        favoriteDrivers: ['1'],
+        awtrixEnabled: false,
+        awtrixPrefix: '',
+        sessionEndGraceMs: GRACE_MS,
+      });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('does not register entities before a session starts', () => {
+      publisher.updateSessionLifecycle(null);
+      sessionStatus('Inactive');
+      expect(discoveryConfigs()).toHaveLength(0);
+    });
+
+    it('registers once when the session starts and survives a red flag', () => {
+      sessionStatus('Started');
+      sessionStatus('Aborted');
+      sessionStatus('Started');
+      expect(discoveryConfigs()).toHaveLength(16);
+      expect(discoveryClears()).toHaveLength(0);
+    });
+
+    it('tears down only after the grace period', () => {
+      sessionStatus('Started');
+      sessionStatus('Finished');
+      sessionStatus('Finalised');
+
+      vi.advanceTimersByTime(GRACE_MS - 1);
+      expect(discoveryClears()).toHaveLength(0);
+
+      vi.advanceTimersByTime(1);
+      expect(discoveryClears()).toHaveLength(16);
+    });
+
+    it('keeps entities when the next part starts within the grace period', () => {
+      // e.g. the break between Q1 and Q2
+      sessionStatus('Started');
+      sessionStatus('Finished');
+      vi.advanceTimersByTime(GRACE_MS / 2);
+      sessionStatus('Started');
+      vi.advanceTimersByTime(GRACE_MS);
+
+      expect(discoveryClears()).toHaveLength(0);
+      expect(discoveryConfigs()).toHaveLength(16);
+    });
+  });
+
+  it('registers entities when started in the middle of a session', async () => {
+    // The feed only sends SessionStatus when it changes, so after a mid-session
+    // start the Subscribe snapshot is the only place the phase comes from
+    signalr.snapshot = {
+      SessionInfo: { Meeting: { Name: 'British Grand Prix' }, Key: 9947 },
+      SessionStatus: { Status: 'Started' },
+      LapCount: { CurrentLap: 20, TotalLaps: 52 },
+    };
+    const client = new F1SignalRClient();
+    client.on('message', (msg) => pipeline.processMessage(msg));
+    pipeline.on('update', ({ state }) => {
+      publisher.updateSessionLifecycle(state.sessionPhase);
+      publisher.publishState(state);
+    });
+
+    client.start();
+    (signalr.client as EventEmitter).emit('connected');
+    await vi.waitFor(() => {
+      expect(
+        mqtt.calls.filter(
+          (c) => c.topic.startsWith('homeassistant/') && c.payload !== '',
+        ),
+      ).toHaveLength(16);
+    });
+
+    const lap = mqtt.calls.filter((c) => c.topic === 'f12mqtt/session/lap');
+    expect(lap.at(-1)?.payload).toMatchObject({ current: 20, total: 52 });
+  });
 });
@@ -0,0 +1,217 @@
+/**
+ * Integration test: OpenF1Client caching, rate limiting and retries.
+ *
+ * Runs the client against a local Fastify stub that counts requests and can be
+ * told to fail, so no real OpenF1 traffic is involved.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import Fastify from 'fastify';
+import type { FastifyInstance } from 'fastify';
+import { mkdtempSync, rmSync, readdirSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { OpenF1Client } from '../../src/openf1/client.js';
+import { TokenBucket } from '../../src/openf1/rate-limiter.js';
+import { cacheKey } from '../../src/openf1/cache.js';
+
+const DRIVERS = [{ driver_number: 1, name_acronym: 'VER', session_key: 9999 }];
+/** A session still running, whose data mustn't be cached */
+const LIVE_SESSION_KEY = 5555;
+
+function session(sessionKey: number) {
+  const dateEnd =
+    sessionKey === LIVE_SESSION_KEY
+      ? new Date(Date.now() + 60 * 60_000).toISOString()
+      : '2025-07-06T15:00:00Z';
+  return { session_key: sessionKey, date_end: dateEnd };
+}
+
+describe('OpenF1Client', () => {
+  let stub: FastifyInstance;
+  let baseUrl: string;
+  let cacheDir: string;
+  let requests: string[];
+  /** Status codes to answer with (or connections to drop) before serving data, in order */
+  let failures: Array<{ status: number; retryAfter?: string } | 'reset'>;
+
+  function createClient(options: { cacheDir?: string; maxRetries?: number } = {}) {
+    return new OpenF1Client(baseUrl, {
+      requestsPerSecond: 1000,
+      retryBaseMs: 10,
+      ...options,
+    });
+  }
+
+  beforeAll(async () => {
+    stub = Fastify({ logger: false });
+    stub.get('/*', async (request, reply) => {
+      requests.push(request.url);
+      const failure = failures.shift();
+      if (failure === 'reset') {
+        reply.hijack();
+        request.raw.socket.destroy();
+        return;
+      }
+      if (failure) {
+        if (failure.retryAfter) reply.header('retry-after', failure.retryAfter);
+        return reply.code(failure.status).send({ error: 'stub failure' });
+      }
+      if (request.url.startsWith('/stints')) return reply.code(404).send({});
+      if (request.url.startsWith('/sessions')) {
+        const { session_key } = request.query as { session_key?: string };
+        return [session(Number(session_key ?? 9999))];
+      }
+      return DRIVERS;
+    });
+    await stub.listen({ port: 0, host: '127.0.0.1' });
+    const addr = stub.server.address();
+    const port = typeof addr === 'object' && addr ? addr.port : 0;
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(async () => {
+    await stub?.close();
+  });
+
+  beforeEach(() => {
+    requests = [];
+    failures = [];
+    cacheDir = mkdtempSync(join(tmpdir(), 'f12mqtt-openf1-cache-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  describe('disk cache', () => {
+    it('serves session data from disk once fetched, across client instances', async () => {
+      expect(await createClient({ cacheDir }).getDrivers(9999)).toEqual(DRIVERS);
+      expect(await createClient({ cacheDir }).getDrivers(9999)).toEqual(DRIVERS);
+      // The session is looked up once, to check it has ended
+      expect(requests).toEqual([
+        '/drivers?session_key=9999',
+        '/sessions?session_key=9999',
+      ]);
+    });
+
+    it('keys entries by params', async () => {
+      const client = createClient({ cacheDir });
+      await client.getDrivers(9999);
+      await client.getDrivers(1234);
+      expect(requests.filter((url) => url.startsWith('/drivers'))).toHaveLength(2);
+      expect(readdirSync(cacheDir)).toHaveLength(2);
+    });
+
+    it('does not cache a session that is still running', async () => {
+      const client = createClient({ cacheDir });
+      await client.getDrivers(LIVE_SESSION_KEY);
+      await client.getDrivers(LIVE_SESSION_KEY);
+      expect(requests).toEqual([
+        `/drivers?session_key=${LIVE_SESSION_KEY}`,
+        `/sessions?session_key=${LIVE_SESSION_KEY}`,
+        `/drivers?session_key=${LIVE_SESSION_KEY}`,
+      ]);
+      expect(readdirSync(cacheDir)).toEqual([]);
+    });
+
+    it('does not cache session listings or empty results', async () => {
+      const client = createClient({ cacheDir });
+      await client.getSessions({ year: 2025 });
+      await client.getSessions({ year: 2025 });
+      expect(await client.getStints(9999)).toEqual([]);
+      await client.getStints(9999);
+      expect(requests).toHaveLength(4);
+      expect(readdirSync(cacheDir)).toEqual([]);
+    });
+
+    it('refetches over a corrupt entry', async () => {
+      const client = createClient({ cacheDir });
+      await client.getDrivers(9999);
+      const [file] = readdirSync(cacheDir);
+      writeFileSync(join(cacheDir, file!), '[{"driver_n');
+
+      expect(await client.getDrivers(9999)).toEqual(DRIVERS);
+      expect(requests.filter((url) => url.startsWith('/drivers'))).toHaveLength(2);
+    });
+
+    it('builds keys independent of param order', () => {
+      expect(cacheKey('/laps', { session_key: 1, driver_number: 44 })).toBe(
+        cacheKey('/laps', { driver_number: 44, session_key: 1, lap_number: undefined }),
+      );
+    });
+  });
+
+  describe('retries', () => {
+    it('retries 5xx responses until one succeeds', async () => {
+      failures = [{ status: 502 }, { status: 503 }];
+      expect(await createClient().getDrivers(9999)).toEqual(DRIVERS);
+      expect(requests).toHaveLength(3);
+    });
+
+    it('retries 429 after the Retry-After delay', async () => {
+      failures = [{ status: 429, retryAfter: '1' }];
+      const started = Date.now();
+      expect(await createClient().getDrivers(9999)).toEqual(DRIVERS);
+      expect(Date.now() - started).toBeGreaterThanOrEqual(1000);
+      expect(requests).toHaveLength(2);
+    });
+
+    it('retries requests that get no answer', async () => {
+      failures = ['reset', 'reset'];
+      expect(await createClient().getDrivers(9999)).toEqual(DRIVERS);
+      expect(requests).toHaveLength(3);
+    });
+
+    it('gives up on a connection that keeps failing', async () => {
+      failures = ['reset', 'reset', 'reset'];
+      await expect(createClient({ maxRetries: 2 }).getDrivers(9999)).rejects.toThrow(
+        'fetch failed',
+      );
+      expect(requests).toHaveLength(3);
+    });
+
+    it('gives up after maxRetries', async () => {
+      failures = [{ status: 500 }, { status: 500 }, { status: 500 }];
+      await expect(createClient({ maxRetries: 2 }).getDrivers(9999)).rejects.toThrow(
+        'OpenF1 API error 500',
+      );
+      expect(requests).toHaveLength(3);
+    });
+
+    it('does not retry client errors', async () => {
+      failures = [{ status: 400 }];
+      await expect(createClient().getDrivers(9999)).rejects.toThrow(
+        'OpenF1 API error 400',
+      );
+      expect(requests).toHaveLength(1);
+    });
+
+    it("reads 404 as no data only for a session's data", async () => {
+      failures = [{ status: 404 }, { status: 404 }];
+      expect(await createClient().getLaps(9999)).toEqual([]);
+      await expect(createClient().getSessions({ year: 2025 })).rejects.toThrow(
+        'OpenF1 API error 404',
+      );
+      expect(requests).toHaveLength(2);
+    });
+  });
+
+  describe('rate limiting', () => {
+    it('spaces requests out once the burst is spent', async () => {
+      const client = new OpenF1Client(baseUrl, { requestsPerSecond: 20, burst: 2 });
+      const started = Date.now();
+      await Promise.all([1, 2, 3, 4].map((key) => client.getDrivers(key)));
+      // Two go out at once, the other two wait 50 ms each for a token
+      expect(Date.now() - started).toBeGreaterThanOrEqual(95);
+      expect(requests).toHaveLength(4);
+    });
+
+    it('TokenBucket hands out tokens in order', async () => {
+      const bucket = new TokenBucket(1, 100);
+      const order: number[] = [];
+      await Promise.all([1, 2, 3].map((n) => bucket.take().then(() => order.push(n))));
+      expect(order).toEqual([1, 2, 3]);
+    });
+  });
+});
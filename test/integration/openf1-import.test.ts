@@ -0,0 +1,170 @@
+/**
+ * Integration test: OpenF1 session → recording directory → offline playback.
+ *
+ * Imports from a local mock of the OpenF1 API, then reads the result back with
+ * the same storage and data source used for live recordings.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import Fastify from 'fastify';
+import type { FastifyInstance } from 'fastify';
+import { mkdtempSync, readFileSync, readdirSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { OpenF1Client } from '../../src/openf1/client.js';
+import { importOpenF1Session } from '../../src/recording/openf1-import.js';
+import {
+  RecordingExistsError,
+  RecordingInProgressError,
+} from '../../src/recording/recorder.js';
+import { listRecordings } from '../../src/recording/storage.js';
+import { RecordedDataSource } from '../../src/playback/recorded-source.js';
+
+const SESSION = {
+  session_key: 9158,
+  session_name: 'Race',
+  session_type: 'Race',
+  date_start: '2023-09-17T12:00:00+00:00',
+  date_end: '2023-09-17T14:00:00+00:00',
+  year: 2023,
+  circuit_short_name: 'Singapore',
+  country_name: 'Singapore',
+  meeting_name: 'Singapore Grand Prix',
+};
+
+describe('OpenF1 import', () => {
+  let mockServer: FastifyInstance;
+  let client: OpenF1Client;
+  let recordingsDir: string;
+  let failDrivers = false;
+
+  beforeAll(async () => {
+    mockServer = Fastify({ logger: false });
+    mockServer.get('/sessions', async () => [SESSION]);
+    mockServer.get('/drivers', async (_request, reply) => {
+      if (failDrivers) return reply.code(400).send({ error: 'bad request' });
+      return [
+        {
+          driver_number: 55,
+          name_acronym: 'SAI',
+          team_name: 'Ferrari',
+          team_colour: 'E8002D',
+        },
+      ];
+    });
+    mockServer.get('/race_control', async () => [
+      {
+        date: '2023-09-17T12:03:00+00:00',
+        category: 'Flag',
+        flag: 'GREEN',
+        message: 'GREEN',
+      },
+    ]);
+    mockServer.get('/position', async () => [
+      { driver_number: 55, position: 1, date: '2023-09-17T12:04:00+00:00' },
+    ]);
+    await mockServer.listen({ port: 0, host: '127.0.0.1' });
+    const addr = mockServer.server.address();
+    const port = typeof addr === 'object' && addr ? addr.port : 0;
+    client = new OpenF1Client(`http://127.0.0.1:${port}`, { requestsPerSecond: 1000 });
+  });
+
+  afterAll(async () => {
+    await mockServer?.close();
+  });
+
+  beforeEach(() => {
+    failDrivers = false;
+    recordingsDir = mkdtempSync(join(tmpdir(), 'f12mqtt-openf1-import-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(recordingsDir, { recursive: true, force: true });
+  });
+
+  it('writes the recording layout and lists the session', async () => {
+    const imported = await importOpenF1Session(9158, { recordingsDir, client });
+
+    expect(imported.dir).toBe(join(recordingsDir, '2023-9158'));
+    expect(imported.entries).toBe(2);
+    expect(readdirSync(imported.dir).sort()).toEqual([
+      'live.jsonl',
+      'metadata.json',
+      'subscribe.json',
+    ]);
+
+    expect(listRecordings(recordingsDir)).toEqual([
+      {
+        id: '2023-9158',
+        dir: imported.dir,
+        metadata: {
+          sessionKey: '9158',
+          year: 2023,
+          sessionName: 'Singapore Grand Prix - Race',
+          sessionType: 'Race',
+          circuit: 'Singapore',
+          startTime: SESSION.date_start,
+          endTime: SESSION.date_end,
+          importedFrom: 'openf1',
+        },
+      },
+    ]);
+  });
+
+  it('refuses to replace an existing recording unless asked to', async () => {
+    await importOpenF1Session(9158, { recordingsDir, client });
+    await expect(importOpenF1Session(9158, { recordingsDir, client })).rejects.toThrow(
+      RecordingExistsError,
+    );
+    const again = await importOpenF1Session(9158, {
+      recordingsDir,
+      client,
+      overwrite: true,
+    });
+    expect(again.entries).toBe(2);
+  });
+
+  it('never replaces the recording in progress', async () => {
+    const { dir } = await importOpenF1Session(9158, { recordingsDir, client });
+    const metadata = readFileSync(join(dir, 'metadata.json'), 'utf-8');
+    await expect(
+      importOpenF1Session(9158, {
+        recordingsDir,
+        client,
+        overwrite: true,
+        activeDirectory: () => dir,
+      }),
+    ).rejects.toThrow(RecordingInProgressError);
+    expect(readFileSync(join(dir, 'metadata.json'), 'utf-8')).toBe(metadata);
+  });
+
+  it('leaves nothing behind when the download fails', async () => {
+    failDrivers = true;
+    await expect(importOpenF1Session(9158, { recordingsDir, client })).rejects.toThrow(
+      'OpenF1 API error 400',
+    );
+    expect(readdirSync(recordingsDir)).toEqual([]);
+  });
+
+  it('rejects a session OpenF1 does not know', async () => {
+    await expect(importOpenF1Session(1234, { recordingsDir, client })).rejects.toThrow(
+      'OpenF1 session not found: 1234',
+    );
+    expect(readdirSync(recordingsDir)).toEqual([]);
+  });
+
+  // Runs last: takes the mock API down to prove playback needs no connectivity
+  it('plays back offline like a live recording', async () => {
+    const { dir } = await importOpenF1Session(9158, { recordingsDir, client });
+    await mockServer.close();
+
+    const source = new RecordedDataSource(dir);
+    const initial = await source.getInitialState();
+    expect(initial?.drivers['55']?.abbreviation).toBe('SAI');
+    expect(initial?.sessionInfo?.name).toBe('Singapore Grand Prix');
+    expect((await source.getEntries()).map((e) => e.topic)).toEqual([
+      'TrackStatus',
+      'TimingData',
+    ]);
+  });
+});
@@ -11,6 +11,7 @@ import type { FastifyInstance } from 'fastify';
 import { OpenF1Client } from '../../src/openf1/client.js';
 import { OpenF1Source } from '../../src/openf1/source.js';
 import { SignalRPipeline } from '../../src/signalr/pipeline.js';
+import type { SessionState } from '../../src/data/types.js';
 
 // Mock OpenF1 API data
 const MOCK_DRIVERS = [
@@ -84,6 +85,71 @@ const MOCK_WEATHER = [
     wind_speed: 3.5,
     session_key: 9999,
   },
+  {
+    // OpenF1's own format, just before driver 1's second lap ends at 14:03:12.500Z
+    date: '2025-06-15T14:03:12+00:00',
+    air_temperature: 25.0,
+    track_temperature: 41.0,
+    humidity: 55,
+    pressure: 1013.0,
+    rainfall: 0,
+    wind_direction: 180,
+    wind_speed: 3.5,
+    session_key: 9999,
+  },
+];
+
+const MOCK_LAPS = [
+  {
+    driver_number: 1,
+    lap_number: 1,
+    date_start: null,
+    lap_duration: 95.123,
+    duration_sector_1: null,
+    duration_sector_2: 40.5,
+    duration_sector_3: 28.1,
+    is_pit_out_lap: false,
+  },
+  {
+    driver_number: 1,
+    lap_number: 2,
+    date_start: '2025-06-15T14:01:40Z',
+    lap_duration: 92.5,
+    duration_sector_1: 24.0,
+    duration_sector_2: 40.2,
+    duration_sector_3: 28.3,
+    is_pit_out_lap: false,
+  },
+  {
+    driver_number: 1,
+    lap_number: 3,
+    date_start: '2025-06-15T14:03:12.500Z',
+    lap_duration: 93.0,
+    duration_sector_1: 24.1,
+    duration_sector_2: 40.4,
+    duration_sector_3: 28.5,
+    is_pit_out_lap: false,
+  },
+  {
+    driver_number: 4,
+    lap_number: 1,
+    date_start: '2025-06-15T14:00:00Z',
+    lap_duration: null,
+    duration_sector_1: null,
+    duration_sector_2: null,
+    duration_sector_3: null,
+    is_pit_out_lap: false,
+  },
+];
+
+const MOCK_INTERVALS = [
+  { driver_number: 1, gap_to_leader: 0, interval: 0, date: '2025-06-15T14:26:00Z' },
+  { driver_number: 4, gap_to_leader: '+1 LAP', interval: 1.234, date: '2025-06-15T14:26:00Z' },
+];
+
+const MOCK_SESSION_RESULT = [
+  { driver_number: 1, position: 1, number_of_laps: 57, dnf: false, dns: false, dsq: false },
+  { driver_number: 4, position: null, number_of_laps: 0, dnf: true, dns: false, dsq: false },
 ];
 
 describe('OpenF1 source integration', () => {
@@ -95,7 +161,7 @@ describe('OpenF1 source integration', () => {
     // Start a local mock OpenF1 API
     mockServer = Fastify({ logger: false });
 
-    mockServer.get('/drivers', async (request) => {
+    mockServer.get('/drivers', async () => {
       return MOCK_DRIVERS;
     });
 
@@ -119,6 +185,18 @@ describe('OpenF1 source integration', () => {
       return MOCK_WEATHER;
     });
 
+    mockServer.get('/laps', async () => {
+      return MOCK_LAPS;
+    });
+
+    mockServer.get('/intervals', async () => {
+      return MOCK_INTERVALS;
+    });
+
+    mockServer.get('/session_result', async () => {
+      return MOCK_SESSION_RESULT;
+    });
+
     mockServer.get('/sessions', async () => {
       return [{
         session_key: 9999,
@@ -207,4 +285,66 @@ describe('OpenF1 source integration', () => {
 
     await source.close();
   });
+
+  it('OpenF1Source returns all entries in timestamp order', async () => {
+    const source = new OpenF1Source(9999, client);
+    const entries = await source.getEntries();
+    const timestamps = entries.map((e) => e.timestamp);
+    expect(timestamps).toEqual([...timestamps].sort());
+    expect(entries.map((e) => e.topic)).toContain('TimingAppData');
+  });
+
+  it('OpenF1Source orders times from OpenF1 and computed ones within a second', async () => {
+    const entries = await new OpenF1Source(9999, client).getEntries();
+    const at = entries
+      .filter((e) => e.timestamp.startsWith('2025-06-15T14:03:12'))
+      .map((e) => [e.timestamp, e.topic]);
+    expect(at[0]).toEqual(['2025-06-15T14:03:12.000Z', 'WeatherData']);
+    expect(at.slice(1)).toContainEqual(['2025-06-15T14:03:12.500Z', 'TimingData']);
+    expect(new Set(at.slice(1).map(([timestamp]) => timestamp))).toEqual(
+      new Set(['2025-06-15T14:03:12.500Z']),
+    );
+  });
+
+  it('OpenF1Source replay fills the same state as a SignalR recording', async () => {
+    const source = new OpenF1Source(9999, client);
+    const initialState = await source.getInitialState();
+    expect(initialState!.sessionInfo).toMatchObject({
+      name: 'Test GP',
+      type: 'Race',
+      circuit: 'Testville',
+      startTime: '2025-06-15T14:00:00Z',
+    });
+
+    const pipeline = new SignalRPipeline();
+    pipeline.loadInitialState(initialState!);
+    let beforePit: SessionState | null = null;
+    for (const entry of await source.getEntries()) {
+      if (!beforePit && Date.parse(entry.timestamp) >= Date.parse(MOCK_PITS[0]!.date)) {
+        beforePit = structuredClone(pipeline.getState());
+      }
+      pipeline.processMessage(entry);
+    }
+
+    // Tyre age counts up lap by lap through the stint
+    expect(beforePit!.stints['1']).toMatchObject({ compound: 'SOFT', tyreAge: 2, new: true });
+
+    const state = pipeline.getState();
+    expect(state.timing['1']).toMatchObject({
+      lastLapTime: '1:33.000',
+      bestLapTime: '1:32.500',
+      sector1: '24.100',
+      lapsCompleted: 3,
+      gapToLeader: '',
+    });
+    expect(state.timing['4']).toMatchObject({
+      gapToLeader: '+1 LAP',
+      interval: '+1.234',
+      retired: true,
+    });
+    expect(state.lapCount).toEqual({ current: 3, total: 57 });
+    expect(state.stints['1']).toMatchObject({ compound: 'HARD', stintNumber: 1 });
+    expect(state.weather).toMatchObject({ airTemp: 25, rainfall: false });
+    expect(state.pitLaneTimes['1']).toMatchObject({ duration: '23.5', lap: '12' });
+  });
 });
@@ -4,7 +4,7 @@
  * verifies the publisher calls MQTT with correct topics and payloads.
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { SignalRPipeline } from '../../src/signalr/pipeline.js';
 import { MqttPublisher } from '../../src/mqtt/publisher.js';
 import type { F1MqttClient } from '../../src/mqtt/client.js';
@@ -574,7 +574,7 @@ describe('Pipeline → Publisher integration', () => {
   it('deregisters ephemeral entities on session end', () => {
     publisher.registerSessionEntities();
     const registeredCount = mqtt.calls.filter((c) =>
-      c.topic.startsWith('homeassistant/sensor/'),
+      c.topic.startsWith('homeassistant/'),
     ).length;
 
     mqtt.calls.length = 0;
@@ -585,7 +585,7 @@ describe('Pipeline → Publisher integration', () => {
     // Should clear all ephemeral discovery topics
     expect(mqtt.cleared.length).toBe(registeredCount);
     for (const topic of mqtt.cleared) {
-      expect(topic).toMatch(/^homeassistant\/sensor\/f12mqtt\//);
+      expect(topic).toMatch(/^homeassistant\/(binary_)?sensor\/f12mqtt\//);
     }
 
     // Session status should be "finished"
@@ -610,4 +610,206 @@ describe('Pipeline → Publisher integration', () => {
     );
     expect(stateCalls).toHaveLength(0);
   });
+
+  it('throttles telemetry for favorite drivers', () => {
+    vi.useFakeTimers();
+    try {
+      publisher.registerSessionEntities();
+      pipeline.processMessage({
+        topic: 'TimingData',
+        data: { Lines: { '1': { Position: '1' } } },
+        timestamp: '2025-07-06T14:00:00Z',
+      });
+      mqtt.calls.length = 0;
+
+      const sample = (speed: number) =>
+        pipeline.processMessage({
+          topic: 'CarData',
+          data: {
+            Entries: [
+              { Utc: '2025-07-06T14:00:01Z', Cars: { '1': { Channels: { '2': speed } } } },
+            ],
+          },
+          timestamp: '2025-07-06T14:00:01Z',
+        });
+
+      publisher.publishState(sample(300).state);
+      vi.advanceTimersByTime(250);
+      publisher.publishState(sample(305).state);
+      vi.advanceTimersByTime(1000);
+      publisher.publishState(sample(310).state);
+
+      const telemetryCalls = mqtt.calls.filter(
+        (c) => c.topic === 'f12mqtt/driver/1/telemetry',
+      );
+      expect(telemetryCalls).toHaveLength(2);
+      expect(telemetryCalls[0]!.payload).toHaveProperty('speed', 300);
+      expect(telemetryCalls[1]!.payload).toHaveProperty('speed', 310);
+      expect(telemetryCalls[0]!.retain).toBe(false);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('publishes a compact positions payload', () => {
+    publisher.registerSessionEntities();
+    mqtt.calls.length = 0;
+
+    const msg = pipeline.processMessage({
+      topic: 'Position',
+      data: {
+        Position: [
+          {
+            Timestamp: '2025-07-06T14:00:01Z',
+            Entries: {
+              '1': { Status: 'OnTrack', X: 100, Y: 200, Z: 5 },
+              '4': { Status: 'OffTrack', X: -10, Y: 20, Z: 0 },
+            },
+          },
+        ],
+      },
+      timestamp: '2025-07-06T14:00:01Z',
+    });
+    publisher.publishState(msg.state);
+
+    const positionsCall = mqtt.calls.find((c) => c.topic === 'f12mqtt/session/positions');
+    expect(positionsCall).toBeDefined();
+    expect(positionsCall!.retain).toBe(false);
+    expect(positionsCall!.payload).toEqual({
+      timestamp: '2025-07-06T14:00:01Z',
+      cars: { '1': [100, 200, 5, 1], '4': [-10, 20, 0, 0] },
+    });
+  });
+
+  it('publishes sector flags and DRS with lazily registered sector sensors', () => {
+    publisher.registerSessionEntities();
+    mqtt.calls.length = 0;
+
+    const msg = pipeline.processMessage({
+      topic: 'RaceControlMessages',
+      data: {
+        Messages: {
+          '0': { Utc: 'T1', Message: 'DRS ENABLED', Category: 'Drs', Status: 'ENABLED' },
+          '1': { Utc: 'T2', Message: 'YELLOW IN TRACK SECTOR 3', Category: 'Flag', Flag: 'YELLOW', Scope: 'Sector', Sector: 3 },
+        },
+      },
+      timestamp: '2025-07-06T14:20:00Z',
+    });
+    publisher.publishState(msg.state);
+    publisher.publishState(msg.state);
+
+    const sectorsCall = mqtt.calls.find((c) => c.topic === 'f12mqtt/session/sectors');
+    expect(sectorsCall!.payload).toEqual({ '3': 'yellow' });
+    const drsCall = mqtt.calls.find((c) => c.topic === 'f12mqtt/session/drs');
+    expect(drsCall!.payload).toBe('enabled');
+
+    const sectorDiscovery = mqtt.calls.filter(
+      (c) => c.topic === 'homeassistant/binary_sensor/f12mqtt/sector_3_yellow/config',
+    );
+    expect(sectorDiscovery).toHaveLength(1);
+
+    publisher.deregisterSessionEntities();
+    expect(mqtt.cleared).toContain('homeassistant/binary_sensor/f12mqtt/sector_3_yellow/config');
+  });
+
+  it('publishes session phase, clock and lifecycle events', () => {
+    publisher.registerSessionEntities();
+    mqtt.calls.length = 0;
+
+    pipeline.processMessage({
+      topic: 'ExtrapolatedClock',
+      data: { Utc: '2025-07-06T14:00:00Z', Remaining: '01:00:00', Extrapolating: true },
+      timestamp: '2025-07-06T14:00:00Z',
+    });
+    const msg = pipeline.processMessage({
+      topic: 'SessionStatus',
+      data: { Status: 'Started' },
+      timestamp: '2025-07-06T14:00:01Z',
+    });
+    publisher.publishState(msg.state);
+    publisher.publishEvents(msg.events);
+
+    expect(mqtt.calls.find((c) => c.topic === 'f12mqtt/session/phase')!.payload).toBe(
+      'Started',
+    );
+    expect(mqtt.calls.find((c) => c.topic === 'f12mqtt/session/clock')!.payload).toMatchObject(
+      { remaining: '01:00:00', remainingSeconds: 3600 },
+    );
+    expect(mqtt.calls.find((c) => c.topic === 'f12mqtt/event/session')!.payload).toMatchObject(
+      { type: 'session_started' },
+    );
+  });
+
+  describe('replay publishing', () => {
+    const lapCount = () =>
+      pipeline.processMessage({
+        topic: 'LapCount',
+        data: { CurrentLap: 3, TotalLaps: 52 },
+        timestamp: '2025-07-06T14:10:00Z',
+      });
+
+    it('publishes replayed data with a replay marker and ignores live data', () => {
+      expect(publisher.beginReplay()).toBe(true);
+      expect(mqtt.calls.find((c) => c.topic === 'f12mqtt/session/status')!.payload).toBe(
+        'active',
+      );
+      mqtt.calls.length = 0;
+
+      const msg = lapCount();
+      publisher.publishState(msg.state);
+      expect(mqtt.calls).toHaveLength(0);
+
+      publisher.publishState(msg.state, 'replay');
+      const lapCall = mqtt.calls.find((c) => c.topic === 'f12mqtt/session/lap');
+      expect(lapCall!.payload).toEqual({ current: 3, total: 52, replay: true });
+      // String payloads stay usable as HA state
+      expect(mqtt.calls.find((c) => c.topic === 'f12mqtt/session/flag')!.payload).toBe(
+        'green',
+      );
+    });
+
+    it('drops the marker and entities when the replay ends', () => {
+      publisher.beginReplay();
+      publisher.endReplay();
+      expect(publisher.isReplaying()).toBe(false);
+      expect(mqtt.cleared.length).toBeGreaterThan(0);
+
+      publisher.registerSessionEntities();
+      mqtt.calls.length = 0;
+      publisher.publishState(lapCount().state);
+      const lapCall = mqtt.calls.find((c) => c.topic === 'f12mqtt/session/lap');
+      expect(lapCall!.payload).toEqual({ current: 3, total: 52 });
+    });
+
+    it('refuses to replay over an active live session', () => {
+      publisher.updateSessionLifecycle('Started');
+      expect(publisher.beginReplay()).toBe(false);
+      expect(publisher.isReplaying()).toBe(false);
+    });
+
+    it('hands over to a live session when one starts', () => {
+      publisher.beginReplay();
+      publisher.updateSessionLifecycle('Started');
+      expect(publisher.isReplaying()).toBe(false);
+
+      mqtt.calls.length = 0;
+      publisher.publishState(lapCount().state);
+      expect(mqtt.calls.some((c) => c.topic === 'f12mqtt/session/lap')).toBe(true);
+    });
+
+    it('publishes playback state retained', () => {
+      publisher.publishPlaybackState({
+        mode: 'recorded',
+        status: 'playing',
+        speed: 4,
+        currentTime: '2025-07-06T14:10:00Z',
+        startTime: '2025-07-06T14:00:00Z',
+        endTime: '2025-07-06T15:30:00Z',
+        currentIndex: 10,
+        totalEntries: 100,
+      });
+      const call = mqtt.calls.find((c) => c.topic === 'f12mqtt/playback/state');
+      expect(call).toMatchObject({ retain: true, payload: { status: 'playing', speed: 4 } });
+    });
+  });
 });
@@ -210,7 +210,7 @@ describe('Record → Replay integration', () => {
     // === PHASE 2: Load recording and replay ===
     const sessionDir = recorder.getDirectory();
     const initialState = loadInitialState(sessionDir);
-    const timelineEntries = loadTimeline(sessionDir);
+    const timelineEntries = await loadTimeline(sessionDir);
 
     expect(initialState).not.toBeNull();
     expect(timelineEntries.length).toBe(RACE_MESSAGES.length - 1); // first msg was initial state
@@ -304,7 +304,7 @@ describe('Record → Replay integration', () => {
     // Load and seek
     const sessionDir = recorder.getDirectory();
     const initialState = loadInitialState(sessionDir)!;
-    const timeline = new Timeline(loadTimeline(sessionDir));
+    const timeline = new Timeline(await loadTimeline(sessionDir));
     const controller = new PlaybackController();
     controller.load(timeline, initialState, 'recorded');
 
@@ -5,11 +5,21 @@
  *         send playback commands → REST API returns config/sessions.
  */
 
-import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
 import { createApp, type App } from '../../src/web/app.js';
 import { SessionRecorder } from '../../src/recording/recorder.js';
 import { SignalRPipeline } from '../../src/signalr/pipeline.js';
-import { mkdtempSync, rmSync } from 'node:fs';
+import type { F1MqttClient } from '../../src/mqtt/client.js';
+import { MqttPublisher } from '../../src/mqtt/publisher.js';
+import { DelayBuffer } from '../../src/signalr/delay-buffer.js';
+import { LiveBuffer } from '../../src/playback/live-buffer.js';
+import { OpenF1Client } from '../../src/openf1/client.js';
+import type { AutoRecorder } from '../../src/recording/auto-recorder.js';
+import { RecordingJanitor } from '../../src/recording/janitor.js';
+import Fastify from 'fastify';
+import type { FastifyInstance } from 'fastify';
+import { ConfigStore } from '../../src/config/store.js';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
 import WebSocket from 'ws';
@@ -76,6 +86,11 @@ const RACE_MESSAGES = [
     data: { Lines: { '4': { Position: '1' }, '1': { Position: '2' } } },
     timestamp: '2025-06-15T14:02:01.000Z',
   },
+  {
+    topic: 'TimingData',
+    data: { Lines: { '4': { LastLapTime: { Value: '1:31.456' }, NumberOfLaps: 1 } } },
+    timestamp: '2025-06-15T14:02:30.000Z',
+  },
 ];
 
 let tempDir: string;
@@ -229,8 +244,762 @@ describe('Web server integration', () => {
     const seekBody = (await seekRes.json()) as { state: { trackStatus: { flag: string } } };
     expect(seekBody.state.trackStatus.flag).toBe('red');
   });
+
+  it('jumps between indexed events and exposes the index', async () => {
+    await fetch(`${baseUrl}/api/playback/load`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ sessionDir }),
+    });
+
+    const indexRes = await fetch(`${baseUrl}/api/playback/index`);
+    const index = (await indexRes.json()) as {
+      laps: Array<{ lap: number }>;
+      events: Array<{ event: { type: string } }>;
+    };
+    expect(index.laps.map((l) => l.lap)).toEqual([1]);
+    expect(index.events.map((m) => m.event.type)).toEqual([
+      'flag_change',
+      'flag_change',
+      'overtake',
+    ]);
+
+    const nextRes = await fetch(`${baseUrl}/api/playback/command`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ command: 'next_event', value: 'overtake' }),
+    });
+    const next = (await nextRes.json()) as {
+      event: { overtakingAbbreviation: string };
+      state: { timing: Record<string, { position: number }> };
+    };
+    expect(next.event.overtakingAbbreviation).toBe('NOR');
+    expect(next.state.timing['4']?.position).toBe(1);
+
+    const lapRes = await fetch(`${baseUrl}/api/playback/command`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ command: 'seek_lap', value: 9 }),
+    });
+    expect(await lapRes.json()).toEqual({ ok: false, error: 'Lap not found: 9' });
+  });
+
+  it('returns lap history for the loaded playback session', async () => {
+    await fetch(`${baseUrl}/api/playback/load`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ sessionDir }),
+    });
+    await fetch(`${baseUrl}/api/playback/command`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ command: 'seek', value: '2025-06-15T14:03:00.000Z' }),
+    });
+
+    const res = await fetch(`${baseUrl}/api/playback/drivers/4/laps`);
+    const laps = (await res.json()) as Array<{ lap: number; lapTime: string }>;
+    expect(res.status).toBe(200);
+    expect(laps).toHaveLength(1);
+    expect(laps[0]).toMatchObject({ lap: 1, lapTime: '1:31.456' });
+  });
+
+  it('live lap history is unavailable without a pipeline', async () => {
+    const res = await fetch(`${baseUrl}/api/live/drivers/4/laps`);
+    expect(res.status).toBe(501);
+  });
 });
 
 function sleep(ms: number): Promise<void> {
   return new Promise((r) => setTimeout(r, ms));
 }
+
+describe('MQTT playback commands', () => {
+  let app: App;
+  const results: Array<{ topic: string; payload: Record<string, unknown> }> = [];
+  const mqttClient = {
+    onPlaybackCommand: undefined as ((command: string) => void) | undefined,
+    publish(topic: string, payload: Record<string, unknown>) {
+      results.push({ topic, payload });
+    },
+  };
+
+  async function command(payload: string) {
+    results.length = 0;
+    mqttClient.onPlaybackCommand!(payload);
+    await vi.waitFor(() => expect(results).toHaveLength(1));
+    expect(results[0]!.topic).toBe('f12mqtt/playback/command/result');
+    return results[0]!.payload;
+  }
+
+  beforeAll(async () => {
+    await recordFixtureSession();
+    app = await createApp({
+      port: 0,
+      host: '127.0.0.1',
+      recordingsDir: tempDir,
+      mqtt: { client: mqttClient as unknown as F1MqttClient, prefix: 'f12mqtt' },
+    });
+  });
+
+  afterAll(async () => {
+    await app?.close();
+    if (tempDir) rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('loads a recording by session key or directory', async () => {
+    expect(await command('{"command": "load", "value": "web-test"}')).toMatchObject({
+      command: 'load',
+      ok: true,
+      sessionDir,
+      entries: RACE_MESSAGES.length - 1,
+    });
+    expect(
+      await command(JSON.stringify({ command: 'load', value: sessionDir })),
+    ).toMatchObject({
+      ok: true,
+    });
+  });
+
+  it('refuses sessions outside the recordings directory', async () => {
+    expect(await command('{"command": "load", "value": "/etc"}')).toEqual({
+      command: 'load',
+      ok: false,
+      error: 'Unknown session: /etc',
+    });
+  });
+
+  it('replies with the error when a recording fails to load', async () => {
+    // A gzip header followed by garbage fails while the log is being read
+    const broken = join(tempDir, '2025-broken');
+    mkdirSync(broken);
+    writeFileSync(join(broken, 'metadata.json'), '{}');
+    writeFileSync(join(broken, 'subscribe.json'), '{}');
+    writeFileSync(
+      join(broken, 'live.jsonl.gz'),
+      Buffer.concat([Buffer.from([0x1f, 0x8b]), Buffer.alloc(64, 0xff)]),
+    );
+
+    expect(await command(JSON.stringify({ command: 'load', value: broken }))).toEqual({
+      command: 'load',
+      ok: false,
+      error: 'unknown compression method',
+    });
+    // The failure is only reported; commands keep working
+    expect(await command('{"command": "load", "value": "web-test"}')).toMatchObject({
+      ok: true,
+    });
+  });
+
+  it('accepts bare commands and JSON with values', async () => {
+    await command('{"command": "load", "value": "web-test"}');
+    expect(await command('pause')).toEqual({
+      command: 'pause',
+      ok: true,
+      status: 'paused',
+    });
+    expect(await command('{"command": "speed", "value": 4}')).toEqual({
+      command: 'speed',
+      ok: true,
+      speed: 4,
+    });
+  });
+
+  it('replies to seek without the full session state', async () => {
+    await command('{"command": "load", "value": "web-test"}');
+    const reply = await command(
+      '{"command": "seek", "value": "2025-06-15T14:01:30.000Z"}',
+    );
+    expect(reply).toMatchObject({ command: 'seek', ok: true });
+    expect(reply).toHaveProperty('playbackState');
+    expect(reply).not.toHaveProperty('state');
+  });
+
+  it('reports invalid and unknown commands', async () => {
+    expect(await command('{not json')).toEqual({
+      command: null,
+      ok: false,
+      error: 'Invalid playback command',
+    });
+    expect(await command('rewind')).toEqual({
+      command: 'rewind',
+      ok: false,
+      error: 'Unknown command: rewind',
+    });
+  });
+});
+
+describe('Replay to MQTT', () => {
+  let app: App;
+  let baseUrl: string;
+  const calls: Array<{ topic: string; payload: unknown }> = [];
+  const mqttClient = {
+    publish(topic: string, payload: unknown) {
+      calls.push({ topic, payload });
+    },
+    clear(topic: string) {
+      calls.push({ topic, payload: '' });
+    },
+  } as unknown as F1MqttClient;
+  const publisher = new MqttPublisher(mqttClient, {
+    prefix: 'f12mqtt',
+    favoriteDrivers: [],
+    awtrixEnabled: false,
+    awtrixPrefix: '',
+  });
+
+  async function post(path: string, body: object, method = 'POST') {
+    return fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  }
+
+  beforeAll(async () => {
+    await recordFixtureSession();
+    app = await createApp({
+      port: 0,
+      host: '127.0.0.1',
+      recordingsDir: tempDir,
+      dbPath: join(tempDir, 'config.db'),
+      publisher,
+    });
+    const address = app.server.address();
+    const port = typeof address === 'object' && address ? address.port : 0;
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(async () => {
+    await app?.close();
+    if (tempDir) rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('publishes playback state without replaying by default', async () => {
+    calls.length = 0;
+    await post('/api/playback/load', { sessionDir });
+    expect(calls.some((c) => c.topic === 'f12mqtt/playback/state')).toBe(true);
+    expect(publisher.isReplaying()).toBe(false);
+    expect(calls.some((c) => c.topic === 'f12mqtt/session/info')).toBe(false);
+  });
+
+  it('drives session topics from the replay when replayToMqtt is set', async () => {
+    await post('/api/config/replayToMqtt', { value: true }, 'PUT');
+    calls.length = 0;
+    await post('/api/playback/load', { sessionDir });
+    expect(publisher.isReplaying()).toBe(true);
+
+    await post('/api/playback/command', { command: 'seek', value: '2025-06-15T14:01:30.000Z' });
+    const flagCalls = calls.filter((c) => c.topic === 'f12mqtt/session/flag');
+    expect(flagCalls[flagCalls.length - 1]!.payload).toBe('red');
+    const infoCall = calls.find((c) => c.topic === 'f12mqtt/session/info');
+    expect(infoCall!.payload).toMatchObject({ name: 'Web Test GP', replay: true });
+  });
+});
+
+describe('Live delay', () => {
+  let app: App;
+  let baseUrl: string;
+  let configStore: ConfigStore;
+  const delayBuffer = new DelayBuffer(30_000);
+  const calls: Array<{ topic: string; payload: unknown }> = [];
+  const mqttClient = {
+    onLiveDelayCommand: undefined as ((command: string) => void) | undefined,
+    publish(topic: string, payload: unknown) {
+      calls.push({ topic, payload });
+    },
+  };
+  const publisher = new MqttPublisher(mqttClient as unknown as F1MqttClient, {
+    prefix: 'f12mqtt',
+    favoriteDrivers: [],
+    awtrixEnabled: false,
+    awtrixPrefix: '',
+  });
+
+  function lastDelayPayload() {
+    return calls.filter((c) => c.topic === 'f12mqtt/live/delay').pop()?.payload;
+  }
+
+  async function delayCommand(command: string, value?: unknown) {
+    const res = await fetch(`${baseUrl}/api/live/delay`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ command, value }),
+    });
+    return res.json() as Promise<Record<string, unknown>>;
+  }
+
+  beforeAll(async () => {
+    tempDir = mkdtempSync(join(tmpdir(), 'f12mqtt-delay-test-'));
+    configStore = new ConfigStore(join(tempDir, 'config.db'));
+    app = await createApp({
+      port: 0,
+      host: '127.0.0.1',
+      recordingsDir: tempDir,
+      configStore,
+      delayBuffer,
+      publisher,
+      mqtt: { client: mqttClient as unknown as F1MqttClient, prefix: 'f12mqtt' },
+    });
+    const address = app.server.address();
+    const port = typeof address === 'object' && address ? address.port : 0;
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(async () => {
+    await app?.close();
+    delayBuffer.clear();
+    configStore?.close();
+    if (tempDir) rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('publishes the initial delay and reports it over REST', async () => {
+    expect(lastDelayPayload()).toEqual({ seconds: 30 });
+    const res = await fetch(`${baseUrl}/api/live/delay`);
+    expect(await res.json()).toEqual({ delaySeconds: 30, buffered: 0 });
+  });
+
+  it('sets and nudges the delay over REST, persisting it', async () => {
+    expect(await delayCommand('set', 45)).toEqual({
+      ok: true,
+      delaySeconds: 45,
+      buffered: 0,
+    });
+    expect(await delayCommand('nudge', -1)).toMatchObject({ delaySeconds: 44 });
+    expect(lastDelayPayload()).toEqual({ seconds: 44 });
+    expect(configStore.get('liveDelaySeconds')).toBe(44);
+  });
+
+  it('rejects missing values and unknown commands', async () => {
+    expect(await delayCommand('set')).toEqual({
+      ok: false,
+      error: 'Invalid delay: undefined',
+    });
+    expect(await delayCommand('rewind', 1)).toEqual({
+      ok: false,
+      error: 'Unknown command: rewind',
+    });
+  });
+
+  it('accepts commands over MQTT', () => {
+    mqttClient.onLiveDelayCommand!('{"command": "set", "value": 20}');
+    mqttClient.onLiveDelayCommand!('{"command": "nudge", "value": 1}');
+    expect(delayBuffer.getDelay()).toBe(21_000);
+    expect(lastDelayPayload()).toEqual({ seconds: 21 });
+
+    mqttClient.onLiveDelayCommand!('nudge');
+    expect(delayBuffer.getDelay()).toBe(21_000);
+  });
+});
+
+describe('Live time-shift', () => {
+  let app: App;
+  let baseUrl: string;
+  const pipeline = new SignalRPipeline();
+  const liveBuffer = new LiveBuffer();
+  pipeline.on('update', (msg) => liveBuffer.handleUpdate(msg));
+
+  async function command(command: string, value?: unknown) {
+    const res = await fetch(`${baseUrl}/api/playback/command`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ command, value }),
+    });
+    return res.json() as Promise<Record<string, unknown>>;
+  }
+
+  async function playbackState() {
+    const res = await fetch(`${baseUrl}/api/playback/state`);
+    return res.json() as Promise<{
+      playbackState: { liveLagMs: number };
+      sessionState: {
+        trackStatus: { flag: string };
+        timing: Record<string, { position: number }>;
+      };
+    }>;
+  }
+
+  beforeAll(async () => {
+    tempDir = mkdtempSync(join(tmpdir(), 'f12mqtt-timeshift-test-'));
+    app = await createApp({
+      port: 0,
+      host: '127.0.0.1',
+      recordingsDir: tempDir,
+      pipeline,
+      liveBuffer,
+    });
+    const address = app.server.address();
+    const port = typeof address === 'object' && address ? address.port : 0;
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(async () => {
+    await command('stop');
+    await app?.close();
+    if (tempDir) rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('reports when there is no live session to attach to', async () => {
+    expect(await command('live')).toEqual({ ok: false, error: 'No live session' });
+  });
+
+  it('attaches to the live session, falls behind while paused and catches up', async () => {
+    for (const msg of RACE_MESSAGES.slice(0, 4)) pipeline.processMessage(msg);
+
+    const attached = await command('live');
+    expect(attached).toMatchObject({
+      ok: true,
+      playbackState: { mode: 'live', status: 'playing', liveLagMs: 0 },
+    });
+
+    await command('pause');
+    for (const msg of RACE_MESSAGES.slice(4)) pipeline.processMessage(msg);
+    const paused = await playbackState();
+    expect(paused.playbackState.liveLagMs).toBe(149_000);
+    expect(paused.sessionState.trackStatus.flag).toBe('green');
+
+    const live = (await command('live')) as { playbackState: { liveLagMs: number } };
+    expect(live.playbackState.liveLagMs).toBe(0);
+    const state = await playbackState();
+    expect(state.sessionState.timing['4']?.position).toBe(1);
+  });
+});
+
+describe('OpenF1 sessions', () => {
+  let app: App;
+  let baseUrl: string;
+  let mockServer: FastifyInstance;
+  const sessionQueries: unknown[] = [];
+
+  async function post(path: string, body: object) {
+    return fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  }
+
+  async function playbackState() {
+    const res = await fetch(`${baseUrl}/api/playback/state`);
+    return res.json() as Promise<{
+      playbackState: { mode: string; totalEntries: number };
+      sessionState: {
+        drivers: Record<string, { abbreviation: string }>;
+        trackStatus: { flag: string };
+      };
+    }>;
+  }
+
+  beforeAll(async () => {
+    // Mock OpenF1 API: one session with a red flag and an overtake
+    mockServer = Fastify({ logger: false });
+    mockServer.get('/sessions', async (request) => {
+      sessionQueries.push(request.query);
+      return [
+        { session_key: 9999, session_name: 'Race', year: 2025, meeting_name: 'Test GP' },
+      ];
+    });
+    mockServer.get('/drivers', async () => [
+      {
+        driver_number: 1,
+        name_acronym: 'VER',
+        team_name: 'Red Bull',
+        team_colour: '3671C6',
+      },
+      {
+        driver_number: 4,
+        name_acronym: 'NOR',
+        team_name: 'McLaren',
+        team_colour: 'FF8000',
+      },
+    ]);
+    mockServer.get('/race_control', async () => [
+      {
+        date: '2025-06-15T14:10:00Z',
+        category: 'Flag',
+        flag: 'RED',
+        message: 'RED FLAG',
+      },
+    ]);
+    mockServer.get('/position', async () => [
+      { driver_number: 1, position: 1, date: '2025-06-15T14:01:00Z' },
+      { driver_number: 4, position: 2, date: '2025-06-15T14:01:00Z' },
+    ]);
+    mockServer.get('/pit', async () => []);
+    await mockServer.listen({ port: 0, host: '127.0.0.1' });
+    const mockAddr = mockServer.server.address();
+    const mockPort = typeof mockAddr === 'object' && mockAddr ? mockAddr.port : 0;
+
+    tempDir = mkdtempSync(join(tmpdir(), 'f12mqtt-openf1-web-test-'));
+    app = await createApp({
+      port: 0,
+      host: '127.0.0.1',
+      recordingsDir: tempDir,
+      // No rate limit, or the several requests per session would slow the tests down,
+      // and quick retries once the mock server is gone
+      openf1Client: new OpenF1Client(`http://127.0.0.1:${mockPort}`, {
+        requestsPerSecond: 1000,
+        retryBaseMs: 10,
+      }),
+    });
+    const address = app.server.address();
+    const port = typeof address === 'object' && address ? address.port : 0;
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(async () => {
+    await app?.close();
+    await mockServer?.close();
+    if (tempDir) rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('lists sessions for a year', async () => {
+    const res = await fetch(`${baseUrl}/api/openf1/sessions?year=2025`);
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual([
+      expect.objectContaining({ session_key: 9999, meeting_name: 'Test GP' }),
+    ]);
+    expect(sessionQueries).toEqual([{ year: '2025' }]);
+  });
+
+  it('rejects an invalid year', async () => {
+    const res = await fetch(`${baseUrl}/api/openf1/sessions?year=latest`);
+    expect(res.status).toBe(400);
+  });
+
+  it('loads an OpenF1 session for playback in openf1 mode', async () => {
+    const res = await post('/api/playback/load', { source: 'openf1', sessionKey: 9999 });
+    expect(await res.json()).toEqual({ ok: true, entries: 2 });
+
+    const state = await playbackState();
+    expect(state.playbackState).toMatchObject({ mode: 'openf1', totalEntries: 2 });
+    expect(state.sessionState.drivers['4']?.abbreviation).toBe('NOR');
+
+    await post('/api/playback/command', {
+      command: 'seek',
+      value: '2025-06-15T14:30:00Z',
+    });
+    const seeked = await playbackState();
+    expect(seeked.sessionState.trackStatus.flag).toBe('red');
+  });
+
+  it('imports an OpenF1 session as a recording', async () => {
+    const res = await post('/api/recordings/import/openf1', { sessionKey: 9999 });
+    expect(res.status).toBe(200);
+    const imported = (await res.json()) as { dir: string; entries: number };
+    expect(imported).toMatchObject({
+      ok: true,
+      entries: 2,
+      metadata: { sessionKey: '9999', importedFrom: 'openf1' },
+    });
+
+    const sessions = (await (await fetch(`${baseUrl}/api/sessions`)).json()) as Array<{
+      dir: string;
+    }>;
+    expect(sessions.map((s) => s.dir)).toContain(imported.dir);
+
+    const again = await post('/api/recordings/import/openf1', { sessionKey: 9999 });
+    expect(again.status).toBe(409);
+    const overwritten = await post('/api/recordings/import/openf1', {
+      sessionKey: 9999,
+      overwrite: true,
+    });
+    expect(overwritten.status).toBe(200);
+
+    expect((await post('/api/recordings/import/openf1', {})).status).toBe(400);
+  });
+
+  it('requires a session key and reports OpenF1 failures', async () => {
+    expect((await post('/api/playback/load', { source: 'openf1' })).status).toBe(400);
+
+    await mockServer.close();
+    const res = await post('/api/playback/load', { source: 'openf1', sessionKey: 9999 });
+    expect(res.status).toBe(502);
+  });
+});
+
+describe('Recording management', () => {
+  let app: App;
+  let baseUrl: string;
+
+  function recordingsList() {
+    return fetch(`${baseUrl}/api/sessions`).then(
+      (res) =>
+        res.json() as Promise<
+          Array<{ id: string; metadata: { sessionName: string; tags?: string[] } }>
+        >,
+    );
+  }
+
+  function patch(id: string, body: object) {
+    return fetch(`${baseUrl}/api/recordings/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  }
+
+  function upload(archive: Buffer, query = '') {
+    return fetch(`${baseUrl}/api/recordings${query}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/gzip' },
+      body: archive,
+    });
+  }
+
+  let activeDir: string;
+  let janitor: RecordingJanitor;
+
+  beforeAll(async () => {
+    await recordFixtureSession();
+    activeDir = join(tempDir, '2025-live');
+    const autoRecorder = { getDirectory: () => activeDir };
+    mkdirSync(join(tempDir, '2025-live'));
+    writeFileSync(join(tempDir, '2025-live', 'metadata.json'), '{}');
+    janitor = new RecordingJanitor({
+      recordingsDir: tempDir,
+      policy: () => ({}),
+    });
+    app = await createApp({
+      port: 0,
+      host: '127.0.0.1',
+      recordingsDir: tempDir,
+      autoRecorder: autoRecorder as unknown as AutoRecorder,
+      janitor,
+    });
+    const address = app.server.address();
+    const port = typeof address === 'object' && address ? address.port : 0;
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(async () => {
+    await app?.close();
+    if (tempDir) rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('renames, tags and annotates a recording', async () => {
+    const res = await patch('2025-web-test', {
+      sessionName: ' Renamed GP ',
+      tags: ['wet', 'wet', ' classic '],
+      notes: 'Safety car on lap 1',
+    });
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({
+      ok: true,
+      id: '2025-web-test',
+      metadata: {
+        sessionKey: 'web-test',
+        sessionName: 'Renamed GP',
+        tags: ['wet', 'classic'],
+        notes: 'Safety car on lap 1',
+      },
+    });
+
+    const listed = (await recordingsList()).find((r) => r.id === '2025-web-test');
+    expect(listed?.metadata).toMatchObject({ sessionName: 'Renamed GP' });
+
+    expect((await patch('2025-web-test', { tags: 'wet' })).status).toBe(400);
+    expect((await patch('2025-web-test', { pinned: 'yes' })).status).toBe(400);
+    expect((await patch('2025-web-test', { sessionName: '' })).status).toBe(400);
+    expect((await patch('missing', { notes: '' })).status).toBe(404);
+  });
+
+  it('pins a recording and reports disk usage in the health check', async () => {
+    const res = await patch('2025-web-test', { pinned: true });
+    expect(await res.json()).toMatchObject({ metadata: { pinned: true } });
+
+    // The health check reports the janitor's last figures rather than measuring
+    const health = async () =>
+      (await (await fetch(`${baseUrl}/api/health`)).json()) as {
+        recordings: { recordings: number; pinned: number; totalBytes: number } | null;
+      };
+    expect((await health()).recordings).toBeNull();
+    janitor.run();
+    const { recordings } = await health();
+    expect(recordings).toMatchObject({ recordings: 2, pinned: 1 });
+    expect(recordings!.totalBytes).toBeGreaterThan(0);
+
+    await patch('2025-web-test', { pinned: false });
+  });
+
+  it('downloads a recording and uploads it back', async () => {
+    const res = await fetch(`${baseUrl}/api/recordings/2025-web-test/archive`);
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toBe('application/gzip');
+    expect(res.headers.get('content-disposition')).toBe(
+      'attachment; filename="2025-web-test.tar.gz"',
+    );
+    const archive = Buffer.from(await res.arrayBuffer());
+
+    expect((await upload(archive)).status).toBe(409);
+    const deleted = await fetch(`${baseUrl}/api/recordings/2025-web-test`, {
+      method: 'DELETE',
+    });
+    expect(await deleted.json()).toEqual({ ok: true });
+    expect((await recordingsList()).map((r) => r.id)).not.toContain('2025-web-test');
+
+    const uploaded = await upload(archive);
+    expect(uploaded.status).toBe(200);
+    expect(await uploaded.json()).toMatchObject({
+      ok: true,
+      id: '2025-web-test',
+      metadata: { sessionName: 'Renamed GP' },
+    });
+    expect((await upload(archive, '?overwrite=true')).status).toBe(200);
+
+    const load = await fetch(`${baseUrl}/api/playback/load`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ sessionDir }),
+    });
+    expect(await load.json()).toEqual({ ok: true, entries: RACE_MESSAGES.length - 1 });
+  });
+
+  it('checks and repairs a recording', async () => {
+    const check = async () => {
+      const res = await fetch(`${baseUrl}/api/recordings/2025-web-test/check`);
+      return res.json() as Promise<{ ok: boolean; missingEndTime: boolean }>;
+    };
+    expect(await check()).toMatchObject({ ok: false, missingEndTime: true });
+
+    const res = await fetch(`${baseUrl}/api/recordings/2025-web-test/repair`, {
+      method: 'POST',
+    });
+    expect(await res.json()).toMatchObject({
+      ok: true,
+      droppedLines: 0,
+      endTime: RACE_MESSAGES[RACE_MESSAGES.length - 1]!.timestamp,
+      report: { ok: true },
+    });
+    expect(await check()).toMatchObject({ ok: true });
+
+    const repair = (id: string) =>
+      fetch(`${baseUrl}/api/recordings/${id}/repair`, { method: 'POST' });
+    expect((await repair('nope')).status).toBe(404);
+    expect((await repair('2025-live')).status).toBe(409);
+  });
+
+  it('rejects bad uploads and unknown or active recordings', async () => {
+    expect((await upload(Buffer.from('not a tarball'))).status).toBe(400);
+
+    const remove = (id: string) =>
+      fetch(`${baseUrl}/api/recordings/${id}`, { method: 'DELETE' });
+    expect((await remove('..%2F..%2Fetc')).status).toBe(404);
+    expect((await remove('nope')).status).toBe(404);
+    expect((await remove('2025-live')).status).toBe(409);
+    expect((await fetch(`${baseUrl}/api/recordings/nope/archive`)).status).toBe(404);
+
+    // Not even an overwriting upload replaces the recording in progress
+    const res = await fetch(`${baseUrl}/api/recordings/2025-web-test/archive`);
+    const archive = Buffer.from(await res.arrayBuffer());
+    activeDir = join(tempDir, '2025-web-test');
+    try {
+      const uploaded = await upload(archive, '?overwrite=true');
+      expect(uploaded.status).toBe(409);
+      expect(await uploaded.json()).toEqual({
+        error: `Recording is in progress: ${activeDir}`,
+      });
+    } finally {
+      activeDir = join(tempDir, '2025-live');
+    }
+  });
+});
@@ -0,0 +1,217 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { AutoRecorder, recordingKey } from '../../src/recording/auto-recorder.js';
+import { SignalRPipeline } from '../../src/signalr/pipeline.js';
+import {
+  listRecordings,
+  loadInitialState,
+  loadTimeline,
+  updateRecordingMetadata,
+} from '../../src/recording/storage.js';
+import type { SignalRMessage } from '../../src/signalr/client.js';
+
+const SESSION_INFO: SignalRMessage = {
+  topic: 'SessionInfo',
+  data: {
+    Key: 9693,
+    Meeting: { Name: 'British Grand Prix', Circuit: { ShortName: 'Silverstone' } },
+    Name: 'Race',
+    StartDate: '2025-07-06T14:00:00Z',
+  },
+  timestamp: '2025-07-06T13:00:00Z',
+};
+
+function status(Status: string, timestamp: string): SignalRMessage {
+  return { topic: 'SessionStatus', data: { Status }, timestamp };
+}
+
+describe('AutoRecorder', () => {
+  let tempDir: string;
+  let enabled: boolean;
+  let compress: boolean;
+
+  afterEach(() => {
+    if (tempDir) rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function setup() {
+    tempDir = mkdtempSync(join(tmpdir(), 'f12mqtt-auto-'));
+    enabled = true;
+    compress = false;
+    const pipeline = new SignalRPipeline();
+    const recorder = new AutoRecorder({
+      recordingsDir: tempDir,
+      isEnabled: () => enabled,
+      compress: () => compress,
+    });
+    const feed = async (msg: SignalRMessage) =>
+      recorder.handleUpdate(pipeline.processMessage(msg));
+    return { recorder, feed };
+  }
+
+  it('records a session from SessionInfo until it is finalised', async () => {
+    const { recorder, feed } = setup();
+
+    await feed(SESSION_INFO);
+    expect(recorder.isRecording()).toBe(false); // waits for SessionStatus
+
+    await feed(status('Inactive', '2025-07-06T13:00:01Z'));
+    expect(recorder.isRecording()).toBe(true);
+
+    await feed({
+      topic: 'LapCount',
+      data: { CurrentLap: 1, TotalLaps: 52 },
+      timestamp: 'T1',
+    });
+    await feed(status('Started', '2025-07-06T14:00:00Z'));
+    await feed(status('Finished', '2025-07-06T15:30:00Z'));
+    await feed(status('Finalised', '2025-07-06T15:45:00Z'));
+    expect(recorder.isRecording()).toBe(false);
+
+    const recordings = listRecordings(tempDir);
+    expect(recordings).toHaveLength(1);
+    const { dir, metadata } = recordings[0]!;
+    expect(dir).toBe(join(tempDir, '2025-9693'));
+    expect(metadata).toEqual({
+      sessionKey: '9693',
+      year: 2025,
+      sessionName: 'British Grand Prix - Race',
+      sessionType: 'Race',
+      circuit: 'Silverstone',
+      startTime: '2025-07-06T14:00:00Z',
+      endTime: '2025-07-06T15:45:00Z',
+    });
+
+    expect(loadInitialState(dir)?.sessionInfo?.name).toBe('British Grand Prix');
+    expect((await loadTimeline(dir)).map((e) => e.topic)).toEqual([
+      'LapCount',
+      'SessionStatus',
+      'SessionStatus',
+      'SessionStatus',
+    ]);
+
+    // Messages after the end are not recorded, and the session is not restarted
+    await feed(status('Finalised', '2025-07-06T15:50:00Z'));
+    expect(recorder.isRecording()).toBe(false);
+  });
+
+  it('does not record a session that is already finalised', async () => {
+    const { recorder, feed } = setup();
+    await feed(SESSION_INFO);
+    await feed(status('Finalised', '2025-07-06T16:00:00Z'));
+    expect(recorder.isRecording()).toBe(false);
+    expect(listRecordings(tempDir)).toEqual([]);
+  });
+
+  it('respects the autoRecord toggle', async () => {
+    const { recorder, feed } = setup();
+    enabled = false;
+    await feed(SESSION_INFO);
+    await feed(status('Started', '2025-07-06T14:00:00Z'));
+    expect(recorder.isRecording()).toBe(false);
+  });
+
+  it('compresses the message log when compressRecordings is on', async () => {
+    const { recorder, feed } = setup();
+    compress = true;
+    await feed(SESSION_INFO);
+    await feed(status('Inactive', '2025-07-06T13:00:01Z'));
+    await feed(status('Started', '2025-07-06T14:00:00Z'));
+    await recorder.stop();
+
+    const dir = join(tempDir, '2025-9693');
+    expect(existsSync(join(dir, 'live.jsonl.gz'))).toBe(true);
+    expect((await loadTimeline(dir)).map((e) => e.topic)).toEqual(['SessionStatus']);
+  });
+
+  it('keeps metadata edited while recording when the session ends', async () => {
+    const { recorder, feed } = setup();
+    await feed(SESSION_INFO);
+    await feed(status('Started', '2025-07-06T14:00:00Z'));
+    const dir = join(tempDir, '2025-9693');
+    updateRecordingMetadata(dir, { pinned: true, notes: 'Wet race' });
+
+    await feed(status('Finalised', '2025-07-06T15:45:00Z'));
+    expect(recorder.isRecording()).toBe(false);
+    expect(listRecordings(tempDir)[0]?.metadata).toMatchObject({
+      pinned: true,
+      notes: 'Wet race',
+      endTime: '2025-07-06T15:45:00Z',
+    });
+  });
+
+  it('stops without an end time when asked to', async () => {
+    const { recorder, feed } = setup();
+    await feed(SESSION_INFO);
+    await feed(status('Started', '2025-07-06T14:00:00Z'));
+    await recorder.stop();
+
+    const metadata = JSON.parse(
+      readFileSync(join(tempDir, '2025-9693', 'metadata.json'), 'utf-8'),
+    ) as Record<string, unknown>;
+    expect(metadata['endTime']).toBeUndefined();
+  });
+
+  it('resumes a session after a restart without losing the snapshot or edits', async () => {
+    const first = setup();
+    await first.feed(SESSION_INFO);
+    await first.feed(status('Started', '2025-07-06T14:00:00Z'));
+    await first.feed({
+      topic: 'LapCount',
+      data: { CurrentLap: 1, TotalLaps: 52 },
+      timestamp: '2025-07-06T14:02:00Z',
+    });
+    await first.recorder.stop();
+
+    const dir = join(tempDir, '2025-9693');
+    const subscribe = readFileSync(join(dir, 'subscribe.json'), 'utf-8');
+    updateRecordingMetadata(dir, { sessionName: 'Renamed', tags: ['wet'], pinned: true });
+
+    // A fresh process reconnects mid-session with a new snapshot
+    const pipeline = new SignalRPipeline();
+    const second = new AutoRecorder({ recordingsDir: tempDir, isEnabled: () => true });
+    const feed = async (msg: SignalRMessage) =>
+      second.handleUpdate(pipeline.processMessage(msg));
+    await feed(SESSION_INFO);
+    await feed({
+      topic: 'LapCount',
+      data: { CurrentLap: 20, TotalLaps: 52 },
+      timestamp: '2025-07-06T14:40:00Z',
+    });
+    await feed(status('Started', '2025-07-06T14:40:01Z'));
+    expect(second.isRecording()).toBe(true);
+    await feed(status('Finalised', '2025-07-06T15:45:00Z'));
+
+    expect(readFileSync(join(dir, 'subscribe.json'), 'utf-8')).toBe(subscribe);
+    expect(listRecordings(tempDir)[0]?.metadata).toMatchObject({
+      sessionName: 'Renamed',
+      tags: ['wet'],
+      pinned: true,
+      startTime: '2025-07-06T14:00:00Z',
+      endTime: '2025-07-06T15:45:00Z',
+    });
+    // The new snapshot goes into the log at the resume time, not lost
+    const entries = (await loadTimeline(dir)).map((e) => [e.timestamp, e.topic, e.data]);
+    expect(entries).toEqual([
+      ['2025-07-06T14:02:00Z', 'LapCount', { CurrentLap: 1, TotalLaps: 52 }],
+      ['2025-07-06T14:40:01Z', 'SessionInfo', SESSION_INFO.data],
+      ['2025-07-06T14:40:01Z', 'LapCount', { CurrentLap: 20, TotalLaps: 52 }],
+      ['2025-07-06T14:40:01Z', 'SessionStatus', { Status: 'Started' }],
+      ['2025-07-06T15:45:00Z', 'SessionStatus', { Status: 'Finalised' }],
+    ]);
+  });
+
+  it('derives a key from the session when the feed has none', () => {
+    expect(
+      recordingKey({
+        name: 'British Grand Prix',
+        type: 'Practice',
+        circuit: '',
+        country: '',
+        startTime: '2025-07-04T11:30:00Z',
+      }),
+    ).toBe('british-grand-prix-practice-2025-07-04t11-30-00z');
+  });
+});
@@ -6,12 +6,22 @@ import {
   flagNotification,
   overtakeNotification,
   pitStopNotification,
+  fastestLapNotification,
+  personalBestNotification,
+  retirementNotification,
   topThreeApp,
   awtrixCustomAppTopic,
   awtrixNotifyTopic,
 } from '../../src/mqtt/awtrix.js';
 import type { AwtrixTextFragment } from '../../src/mqtt/awtrix.js';
-import type { FlagChangeEvent, OvertakeEvent, PitStopEvent } from '../../src/events/types.js';
+import type {
+  FlagChangeEvent,
+  OvertakeEvent,
+  PitStopEvent,
+  FastestLapEvent,
+  PersonalBestEvent,
+  RetirementEvent,
+} from '../../src/events/types.js';
 import type { TopThreeEntry } from '../../src/data/types.js';
 
 describe('AWTRIX payloads', () => {
@@ -122,6 +132,59 @@ describe('AWTRIX payloads', () => {
     });
   });
 
+  describe('fastestLapNotification', () => {
+    it('uses a purple background with the lap time', () => {
+      const event: FastestLapEvent = {
+        type: 'fastest_lap',
+        timestamp: '2025-01-01T00:00:00Z',
+        driverNumber: '16',
+        abbreviation: 'LEC',
+        teamColor: 'ED1131',
+        lapTime: '1:31.234',
+      };
+      const notif = fastestLapNotification(event);
+      const text = notif.text as AwtrixTextFragment[];
+      expect(notif.background).toBe('8A2BE2');
+      expect(text[1]).toEqual({ t: 'LEC', c: 'ED1131' });
+      expect(text[2]).toEqual({ t: ' 1:31.234', c: 'FFFFFF' });
+    });
+  });
+
+  describe('personalBestNotification', () => {
+    it('shows the driver in team color with green PB text', () => {
+      const event: PersonalBestEvent = {
+        type: 'personal_best',
+        timestamp: '2025-01-01T00:00:00Z',
+        driverNumber: '44',
+        abbreviation: 'HAM',
+        teamColor: 'ED1131',
+        lapTime: '1:32.000',
+        previousLapTime: '1:32.400',
+      };
+      const text = personalBestNotification(event).text as AwtrixTextFragment[];
+      expect(text[0]).toEqual({ t: 'PB ', c: '00FF00' });
+      expect(text[1]).toEqual({ t: 'HAM', c: 'ED1131' });
+    });
+  });
+
+  describe('retirementNotification', () => {
+    it('uses the team color as background', () => {
+      const event: RetirementEvent = {
+        type: 'retirement',
+        timestamp: '2025-01-01T00:00:00Z',
+        driverNumber: '14',
+        abbreviation: 'ALO',
+        teamColor: '229971',
+        lap: 33,
+        lastPosition: 9,
+        stopped: false,
+      };
+      const notif = retirementNotification(event);
+      expect(notif.text).toBe('OUT ALO');
+      expect(notif.background).toBe('229971');
+    });
+  });
+
   describe('topThreeApp', () => {
     it('builds top three app with colored abbreviations', () => {
       const topThree: TopThreeEntry[] = [
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { DelayBuffer, MAX_DELAY_MS } from '../../src/signalr/delay-buffer.js';
+import type { SignalRMessage } from '../../src/signalr/client.js';
+
+function message(n: number): SignalRMessage {
+  return { topic: 'TrackStatus', data: { n }, timestamp: `2025-01-01T00:00:0${n}Z` };
+}
+
+describe('DelayBuffer', () => {
+  let buffer: DelayBuffer;
+  let released: number[];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    buffer = new DelayBuffer(10_000);
+    released = [];
+    buffer.on('message', (msg: SignalRMessage) => {
+      released.push((msg.data as { n: number }).n);
+    });
+  });
+
+  afterEach(() => {
+    buffer.clear();
+    vi.useRealTimers();
+  });
+
+  it('passes messages straight through with no delay', () => {
+    buffer.setDelay(0);
+    buffer.push(message(1));
+    expect(released).toEqual([1]);
+    expect(buffer.size()).toBe(0);
+  });
+
+  it('releases each message once it is delay ms old, in order', () => {
+    buffer.push(message(1));
+    vi.advanceTimersByTime(4_000);
+    buffer.push(message(2));
+
+    vi.advanceTimersByTime(5_999);
+    expect(released).toEqual([]);
+    vi.advanceTimersByTime(1);
+    expect(released).toEqual([1]);
+    vi.advanceTimersByTime(4_000);
+    expect(released).toEqual([1, 2]);
+  });
+
+  it('releases messages that are now due when the delay is shortened', () => {
+    buffer.push(message(1));
+    vi.advanceTimersByTime(3_000);
+    buffer.push(message(2));
+    vi.advanceTimersByTime(3_000);
+
+    buffer.setDelay(5_000);
+    expect(released).toEqual([1]);
+    vi.advanceTimersByTime(2_000);
+    expect(released).toEqual([1, 2]);
+  });
+
+  it('holds messages back further when the delay is lengthened', () => {
+    buffer.push(message(1));
+    vi.advanceTimersByTime(9_000);
+    buffer.nudge(5_000);
+    vi.advanceTimersByTime(5_999);
+    expect(released).toEqual([]);
+    vi.advanceTimersByTime(1);
+    expect(released).toEqual([1]);
+  });
+
+  it('clamps the delay and reports changes', () => {
+    const changes: number[] = [];
+    buffer.on('delayChange', (ms: number) => changes.push(ms));
+
+    buffer.nudge(-60_000);
+    buffer.setDelay(0);
+    buffer.setDelay(MAX_DELAY_MS + 1);
+    expect(changes).toEqual([0, MAX_DELAY_MS]);
+  });
+
+  it('releases every buffered message at once on flush', () => {
+    buffer.push(message(1));
+    vi.advanceTimersByTime(5_000);
+    buffer.push(message(2));
+    buffer.flush();
+    expect(released).toEqual([1, 2]);
+    expect(buffer.size()).toBe(0);
+
+    vi.advanceTimersByTime(10_000);
+    expect(released).toEqual([1, 2]);
+  });
+
+  it('drops buffered messages on clear', () => {
+    buffer.push(message(1));
+    buffer.clear();
+    vi.advanceTimersByTime(10_000);
+    expect(released).toEqual([]);
+  });
+});
@@ -3,6 +3,16 @@ import { detectFlagChange } from '../../src/events/flag-detector.js';
 import { detectOvertakes } from '../../src/events/overtake-detector.js';
 import { detectPitStops } from '../../src/events/pit-detector.js';
 import { detectWeatherChange } from '../../src/events/weather-detector.js';
+import {
+  detectFastestLap,
+  detectPersonalBests,
+} from '../../src/events/fastest-lap-detector.js';
+import { detectRetirements } from '../../src/events/retirement-detector.js';
+import {
+  classifyRaceControlMessage,
+  detectRaceControlEvents,
+} from '../../src/events/race-control-detector.js';
+import { detectSessionLifecycle } from '../../src/events/session-detector.js';
 import type { SessionState } from '../../src/data/types.js';
 import { createEmptySessionState } from '../../src/data/types.js';
 
@@ -745,3 +755,358 @@ describe('detectWeatherChange', () => {
     expect(events[0]?.newRainfall).toBe(true);
   });
 });
+
+// ─── Fastest Lap / Personal Best Detector ────────────────────────
+
+function timingWithBest(driverNumber: string, bestLapTime: string) {
+  return {
+    driverNumber,
+    position: 1,
+    gapToLeader: '',
+    interval: '',
+    lastLapTime: bestLapTime,
+    bestLapTime,
+    sector1: '',
+    sector2: '',
+    sector3: '',
+    inPit: false,
+    retired: false,
+    stopped: false,
+  };
+}
+
+describe('detectFastestLap', () => {
+  const drivers = {
+    '1': { driverNumber: '1', abbreviation: 'VER', firstName: '', lastName: '', teamName: '', teamColor: '4781D7', countryCode: '' },
+    '16': { driverNumber: '16', abbreviation: 'LEC', firstName: '', lastName: '', teamName: '', teamColor: 'ED1131', countryCode: '' },
+  };
+
+  it('detects a new overall fastest lap', () => {
+    const prev = makeState({
+      drivers,
+      timing: { '1': timingWithBest('1', '1:32.500'), '16': timingWithBest('16', '1:32.800') },
+    });
+    const curr = makeState({
+      drivers,
+      timing: {
+        '1': timingWithBest('1', '1:32.500'),
+        '16': { ...timingWithBest('16', '1:32.100'), lapsCompleted: 12 },
+      },
+      timestamp: '2025-01-01T00:00:00Z',
+    });
+    const events = detectFastestLap(prev, curr);
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      type: 'fastest_lap',
+      driverNumber: '16',
+      abbreviation: 'LEC',
+      teamColor: 'ED1131',
+      lapTime: '1:32.100',
+      lap: 12,
+      previousDriverNumber: '1',
+      previousLapTime: '1:32.500',
+    });
+  });
+
+  it('ignores a personal best slower than the overall fastest', () => {
+    const prev = makeState({
+      timing: { '1': timingWithBest('1', '1:32.500'), '16': timingWithBest('16', '1:33.000') },
+    });
+    const curr = makeState({
+      timing: { '1': timingWithBest('1', '1:32.500'), '16': timingWithBest('16', '1:32.700') },
+    });
+    expect(detectFastestLap(prev, curr)).toHaveLength(0);
+  });
+
+  it('reports the first timed lap without a previous holder', () => {
+    const prev = makeState({ timing: { '1': timingWithBest('1', '') } });
+    const curr = makeState({ timing: { '1': timingWithBest('1', '1:35.000') } });
+    const events = detectFastestLap(prev, curr);
+    expect(events).toHaveLength(1);
+    expect(events[0]?.previousLapTime).toBeUndefined();
+  });
+
+  it('returns empty when nobody has a lap time', () => {
+    expect(detectFastestLap(makeState(), makeState())).toHaveLength(0);
+  });
+});
+
+describe('detectPersonalBests', () => {
+  it('detects an improved best lap for a watched driver', () => {
+    const prev = makeState({ timing: { '44': timingWithBest('44', '1:33.000') } });
+    const curr = makeState({ timing: { '44': timingWithBest('44', '1:32.900') } });
+    const events = detectPersonalBests(prev, curr, ['44']);
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      type: 'personal_best',
+      driverNumber: '44',
+      lapTime: '1:32.900',
+      previousLapTime: '1:33.000',
+    });
+  });
+
+  it('ignores drivers not in the watch list', () => {
+    const prev = makeState({ timing: { '44': timingWithBest('44', '1:33.000') } });
+    const curr = makeState({ timing: { '44': timingWithBest('44', '1:32.900') } });
+    expect(detectPersonalBests(prev, curr, ['1'])).toHaveLength(0);
+  });
+
+  it('does not treat the first timed lap as a personal best', () => {
+    const prev = makeState({ timing: { '44': timingWithBest('44', '') } });
+    const curr = makeState({ timing: { '44': timingWithBest('44', '1:33.000') } });
+    expect(detectPersonalBests(prev, curr, ['44'])).toHaveLength(0);
+  });
+});
+
+// ─── Retirement Detector ─────────────────────────────────────────
+
+describe('detectRetirements', () => {
+  const running = { ...timingWithBest('14', '1:34.000'), position: 9, lapsCompleted: 33 };
+
+  it('detects a driver retiring with the race control reason', () => {
+    const prev = makeState({ timing: { '14': running } });
+    const curr = makeState({
+      timing: { '14': { ...running, retired: true, stopped: true } },
+      drivers: {
+        '14': { driverNumber: '14', abbreviation: 'ALO', firstName: '', lastName: '', teamName: '', teamColor: '229971', countryCode: '' },
+      },
+      driverRaceControl: {
+        '14': { utc: '', message: 'CAR 14 (ALO) STOPPED AT TURN 7', category: 'Other' },
+      },
+      timestamp: '2025-01-01T00:00:00Z',
+    });
+    const events = detectRetirements(prev, curr);
+    expect(events).toHaveLength(1);
+    expect(events[0]).toEqual({
+      type: 'retirement',
+      timestamp: '2025-01-01T00:00:00Z',
+      driverNumber: '14',
+      abbreviation: 'ALO',
+      teamColor: '229971',
+      lap: 33,
+      lastPosition: 9,
+      stopped: true,
+      raceControlMessage: 'CAR 14 (ALO) STOPPED AT TURN 7',
+    });
+  });
+
+  it('falls back to the session lap count', () => {
+    const noLaps = { ...running, lapsCompleted: undefined };
+    const prev = makeState({ timing: { '14': noLaps } });
+    const curr = makeState({
+      timing: { '14': { ...noLaps, retired: true } },
+      lapCount: { current: 40, total: 57 },
+    });
+    expect(detectRetirements(prev, curr)[0]?.lap).toBe(40);
+  });
+
+  it('does not re-report drivers that were already retired', () => {
+    const retired = { ...running, retired: true };
+    const state = makeState({ timing: { '14': retired } });
+    expect(detectRetirements(state, state)).toHaveLength(0);
+  });
+
+  it('ignores drivers first seen as retired', () => {
+    const prev = makeState();
+    const curr = makeState({ timing: { '14': { ...running, retired: true } } });
+    expect(detectRetirements(prev, curr)).toHaveLength(0);
+  });
+});
+
+// ─── Race Control Detector ───────────────────────────────────────
+
+describe('classifyRaceControlMessage', () => {
+  const state = makeState({
+    drivers: {
+      '1': { driverNumber: '1', abbreviation: 'VER', firstName: '', lastName: '', teamName: '', teamColor: '4781D7', countryCode: '' },
+    },
+  });
+  const rcm = (message: string, extra: Record<string, unknown> = {}) => ({
+    utc: '2025-01-01T14:00:00',
+    message,
+    category: 'Other',
+    ...extra,
+  });
+
+  it('classifies a time penalty', () => {
+    const events = classifyRaceControlMessage(
+      rcm('FIA STEWARDS: 5 SECOND TIME PENALTY FOR CAR 1 (VER) - CAUSING A COLLISION'),
+      state,
+    );
+    expect(events).toEqual([
+      {
+        type: 'penalty',
+        timestamp: '2025-01-01T14:00:00',
+        driverNumber: '1',
+        abbreviation: 'VER',
+        teamColor: '4781D7',
+        message: 'FIA STEWARDS: 5 SECOND TIME PENALTY FOR CAR 1 (VER) - CAUSING A COLLISION',
+        penaltyType: 'time',
+        seconds: 5,
+        reason: 'CAUSING A COLLISION',
+      },
+    ]);
+  });
+
+  it('classifies drive-through and stop/go penalties', () => {
+    const dt = classifyRaceControlMessage(
+      rcm('FIA STEWARDS: DRIVE THROUGH PENALTY FOR CAR 44 (HAM) - PIT LANE SPEEDING'),
+      state,
+    );
+    expect(dt[0]).toMatchObject({ penaltyType: 'drive_through', driverNumber: '44' });
+
+    const sg = classifyRaceControlMessage(
+      rcm('FIA STEWARDS: 10 SECOND STOP/GO PENALTY FOR CAR 44 (HAM) - UNSAFE RELEASE'),
+      state,
+    );
+    expect(sg[0]).toMatchObject({ penaltyType: 'stop_go', seconds: 10 });
+  });
+
+  it('emits an investigation per involved car', () => {
+    const events = classifyRaceControlMessage(
+      rcm('FIA STEWARDS: TURN 1 INCIDENT INVOLVING CARS 1 (VER) AND 4 (NOR) UNDER INVESTIGATION - CAUSING A COLLISION'),
+      state,
+    );
+    expect(events.map((e) => e.driverNumber)).toEqual(['1', '4']);
+    expect(events[0]).toMatchObject({ type: 'investigation', status: 'under_investigation' });
+  });
+
+  it('classifies noted incidents and no further action', () => {
+    const noted = classifyRaceControlMessage(
+      rcm('FIA STEWARDS: TURN 4 INCIDENT INVOLVING CAR 16 (LEC) NOTED - FORCING ANOTHER DRIVER OFF THE TRACK'),
+      state,
+    );
+    expect(noted[0]).toMatchObject({ status: 'noted', driverNumber: '16' });
+
+    const nfa = classifyRaceControlMessage(
+      rcm('FIA STEWARDS: TURN 4 INCIDENT INVOLVING CAR 16 (LEC) REVIEWED NO FURTHER INVESTIGATION'),
+      state,
+    );
+    expect(nfa[0]).toMatchObject({ status: 'no_further_action' });
+  });
+
+  it('classifies a deleted lap for track limits', () => {
+    const events = classifyRaceControlMessage(
+      rcm('CAR 1 (VER) TIME 1:32.456 DELETED - TRACK LIMITS AT TURN 4 LAP 12 14:03:22'),
+      state,
+    );
+    expect(events[0]).toMatchObject({
+      type: 'track_limits_deleted_lap',
+      driverNumber: '1',
+      lapTime: '1:32.456',
+      turn: '4',
+      lap: 12,
+    });
+  });
+
+  it('classifies blue and black-and-white flags from the flag field', () => {
+    const blue = classifyRaceControlMessage(
+      rcm('WAVED BLUE FLAG FOR CAR 22 (TSU) TIMED AT 14:22:11', {
+        category: 'Flag',
+        flag: 'BLUE',
+        scope: 'Driver',
+        racingNumber: '22',
+      }),
+      state,
+    );
+    expect(blue[0]).toMatchObject({ type: 'blue_flag', driverNumber: '22' });
+
+    const bw = classifyRaceControlMessage(
+      rcm('BLACK AND WHITE FLAG FOR CAR 1 (VER) - TRACK LIMITS', {
+        category: 'Flag',
+        flag: 'BLACK AND WHITE',
+        racingNumber: '1',
+      }),
+      state,
+    );
+    expect(bw[0]).toMatchObject({ type: 'black_and_white', abbreviation: 'VER' });
+  });
+
+  it('ignores messages that are not about a car', () => {
+    expect(classifyRaceControlMessage(rcm('GREEN LIGHT - PIT EXIT OPEN'), state)).toEqual([]);
+    expect(classifyRaceControlMessage(rcm('DRS ENABLED'), state)).toEqual([]);
+  });
+});
+
+describe('detectRaceControlEvents', () => {
+  it('only classifies messages added since the previous snapshot', () => {
+    const old = {
+      utc: 'T1',
+      message: 'FIA STEWARDS: 5 SECOND TIME PENALTY FOR CAR 1 (VER) - TRACK LIMITS',
+      category: 'Other',
+    };
+    const added = {
+      utc: 'T2',
+      message: 'FIA STEWARDS: 10 SECOND TIME PENALTY FOR CAR 4 (NOR) - CAUSING A COLLISION',
+      category: 'Other',
+    };
+    const prev = makeState({ raceControlMessages: [old] });
+    const curr = makeState({ raceControlMessages: [old, added] });
+    const events = detectRaceControlEvents(prev, curr);
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ type: 'penalty', driverNumber: '4', seconds: 10 });
+  });
+});
+
+// ─── Session Lifecycle Detector ──────────────────────────────────
+
+describe('detectSessionLifecycle', () => {
+  it('detects the session starting', () => {
+    const events = detectSessionLifecycle(
+      makeState({ sessionPhase: 'Inactive' }),
+      makeState({ sessionPhase: 'Started', timestamp: 'T1' }),
+    );
+    expect(events).toEqual([
+      { type: 'session_started', timestamp: 'T1', previousPhase: 'Inactive' },
+    ]);
+  });
+
+  it('reports a restart after a red flag via previousPhase', () => {
+    const events = detectSessionLifecycle(
+      makeState({ sessionPhase: 'Aborted' }),
+      makeState({ sessionPhase: 'Started' }),
+    );
+    expect(events[0]).toMatchObject({ type: 'session_started', previousPhase: 'Aborted' });
+  });
+
+  it('reports finishing once across Finished and Finalised', () => {
+    const started = makeState({ sessionPhase: 'Started' });
+    const finished = makeState({ sessionPhase: 'Finished' });
+    const finalised = makeState({ sessionPhase: 'Finalised' });
+    expect(detectSessionLifecycle(started, finished)).toEqual([
+      { type: 'session_finished', timestamp: '', phase: 'Finished' },
+    ]);
+    expect(detectSessionLifecycle(finished, finalised)).toEqual([]);
+  });
+
+  it('detects the chequered flag with the leader', () => {
+    const timing = {
+      '1': timingWithBest('1', '1:30.000'),
+      '4': { ...timingWithBest('4', '1:30.500'), position: 2 },
+    };
+    const events = detectSessionLifecycle(
+      makeState({ timing }),
+      makeState({
+        timing,
+        drivers: {
+          '1': { driverNumber: '1', abbreviation: 'VER', firstName: '', lastName: '', teamName: '', teamColor: '3671C6', countryCode: '' },
+        },
+        trackStatus: { flag: 'chequered' },
+      }),
+    );
+    expect(events).toEqual([
+      {
+        type: 'chequered_flag',
+        timestamp: '',
+        leaderNumber: '1',
+        leaderAbbreviation: 'VER',
+        leaderTeamColor: '3671C6',
+      },
+    ]);
+  });
+
+  it('ignores an unchanged phase and flag', () => {
+    const state = makeState({ sessionPhase: 'Started', trackStatus: { flag: 'chequered' } });
+    expect(detectSessionLifecycle(state, state)).toEqual([]);
+  });
+});
@@ -7,10 +7,14 @@ import {
   lapCountEntity,
   driverPositionEntity,
   driverTyreEntity,
+  driverTelemetryEntity,
+  drsEntity,
+  sectorYellowEntity,
   ephemeralEntities,
   persistentEntities,
   lastWinnerEntity,
   nextRaceEntity,
+  recordingsDiskUsageEntity,
 } from '../../src/mqtt/ha-discovery.js';
 
 const PREFIX = 'f12mqtt';
@@ -65,18 +69,49 @@ describe('HA Discovery', () => {
       expect(entity.value_template).toBe('{{ value_json.compound }}');
       expect(entity.json_attributes_topic).toBe('f12mqtt/driver/44/tyre');
     });
+
+    it('driverTelemetryEntity reports speed in km/h', () => {
+      const entity = driverTelemetryEntity(PREFIX, '16');
+      expect(entity.unique_id).toBe('f12mqtt_driver_16_telemetry');
+      expect(entity.state_topic).toBe('f12mqtt/driver/16/telemetry');
+      expect(entity.value_template).toBe('{{ value_json.speed }}');
+      expect(entity.unit_of_measurement).toBe('km/h');
+    });
+  });
+
+  describe('binary sensors', () => {
+    it('builds binary_sensor discovery topics', () => {
+      expect(discoveryTopic('drs', 'binary_sensor')).toBe(
+        'homeassistant/binary_sensor/f12mqtt/drs/config',
+      );
+    });
+
+    it('drsEntity maps enabled/disabled to on/off', () => {
+      const entity = drsEntity(PREFIX);
+      expect(entity.state_topic).toBe('f12mqtt/session/drs');
+      expect(entity.payload_on).toBe('enabled');
+      expect(entity.payload_off).toBe('disabled');
+    });
+
+    it('sectorYellowEntity reads its sector from the sectors topic', () => {
+      const entity = sectorYellowEntity(PREFIX, '5');
+      expect(entity.unique_id).toBe('f12mqtt_sector_5_yellow');
+      expect(entity.state_topic).toBe('f12mqtt/session/sectors');
+      expect(entity.value_template).toContain("value_json['5']");
+      expect(entity.payload_on).toBe('ON');
+    });
   });
 
   describe('ephemeralEntities', () => {
     it('generates base entities + per-driver entities', () => {
       const entities = ephemeralEntities(PREFIX, ['1', '44']);
-      // 9 base + 3 per driver × 2 drivers = 15
-      expect(entities).toHaveLength(15);
+      // 12 base + 4 per driver × 2 drivers = 20
+      expect(entities).toHaveLength(20);
     });
 
     it('generates base entities only when no favorites', () => {
       const entities = ephemeralEntities(PREFIX, []);
-      expect(entities).toHaveLength(9);
+      expect(entities).toHaveLength(12);
     });
 
     it('includes race control entity', () => {
@@ -89,9 +124,9 @@ describe('HA Discovery', () => {
   });
 
   describe('persistentEntities', () => {
-    it('generates 4 persistent entities', () => {
+    it('generates 5 persistent entities', () => {
       const entities = persistentEntities(PREFIX);
-      expect(entities).toHaveLength(4);
+      expect(entities).toHaveLength(5);
     });
 
     it('lastWinnerEntity has correct structure', () => {
@@ -100,6 +135,14 @@ describe('HA Discovery', () => {
       expect(entity.icon).toBe('mdi:trophy');
     });
 
+    it('recordingsDiskUsageEntity is a diagnostic sensor in MB', () => {
+      const entity = recordingsDiskUsageEntity(PREFIX);
+      expect(entity.unique_id).toBe('f12mqtt_recordings_disk_usage');
+      expect(entity.state_topic).toBe('f12mqtt/recordings/usage');
+      expect(entity.unit_of_measurement).toBe('MB');
+      expect(entity.entity_category).toBe('diagnostic');
+    });
+
     it('nextRaceEntity has correct structure', () => {
       const entity = nextRaceEntity(PREFIX);
       expect(entity.unique_id).toBe('f12mqtt_next_race');
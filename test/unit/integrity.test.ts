@@ -0,0 +1,178 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { checkRecording, repairRecording } from '../../src/recording/integrity.js';
+import { loadTimeline } from '../../src/recording/storage.js';
+import { mkdtempSync, readFileSync, readdirSync, rmSync, writeFileSync } from 'node:fs';
+import { randomBytes } from 'node:crypto';
+import { gzipSync } from 'node:zlib';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+const METADATA = {
+  sessionKey: 'crash',
+  year: 2025,
+  sessionName: 'Crash GP - Race',
+  sessionType: 'Race',
+  circuit: 'Test',
+  startTime: '2025-06-15T14:00:00Z',
+};
+
+const line = (ts: string, topic = 'Heartbeat') => JSON.stringify({ ts, topic, data: {} });
+
+describe('Recording integrity', () => {
+  let tempDir: string;
+
+  afterEach(() => {
+    if (tempDir) rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  /** A recording as a crash leaves it: no endTime, and the last line cut off */
+  function crashedRecording(log: string, file = 'live.jsonl', content?: Buffer) {
+    tempDir = mkdtempSync(join(tmpdir(), 'f12mqtt-integrity-test-'));
+    writeFileSync(join(tempDir, 'metadata.json'), JSON.stringify(METADATA));
+    writeFileSync(join(tempDir, 'subscribe.json'), '{}');
+    writeFileSync(join(tempDir, file), content ?? log);
+    return tempDir;
+  }
+
+  const CRASHED_LOG = [
+    line('2025-06-15T14:00:01.000Z'),
+    'not json',
+    line('2025-06-15T14:00:03.000Z'),
+    line('2025-06-15T14:00:02.000Z'),
+    line('2025-06-15T14:05:00.000Z'),
+    '{"ts":"2025-06-15T14:05:01.000Z","topic":"Car',
+  ].join('\n');
+
+  it('reports malformed lines, disorder, gaps and a missing end time', async () => {
+    const dir = crashedRecording(CRASHED_LOG);
+
+    const report = await checkRecording(dir);
+
+    expect(report).toMatchObject({
+      ok: false,
+      entries: 4,
+      firstTimestamp: '2025-06-15T14:00:01.000Z',
+      lastTimestamp: '2025-06-15T14:05:00.000Z',
+      missingSubscribe: false,
+      missingEndTime: true,
+      malformedCount: 2,
+      malformedLines: [2, 6],
+      truncated: true,
+      readError: null,
+      outOfOrderCount: 1,
+      outOfOrder: [
+        {
+          line: 4,
+          timestamp: '2025-06-15T14:00:02.000Z',
+          previous: '2025-06-15T14:00:03.000Z',
+        },
+      ],
+      gaps: [
+        {
+          from: '2025-06-15T14:00:03.000Z',
+          to: '2025-06-15T14:05:00.000Z',
+          seconds: 297,
+        },
+      ],
+    });
+  });
+
+  it('reports a missing subscribe.json', async () => {
+    const dir = crashedRecording(line('2025-06-15T14:00:01.000Z'));
+    rmSync(join(dir, 'subscribe.json'));
+    expect(await checkRecording(dir)).toMatchObject({
+      ok: false,
+      missingSubscribe: true,
+    });
+  });
+
+  it('repairs a crashed recording', async () => {
+    const dir = crashedRecording(CRASHED_LOG);
+
+    const result = await repairRecording(dir);
+
+    expect(result).toMatchObject({
+      droppedLines: 2,
+      reordered: true,
+      endTime: '2025-06-15T14:05:00.000Z',
+      report: { ok: true, entries: 4, outOfOrderCount: 0 },
+    });
+    const timestamps = (await loadTimeline(dir)).map((e) => e.timestamp);
+    expect(timestamps).toEqual([
+      '2025-06-15T14:00:01.000Z',
+      '2025-06-15T14:00:02.000Z',
+      '2025-06-15T14:00:03.000Z',
+      '2025-06-15T14:05:00.000Z',
+    ]);
+    const metadata = JSON.parse(readFileSync(join(dir, 'metadata.json'), 'utf-8'));
+    expect(metadata).toEqual({ ...METADATA, endTime: '2025-06-15T14:05:00.000Z' });
+    expect(readdirSync(dir).sort()).toEqual([
+      'live.jsonl',
+      'metadata.json',
+      'subscribe.json',
+    ]);
+
+    // A healthy recording is left alone
+    const again = await repairRecording(dir);
+    expect(again).toMatchObject({ droppedLines: 0, reordered: false, endTime: null });
+  });
+
+  it('drops malformed lines from a log that is in order without reordering it', async () => {
+    const dir = crashedRecording(
+      [
+        line('2025-06-15T14:00:01.000Z'),
+        'not json',
+        line('2025-06-15T14:00:01.000Z', 'TrackStatus'),
+        line('2025-06-15T14:00:02.000Z'),
+        '{"ts":"2025-06-15T14:00:03.000Z","topic":"Car',
+      ].join('\n'),
+    );
+
+    const result = await repairRecording(dir);
+    expect(result).toMatchObject({
+      droppedLines: 2,
+      reordered: false,
+      report: { ok: true, entries: 3 },
+    });
+    expect((await loadTimeline(dir)).map((e) => e.topic)).toEqual([
+      'Heartbeat',
+      'TrackStatus',
+      'Heartbeat',
+    ]);
+  });
+
+  it('keeps a compressed log compressed and cuts it at a corrupt block', async () => {
+    // Random payloads keep the log from compressing into a single read chunk, so the
+    // corruption only hits its end
+    const lines = Array.from({ length: 3000 }, (_, i) =>
+      JSON.stringify({
+        ts: new Date(Date.parse(METADATA.startTime) + i * 1000).toISOString(),
+        topic: 'CarData',
+        data: randomBytes(32).toString('hex'),
+      }),
+    );
+    const good = gzipSync(lines.join('\n') + '\n');
+    // A second gzip member whose data is garbage, as a bad copy might leave it
+    const corrupt = Buffer.concat([good, good.subarray(0, 10), Buffer.alloc(20, 0xff)]);
+    const dir = crashedRecording('', 'live.jsonl.gz', corrupt);
+
+    const report = await checkRecording(dir);
+    expect(report.ok).toBe(false);
+    expect(report.readError).not.toBeNull();
+    expect(report.entries).toBeGreaterThan(0);
+    expect(report.entries).toBeLessThan(3000);
+
+    const result = await repairRecording(dir);
+    expect(result.report).toMatchObject({
+      ok: true,
+      entries: report.entries,
+      readError: null,
+    });
+    // The end time is the last entry kept, not one lost after the corrupt block
+    const lastKept = lines[report.entries - 1];
+    expect(result.endTime).toBe(lastKept && (JSON.parse(lastKept) as { ts: string }).ts);
+    expect(result.report.lastTimestamp).toBe(result.endTime);
+    const repaired = readFileSync(join(dir, 'live.jsonl.gz'));
+    expect(repaired.subarray(0, 2)).toEqual(Buffer.from([0x1f, 0x8b]));
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  RecordingJanitor,
+  selectExpired,
+  type SizedRecording,
+} from '../../src/recording/janitor.js';
+import type { RecordingMetadata } from '../../src/recording/recorder.js';
+import type { RecordingsUsage } from '../../src/recording/storage.js';
+import { existsSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+const NOW = Date.parse('2025-07-01T00:00:00Z');
+const DAY = 24 * 60 * 60_000;
+
+function recording(
+  id: string,
+  daysAgo: number,
+  overrides: Partial<RecordingMetadata> = {},
+  bytes = 100,
+): SizedRecording {
+  return {
+    id,
+    dir: `/recordings/${id}`,
+    bytes,
+    metadata: {
+      sessionKey: id,
+      year: 2025,
+      sessionName: id,
+      sessionType: 'Race',
+      circuit: 'Test',
+      startTime: new Date(NOW - daysAgo * DAY).toISOString(),
+      ...overrides,
+    },
+  };
+}
+
+const ids = (recordings: SizedRecording[]) => recordings.map((r) => r.id);
+
+describe('selectExpired', () => {
+  const recordings = [
+    recording('race-old', 30),
+    recording('fp1', 10, { sessionType: 'Practice' }),
+    recording('quali', 9, { sessionType: 'Qualifying' }),
+    recording('fp2', 2, { sessionType: 'Practice' }),
+    recording('race-new', 1),
+  ];
+
+  it('keeps everything without rules', () => {
+    expect(selectExpired(recordings, {}, NOW)).toEqual([]);
+    expect(selectExpired(recordings, { keepLast: 0, maxTotalBytes: -1 }, NOW)).toEqual(
+      [],
+    );
+  });
+
+  it('keeps the last N sessions', () => {
+    expect(ids(selectExpired(recordings, { keepLast: 3 }, NOW))).toEqual([
+      'fp1',
+      'race-old',
+    ]);
+  });
+
+  it('drops practice sessions after X days and keeps everything else', () => {
+    expect(ids(selectExpired(recordings, { practiceMaxAgeDays: 7 }, NOW))).toEqual([
+      'fp1',
+    ]);
+  });
+
+  it('drops the oldest recordings until under the size limit', () => {
+    expect(ids(selectExpired(recordings, { maxTotalBytes: 250 }, NOW))).toEqual([
+      'quali',
+      'fp1',
+      'race-old',
+    ]);
+    // Space freed by other rules counts
+    expect(
+      ids(selectExpired(recordings, { practiceMaxAgeDays: 7, maxTotalBytes: 350 }, NOW)),
+    ).toEqual(['fp1', 'race-old']);
+  });
+
+  it('never picks pinned recordings, which still count towards the size', () => {
+    const pinned = [...recordings, recording('classic', 400, { pinned: true }, 200)];
+    expect(ids(selectExpired(pinned, { keepLast: 1 }, NOW))).toEqual([
+      'fp2',
+      'quali',
+      'fp1',
+      'race-old',
+    ]);
+    expect(ids(selectExpired(pinned, { maxTotalBytes: 400 }, NOW))).toEqual([
+      'quali',
+      'fp1',
+      'race-old',
+    ]);
+  });
+
+  it('orders by end time when a recording has one', () => {
+    const ended = [
+      recording('a', 5, { endTime: new Date(NOW - 0.5 * DAY).toISOString() }),
+      recording('b', 1),
+    ];
+    expect(ids(selectExpired(ended, { keepLast: 1 }, NOW))).toEqual(['b']);
+  });
+});
+
+describe('RecordingJanitor', () => {
+  let tempDir: string;
+
+  afterEach(() => {
+    if (tempDir) rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function writeRecording(id: string, daysAgo: number, pinned = false) {
+    const dir = join(tempDir, id);
+    mkdirSync(dir);
+    const metadata = recording(id, daysAgo, pinned ? { pinned } : {}).metadata;
+    writeFileSync(join(dir, 'metadata.json'), JSON.stringify(metadata));
+    writeFileSync(join(dir, 'live.jsonl'), 'x'.repeat(1000));
+    return dir;
+  }
+
+  it('deletes expired recordings, sparing pinned and active ones, and reports usage', () => {
+    tempDir = mkdtempSync(join(tmpdir(), 'f12mqtt-janitor-test-'));
+    const oldest = writeRecording('2025-a', 30);
+    const pinned = writeRecording('2025-b', 20, true);
+    const active = writeRecording('2025-c', 10);
+    const newest = writeRecording('2025-d', 0);
+
+    const janitor = new RecordingJanitor({
+      recordingsDir: tempDir,
+      policy: () => ({ keepLast: 1 }),
+      activeDirectory: () => active,
+    });
+    const reports: RecordingsUsage[] = [];
+    janitor.on('usage', (usage: RecordingsUsage) => reports.push(usage));
+
+    const result = janitor.run(NOW);
+
+    expect(result.deleted).toEqual([oldest]);
+    expect(existsSync(oldest)).toBe(false);
+    for (const dir of [pinned, active, newest]) expect(existsSync(dir)).toBe(true);
+
+    expect(result.usage).toMatchObject({ recordings: 3, pinned: 1 });
+    expect(result.usage.totalBytes).toBeGreaterThan(3000);
+    expect(reports).toEqual([result.usage]);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { LiveBuffer } from '../../src/playback/live-buffer.js';
+import { SignalRPipeline } from '../../src/signalr/pipeline.js';
+import type { SignalRMessage } from '../../src/signalr/client.js';
+
+function sessionInfo(key: number, timestamp: string): SignalRMessage {
+  return {
+    topic: 'SessionInfo',
+    data: {
+      Key: key,
+      Meeting: { Name: 'British Grand Prix', Circuit: { ShortName: 'Silverstone' } },
+      Name: 'Race',
+      StartDate: '2025-07-06T14:00:00Z',
+    },
+    timestamp,
+  };
+}
+
+function trackStatus(Status: string, timestamp: string): SignalRMessage {
+  return { topic: 'TrackStatus', data: { Status }, timestamp };
+}
+
+describe('LiveBuffer', () => {
+  let pipeline: SignalRPipeline;
+  let buffer: LiveBuffer;
+
+  beforeEach(() => {
+    pipeline = new SignalRPipeline();
+    buffer = new LiveBuffer();
+    pipeline.on('update', (msg) => buffer.handleUpdate(msg));
+  });
+
+  it('waits for SessionInfo before buffering', () => {
+    pipeline.processMessage(trackStatus('2', '2025-07-06T13:59:00Z'));
+    expect(buffer.getTimeline()).toBeNull();
+  });
+
+  it('starts from the state so far and appends later messages', () => {
+    const entries: unknown[] = [];
+    buffer.on('entry', (entry) => entries.push(entry));
+    pipeline.processMessage(trackStatus('2', '2025-07-06T13:59:00Z'));
+    pipeline.processMessage(sessionInfo(9693, '2025-07-06T14:00:00Z'));
+    pipeline.processMessage(trackStatus('1', '2025-07-06T14:00:01Z'));
+
+    expect(buffer.getSessionKey()).toBe('9693');
+    expect(buffer.getInitialState()?.trackStatus.flag).toBe('yellow');
+    expect(buffer.getTimeline()?.length).toBe(1);
+    expect(entries).toEqual([
+      { timestamp: '2025-07-06T14:00:01Z', topic: 'TrackStatus', data: { Status: '1' } },
+    ]);
+  });
+
+  it('does not change the initial state as the live state moves on', () => {
+    pipeline.processMessage(sessionInfo(9693, '2025-07-06T14:00:00Z'));
+    pipeline.processMessage(trackStatus('5', '2025-07-06T14:00:01Z'));
+    expect(buffer.getInitialState()?.trackStatus.flag).toBe('green');
+  });
+
+  it('keeps only the configured window, folding older entries into the initial state', () => {
+    pipeline = new SignalRPipeline();
+    buffer = new LiveBuffer({ maxAgeMs: () => 10 * 60_000 });
+    pipeline.on('update', (msg) => buffer.handleUpdate(msg));
+    const trims: number[] = [];
+    buffer.on('trim', (start: number) => trims.push(start));
+
+    pipeline.processMessage(trackStatus('1', '2025-07-06T13:59:00Z'));
+    pipeline.processMessage(sessionInfo(9693, '2025-07-06T14:00:00Z'));
+    pipeline.processMessage(trackStatus('2', '2025-07-06T14:00:01Z'));
+    pipeline.processMessage(trackStatus('1', '2025-07-06T14:05:00Z'));
+    expect(trims).toEqual([]);
+
+    pipeline.processMessage(trackStatus('2', '2025-07-06T14:12:00Z'));
+    expect(trims).toEqual([1]);
+    const timeline = buffer.getTimeline()!;
+    expect(timeline.getTimeRange()).toEqual({
+      start: '2025-07-06T14:05:00Z',
+      end: '2025-07-06T14:12:00Z',
+    });
+    expect(buffer.getInitialState()?.trackStatus.flag).toBe('yellow');
+
+    // Nothing more is dropped until the oldest entry is well past the window
+    pipeline.processMessage(trackStatus('1', '2025-07-06T14:15:30Z'));
+    expect(trims).toEqual([1]);
+    expect(timeline.length - timeline.start).toBe(3);
+  });
+
+  it('starts a new timeline when the session changes', () => {
+    const sessions: string[] = [];
+    buffer.on('session', (key: string) => sessions.push(key));
+    pipeline.processMessage(sessionInfo(9693, '2025-07-06T14:00:00Z'));
+    pipeline.processMessage(trackStatus('1', '2025-07-06T14:00:01Z'));
+    pipeline.processMessage(sessionInfo(9694, '2025-07-06T16:00:00Z'));
+
+    expect(sessions).toEqual(['9693', '9694']);
+    expect(buffer.getTimeline()?.length).toBe(0);
+  });
+});
@@ -38,6 +38,12 @@ describe('MQTT topic builders', () => {
   it('builds playback topics', () => {
     expect(topics.playbackState(p)).toBe('f12mqtt/playback/state');
     expect(topics.playbackCommand(p)).toBe('f12mqtt/playback/command');
+    expect(topics.playbackCommandResult(p)).toBe('f12mqtt/playback/command/result');
+  });
+
+  it('builds live delay topics', () => {
+    expect(topics.liveDelay(p)).toBe('f12mqtt/live/delay');
+    expect(topics.liveDelayCommand(p)).toBe('f12mqtt/live/delay/command');
   });
 
   it('builds persistent topics', () => {
@@ -10,6 +10,10 @@ import {
   parsePitLaneTimeCollection,
   parseTopThree,
   parseRaceControlMessages,
+  parseCarData,
+  parsePosition,
+  parseSessionStatus,
+  parseExtrapolatedClock,
 } from '../../src/signalr/parsers.js';
 
 describe('parseTrackStatus', () => {
@@ -587,3 +591,112 @@ describe('parseRaceControlMessages', () => {
     expect(result?.scope).toBe('Driver');
   });
 });
+
+describe('parseCarData', () => {
+  it('maps channels to telemetry fields', () => {
+    const raw = {
+      Entries: [
+        {
+          Utc: '2025-05-25T13:00:00.123Z',
+          Cars: {
+            '1': { Channels: { '0': 11250, '2': 312, '3': 8, '4': 100, '5': 0, '45': 12 } },
+          },
+        },
+      ],
+    };
+    expect(parseCarData(raw)['1']).toEqual({
+      driverNumber: '1',
+      utc: '2025-05-25T13:00:00.123Z',
+      rpm: 11250,
+      speed: 312,
+      gear: 8,
+      throttle: 100,
+      brake: false,
+      drs: true,
+    });
+  });
+
+  it('keeps only the latest sample per driver', () => {
+    const raw = {
+      Entries: [
+        { Utc: 'T1', Cars: { '44': { Channels: { '2': 280, '5': 0 } } } },
+        { Utc: 'T2', Cars: { '44': { Channels: { '2': 120, '5': 100 } } } },
+      ],
+    };
+    const result = parseCarData(raw);
+    expect(result['44']?.speed).toBe(120);
+    expect(result['44']?.brake).toBe(true);
+    expect(result['44']?.utc).toBe('T2');
+  });
+
+  it('treats DRS eligible (8) as closed', () => {
+    const raw = { Entries: [{ Utc: 'T1', Cars: { '1': { Channels: { '45': 8 } } } }] };
+    expect(parseCarData(raw)['1']?.drs).toBe(false);
+  });
+
+  it('handles missing Entries', () => {
+    expect(parseCarData({})).toEqual({});
+  });
+});
+
+describe('parsePosition', () => {
+  it('maps coordinates and track status', () => {
+    const raw = {
+      Position: [
+        {
+          Timestamp: '2025-05-25T13:00:00.200Z',
+          Entries: {
+            '1': { Status: 'OnTrack', X: -1234, Y: 5678, Z: 90 },
+            '44': { Status: 'OffTrack', X: 10, Y: 20, Z: 0 },
+          },
+        },
+      ],
+    };
+    const result = parsePosition(raw);
+    expect(result['1']).toEqual({
+      driverNumber: '1',
+      utc: '2025-05-25T13:00:00.200Z',
+      x: -1234,
+      y: 5678,
+      z: 90,
+      onTrack: true,
+    });
+    expect(result['44']?.onTrack).toBe(false);
+  });
+
+  it('keeps only the latest sample per driver', () => {
+    const raw = {
+      Position: [
+        { Timestamp: 'T1', Entries: { '1': { X: 1, Y: 1, Z: 0 } } },
+        { Timestamp: 'T2', Entries: { '1': { X: 2, Y: 3, Z: 0 } } },
+      ],
+    };
+    expect(parsePosition(raw)['1']).toMatchObject({ x: 2, y: 3, utc: 'T2' });
+  });
+
+  it('skips entries without coordinates', () => {
+    const raw = { Position: [{ Timestamp: 'T1', Entries: { '1': { Status: 'OnTrack' } } }] };
+    expect(parsePosition(raw)).toEqual({});
+  });
+});
+
+describe('parseSessionStatus', () => {
+  it('parses known phases', () => {
+    expect(parseSessionStatus({ Status: 'Started' })).toBe('Started');
+    expect(parseSessionStatus({ Status: 'Finalised' })).toBe('Finalised');
+  });
+
+  it('returns null for missing or unknown status', () => {
+    expect(parseSessionStatus({})).toBeNull();
+    expect(parseSessionStatus({ Status: 'Paused' })).toBeNull();
+  });
+});
+
+describe('parseExtrapolatedClock', () => {
+  it('returns only the fields present in the diff', () => {
+    expect(parseExtrapolatedClock({ Extrapolating: true })).toEqual({ extrapolating: true });
+    expect(
+      parseExtrapolatedClock({ Utc: '2025-07-06T14:00:00Z', Remaining: '01:00:00' }),
+    ).toEqual({ utc: '2025-07-06T14:00:00Z', remaining: '01:00:00' });
+  });
+});
@@ -1,8 +1,10 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { PlaybackController } from '../../src/playback/controller.js';
 import { Timeline } from '../../src/playback/timeline.js';
+import { StateAccumulator } from '../../src/data/state-accumulator.js';
 import { createEmptySessionState } from '../../src/data/types.js';
 import type { TimelineEntry } from '../../src/playback/data-source.js';
+import type { OvertakeEvent } from '../../src/events/types.js';
 
 function makeTimeline(): { timeline: Timeline; entries: TimelineEntry[] } {
   const entries: TimelineEntry[] = [
@@ -36,6 +38,73 @@ function makeTimeline(): { timeline: Timeline; entries: TimelineEntry[] } {
   return { timeline: new Timeline(entries), entries };
 }
 
+/** A longer race-like timeline: laps, positions swapping, flags and race control */
+function makeLongTimeline(count: number): TimelineEntry[] {
+  const entries: TimelineEntry[] = [];
+  const start = Date.parse('2025-01-01T00:00:00Z');
+  for (let i = 0; i < count; i++) {
+    const timestamp = new Date(start + i * 1000).toISOString();
+    const lead = i % 2 === 0 ? '1' : '4';
+    switch (i % 5) {
+      case 0:
+        entries.push({
+          timestamp,
+          topic: 'LapCount',
+          data: { CurrentLap: i / 5 + 1, TotalLaps: 52 },
+        });
+        break;
+      case 1:
+        entries.push({
+          timestamp,
+          topic: 'TimingData',
+          data: {
+            Lines: {
+              [lead]: { Position: '1' },
+              [lead === '1' ? '4' : '1']: { Position: '2' },
+            },
+          },
+        });
+        break;
+      case 2:
+        entries.push({
+          timestamp,
+          topic: 'TrackStatus',
+          data: { Status: i % 3 === 0 ? '2' : '1' },
+        });
+        break;
+      case 3:
+        entries.push({
+          timestamp,
+          topic: 'RaceControlMessages',
+          data: {
+            Messages: {
+              [String(i)]: { Utc: timestamp, Message: `MESSAGE ${i}`, Category: 'Other' },
+            },
+          },
+        });
+        break;
+      default:
+        entries.push({
+          timestamp,
+          topic: 'TimingData',
+          data: { Lines: { [lead]: { LastLapTime: { Value: `1:3${i % 10}.000` } } } },
+        });
+    }
+  }
+  return entries;
+}
+
+/** Reference: state from replaying every entry before the target from scratch */
+function fullReplay(entries: TimelineEntry[], timestamp: string) {
+  const timeline = new Timeline(entries);
+  const acc = new StateAccumulator(createEmptySessionState());
+  for (let i = 0; i < timeline.findIndex(timestamp); i++) {
+    const entry = timeline.getEntry(i)!;
+    acc.applyMessage(entry.topic, entry.data, entry.timestamp);
+  }
+  return acc.getState();
+}
+
 describe('PlaybackController', () => {
   let controller: PlaybackController;
 
@@ -191,4 +260,214 @@ describe('PlaybackController', () => {
       expect(controller.getPlaybackState().status).toBe('paused');
     });
   });
+
+  describe('keyframes', () => {
+    const entries = makeLongTimeline(100);
+    const at = (i: number) => entries[i]!.timestamp;
+
+    beforeEach(() => {
+      controller = new PlaybackController({ keyframeInterval: 10 });
+      controller.load(new Timeline(entries), createEmptySessionState());
+    });
+
+    it('seeks forward, backward and repeatedly to the same state as a full replay', () => {
+      for (const i of [95, 3, 57, 57, 10, 20, 99, 0, 41]) {
+        controller.seek(at(i));
+        expect(controller.getSessionState()).toEqual(fullReplay(entries, at(i)));
+        expect(controller.getPlaybackState().currentIndex).toBe(i);
+      }
+    });
+
+    it('matches a full replay when seeking past the end', () => {
+      controller.seek('2026-01-01T00:00:00Z');
+      expect(controller.getSessionState()).toEqual(
+        fullReplay(entries, '2026-01-01T00:00:00Z'),
+      );
+    });
+
+    it('replays only the entries after the nearest keyframe', () => {
+      controller.seek(at(95));
+
+      const applied = vi.spyOn(StateAccumulator.prototype, 'applyMessage');
+      controller.seek(at(73));
+      expect(applied).toHaveBeenCalledTimes(3); // keyframe at 70, then 70..72
+      applied.mockRestore();
+    });
+
+    it('is not affected by playback mutating the restored state', () => {
+      controller.seek(at(35));
+      controller.play();
+      vi.advanceTimersByTime(20_000);
+      controller.pause();
+
+      controller.seek(at(35));
+      expect(controller.getSessionState()).toEqual(fullReplay(entries, at(35)));
+    });
+
+    it('drops keyframes when a new timeline is loaded', () => {
+      controller.seek(at(95));
+      const other = makeLongTimeline(30).map((e) => ({
+        ...e,
+        timestamp: e.timestamp.replace('2025', '2024'),
+      }));
+      controller.load(new Timeline(other), createEmptySessionState());
+
+      controller.seek(other[25]!.timestamp);
+      expect(controller.getSessionState()).toEqual(
+        fullReplay(other, other[25]!.timestamp),
+      );
+    });
+  });
+
+  describe('seek by lap and event', () => {
+    const entries = makeLongTimeline(100);
+
+    beforeEach(() => {
+      controller.load(new Timeline(entries), createEmptySessionState());
+    });
+
+    it('jumps to the start of a lap', () => {
+      expect(controller.seekLap(7)).toBe(true);
+      expect(controller.getSessionState().lapCount.current).toBe(7);
+      expect(controller.getPlaybackState().currentIndex).toBe(31); // LapCount entry 30 applied
+    });
+
+    it('rejects laps that are not in the timeline', () => {
+      expect(controller.seekLap(99)).toBe(false);
+      expect(controller.getPlaybackState().currentIndex).toBe(0);
+    });
+
+    it('steps through flag changes in both directions', () => {
+      const first = controller.seekEvent('next', { type: 'flag_change' });
+      expect(first).toMatchObject({ type: 'flag_change', newFlag: 'yellow' });
+      expect(controller.getSessionState().trackStatus.flag).toBe('yellow');
+
+      const second = controller.seekEvent('next', { type: 'flag_change' });
+      expect(second!.timestamp > first!.timestamp).toBe(true);
+
+      expect(controller.seekEvent('prev', { type: 'flag_change' })).toEqual(first);
+      expect(controller.seekEvent('prev', { type: 'flag_change' })).toBeNull();
+    });
+
+    it('filters overtakes by driver', () => {
+      const event = controller.seekEvent('next', { type: 'overtake', driverNumber: '4' });
+      expect(event).toMatchObject({ type: 'overtake' });
+      const e = event as OvertakeEvent;
+      expect([e.overtakingDriver, e.overtakenDriver]).toContain('4');
+      const expected = e.overtakingDriver === '4' ? 1 : 2;
+      expect(controller.getSessionState().timing['4']?.position).toBe(expected);
+    });
+
+    it('returns null past the last event', () => {
+      controller.seek('2026-01-01T00:00:00Z');
+      expect(controller.seekEvent('next')).toBeNull();
+    });
+  });
+
+  describe('live mode', () => {
+    let timeline: Timeline;
+    const entries = makeLongTimeline(40);
+
+    function appendLive(count: number) {
+      for (let i = 0; i < count; i++) timeline.append(entries[timeline.length]!);
+      controller.handleAppended();
+    }
+
+    beforeEach(() => {
+      controller = new PlaybackController({ keyframeInterval: 10 });
+      timeline = new Timeline(entries.slice(0, 20));
+      controller.load(timeline, createEmptySessionState(), 'live');
+    });
+
+    it('plays new entries as they arrive once caught up', () => {
+      const updates: unknown[] = [];
+      controller.on('update', (data) => updates.push(data));
+      controller.goLive();
+      expect(controller.getPlaybackState()).toMatchObject({
+        status: 'playing',
+        currentIndex: 20,
+        liveLagMs: 0,
+      });
+
+      appendLive(1);
+      expect(updates).toHaveLength(1);
+      expect(controller.getPlaybackState().currentIndex).toBe(21);
+      expect(controller.getSessionState()).toEqual(
+        fullReplay(entries, entries[21]!.timestamp),
+      );
+    });
+
+    it('waits at the end instead of finishing', () => {
+      const finished = vi.fn();
+      controller.on('finished', finished);
+      controller.goLive();
+      vi.advanceTimersByTime(60_000);
+      expect(finished).not.toHaveBeenCalled();
+      expect(controller.getPlaybackState().status).toBe('playing');
+    });
+
+    it('falls behind while paused and catches up with goLive', () => {
+      controller.goLive();
+      controller.pause();
+      appendLive(10);
+      expect(controller.getPlaybackState().liveLagMs).toBe(10_000);
+
+      // Resuming plays the next entry at once, then keeps pace with live
+      controller.play();
+      for (let i = 0; i < 3; i++) {
+        vi.advanceTimersByTime(1_000);
+        appendLive(1);
+      }
+      expect(controller.getPlaybackState().liveLagMs).toBe(9_000);
+
+      controller.goLive();
+      expect(controller.getPlaybackState()).toMatchObject({
+        currentIndex: 33,
+        liveLagMs: 0,
+      });
+    });
+
+    it('drops back to real time when fast playback reaches live', () => {
+      controller.seek(entries[15]!.timestamp);
+      controller.setSpeed(4);
+      controller.play();
+      vi.advanceTimersByTime(2_000);
+      expect(controller.getPlaybackState()).toMatchObject({ currentIndex: 20, speed: 1 });
+    });
+
+    it('follows a timeline that drops its oldest entries', () => {
+      appendLive(20);
+      controller.seek(entries[12]!.timestamp);
+
+      // As the live buffer does: fold the dropped entries into the initial state
+      const acc = new StateAccumulator(createEmptySessionState());
+      for (const entry of timeline.dropBefore(25)) {
+        acc.applyMessage(entry.topic, entry.data, entry.timestamp);
+      }
+      controller.handleTrimmed(acc.getState());
+
+      expect(controller.getPlaybackState()).toMatchObject({
+        currentIndex: 25,
+        startTime: entries[25]!.timestamp,
+      });
+      expect(controller.getLaps()[0]?.lap).toBe(6);
+      for (const i of [38, 27, 25, 3]) {
+        controller.seek(entries[i]!.timestamp);
+        const target = Math.max(i, 25);
+        expect(controller.getPlaybackState().currentIndex).toBe(target);
+        expect(controller.getSessionState()).toEqual(
+          fullReplay(entries, entries[target]!.timestamp),
+        );
+      }
+    });
+
+    it('indexes laps and keyframes as the timeline grows', () => {
+      appendLive(20);
+      expect(controller.getLaps().map((m) => m.lap)).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+      expect(controller.seekLap(8)).toBe(true);
+      expect(controller.getSessionState()).toEqual(
+        fullReplay(entries, entries[36]!.timestamp),
+      );
+    });
+  });
 });
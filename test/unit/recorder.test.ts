@@ -2,7 +2,16 @@ import { describe, it, expect, afterEach } from 'vitest';
 import { SessionRecorder } from '../../src/recording/recorder.js';
 import { loadInitialState, loadTimeline, listRecordings } from '../../src/recording/storage.js';
 import { createEmptySessionState } from '../../src/data/types.js';
-import { mkdtempSync, rmSync } from 'node:fs';
+import { RecordedDataSource } from '../../src/playback/recorded-source.js';
+import {
+  existsSync,
+  mkdtempSync,
+  readFileSync,
+  readdirSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs';
+import { createGzip, gunzipSync, gzipSync } from 'node:zlib';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
 
@@ -56,7 +65,7 @@ describe('SessionRecorder + Storage', () => {
     const loadedState = loadInitialState(dir);
     expect(loadedState?.lapCount.current).toBe(1);
 
-    const timeline = loadTimeline(dir);
+    const timeline = await loadTimeline(dir);
     expect(timeline).toHaveLength(2);
     expect(timeline[0]?.topic).toBe('LapCount');
     expect(timeline[1]?.topic).toBe('TrackStatus');
@@ -90,7 +99,118 @@ describe('SessionRecorder + Storage', () => {
     expect(loadInitialState('/nonexistent/path')).toBeNull();
   });
 
-  it('loadTimeline returns empty for missing file', () => {
-    expect(loadTimeline('/nonexistent/path')).toEqual([]);
+  it('loadTimeline returns empty for missing file', async () => {
+    expect(await loadTimeline('/nonexistent/path')).toEqual([]);
+  });
+
+  describe('compressed recordings', () => {
+    const METADATA = {
+      sessionKey: 'test-session',
+      year: 2025,
+      sessionName: 'Test Race',
+      sessionType: 'Race',
+      circuit: 'Silverstone',
+      startTime: '2025-07-06T14:00:00Z',
+    };
+
+    function line(lap: number) {
+      return JSON.stringify({
+        ts: `2025-07-06T14:0${lap}:00Z`,
+        topic: 'LapCount',
+        data: { CurrentLap: lap },
+      });
+    }
+
+    async function record(options: { compress?: boolean }, laps: number[]) {
+      const recorder = new SessionRecorder(tempDir, 'test-session', 2025, options);
+      recorder.start(METADATA, createEmptySessionState());
+      for (const lap of laps) {
+        recorder.write({
+          topic: 'LapCount',
+          data: { CurrentLap: lap },
+          timestamp: `2025-07-06T14:0${lap}:00Z`,
+        });
+      }
+      await recorder.stop();
+      return recorder.getDirectory();
+    }
+
+    async function laps(dir: string) {
+      return (await loadTimeline(dir)).map(
+        (e) => (e.data as { CurrentLap: number }).CurrentLap,
+      );
+    }
+
+    it('writes live.jsonl.gz and reads it back', async () => {
+      tempDir = mkdtempSync(join(tmpdir(), 'f12mqtt-test-'));
+      const dir = await record({ compress: true }, [1, 2, 3]);
+
+      expect(readdirSync(dir).sort()).toEqual([
+        'live.jsonl.gz',
+        'metadata.json',
+        'subscribe.json',
+      ]);
+      expect(gunzipSync(readFileSync(join(dir, 'live.jsonl.gz'))).toString()).toBe(
+        [1, 2, 3].map(line).join('\n') + '\n',
+      );
+      expect(await laps(dir)).toEqual([1, 2, 3]);
+      expect(listRecordings(tempDir)).toHaveLength(1);
+    });
+
+    it('keeps the format a session was started in when it resumes', async () => {
+      tempDir = mkdtempSync(join(tmpdir(), 'f12mqtt-test-'));
+      await record({ compress: false }, [1]);
+      const dir = await record({ compress: true }, [2]);
+      expect(existsSync(join(dir, 'live.jsonl.gz'))).toBe(false);
+      expect(await laps(dir)).toEqual([1, 2]);
+
+      // A resumed gzip log gets a second gzip member
+      rmSync(dir, { recursive: true });
+      await record({ compress: true }, [1]);
+      await record({ compress: false }, [2]);
+      expect(await laps(dir)).toEqual([1, 2]);
+    });
+
+    it('detects gzip by content, whatever the file is called', async () => {
+      tempDir = mkdtempSync(join(tmpdir(), 'f12mqtt-test-'));
+      writeFileSync(join(tempDir, 'live.jsonl'), gzipSync(line(1) + '\n'));
+      expect(await laps(tempDir)).toEqual([1]);
+    });
+
+    it('reads a log whose compressor was never finished', async () => {
+      tempDir = mkdtempSync(join(tmpdir(), 'f12mqtt-test-'));
+      const gzip = createGzip();
+      const chunks: Buffer[] = [];
+      gzip.on('data', (chunk: Buffer) => chunks.push(chunk));
+      gzip.write(line(1) + '\n' + line(2) + '\n');
+      await new Promise<void>((resolve) => gzip.flush(() => resolve()));
+      // Cut off mid-line, as a crash would
+      gzip.write(line(3).slice(0, 20));
+      writeFileSync(join(tempDir, 'live.jsonl.gz'), Buffer.concat(chunks));
+
+      expect(await laps(tempDir)).toEqual([1, 2]);
+    });
+
+    it('skips a truncated last line of a plain log', async () => {
+      tempDir = mkdtempSync(join(tmpdir(), 'f12mqtt-test-'));
+      writeFileSync(join(tempDir, 'live.jsonl'), `${line(1)}\n${line(2).slice(0, 20)}`);
+      expect(await laps(tempDir)).toEqual([1]);
+    });
+
+    it('RecordedDataSource streams from the file without loading it', async () => {
+      tempDir = mkdtempSync(join(tmpdir(), 'f12mqtt-test-'));
+      const dir = await record({ compress: true }, [1, 2, 3]);
+      const source = new RecordedDataSource(dir);
+
+      expect(await source.getTimeRange()).toEqual({
+        start: '2025-07-06T14:01:00Z',
+        end: '2025-07-06T14:03:00Z',
+      });
+      const streamed: string[] = [];
+      for await (const entry of source.stream('2025-07-06T14:02:00Z', Infinity)) {
+        streamed.push(entry.timestamp);
+      }
+      expect(streamed).toEqual(['2025-07-06T14:02:00Z', '2025-07-06T14:03:00Z']);
+    });
   });
 });
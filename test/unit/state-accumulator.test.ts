@@ -349,4 +349,225 @@ describe('StateAccumulator', () => {
       expect(acc.getState().latestRaceControlMessage?.message).toBe('HELLO');
     });
   });
+
+  describe('CarData', () => {
+    it('stores telemetry per driver', () => {
+      acc.applyMessage('CarData', {
+        Entries: [
+          { Utc: '2026-02-19T07:00:00Z', Cars: { '1': { Channels: { '2': 305, '3': 7 } } } },
+        ],
+      });
+      expect(acc.getState().telemetry['1']?.speed).toBe(305);
+      expect(acc.getState().telemetry['1']?.gear).toBe(7);
+    });
+
+    it('keeps telemetry for drivers missing from later messages', () => {
+      acc.applyMessage('CarData', {
+        Entries: [{ Utc: 'T1', Cars: { '1': { Channels: { '2': 300 } } } }],
+      });
+      acc.applyMessage('CarData', {
+        Entries: [{ Utc: 'T2', Cars: { '44': { Channels: { '2': 250 } } } }],
+      });
+      expect(Object.keys(acc.getState().telemetry)).toEqual(['1', '44']);
+    });
+  });
+
+  describe('Position', () => {
+    it('stores coordinates per driver', () => {
+      acc.applyMessage('Position', {
+        Position: [{ Timestamp: 'T1', Entries: { '1': { Status: 'OnTrack', X: 100, Y: -50, Z: 3 } } }],
+      });
+      expect(acc.getState().positions['1']).toMatchObject({ x: 100, y: -50, onTrack: true });
+    });
+  });
+
+  describe('restored state', () => {
+    it('fills fields missing from older snapshots', () => {
+      const legacy = { trackStatus: { flag: 'red' } } as unknown as ConstructorParameters<
+        typeof StateAccumulator
+      >[0];
+      const restored = new StateAccumulator(legacy);
+      expect(restored.getState().trackStatus.flag).toBe('red');
+      expect(restored.getState().positions).toEqual({});
+      expect(restored.getState().telemetry).toEqual({});
+    });
+  });
+
+  describe('lap history', () => {
+    function completeLap(lapTime: string, extra: Record<string, unknown> = {}) {
+      acc.applyMessage('TimingData', {
+        Lines: { '1': { LastLapTime: { Value: lapTime }, ...extra } },
+      });
+    }
+
+    it('records a lap each time LastLapTime changes', () => {
+      acc.applyMessage('TimingAppData', {
+        Lines: { '1': { Stints: { '0': { Compound: 'MEDIUM', TotalLaps: 0 } } } },
+      });
+      acc.applyMessage('TimingData', {
+        Lines: { '1': { Sectors: { '0': { Value: '30.1' }, '1': { Value: '40.2' } } } },
+      });
+      completeLap('1:32.500', { Sectors: { '2': { Value: '22.2' } }, NumberOfLaps: 1 });
+      completeLap('1:32.100', { NumberOfLaps: 2 });
+
+      const laps = acc.getState().lapHistory['1'];
+      expect(laps).toHaveLength(2);
+      expect(laps?.[0]).toEqual({
+        lap: 1,
+        lapTime: '1:32.500',
+        sector1: '30.1',
+        sector2: '40.2',
+        sector3: '22.2',
+        compound: 'MEDIUM',
+        stintNumber: 0,
+        pitted: false,
+      });
+      expect(laps?.[1]?.lap).toBe(2);
+    });
+
+    it('ignores repeated LastLapTime values', () => {
+      completeLap('1:32.500');
+      completeLap('1:32.500');
+      expect(acc.getState().lapHistory['1']).toHaveLength(1);
+    });
+
+    it('numbers laps sequentially when NumberOfLaps is absent', () => {
+      completeLap('1:32.500');
+      completeLap('1:33.000');
+      expect(acc.getState().lapHistory['1']?.map((l) => l.lap)).toEqual([1, 2]);
+    });
+
+    it('marks the lap on which the stint changed as pitted', () => {
+      acc.applyMessage('TimingAppData', {
+        Lines: { '1': { Stints: { '0': { Compound: 'SOFT' } } } },
+      });
+      completeLap('1:32.500');
+      acc.applyMessage('TimingAppData', {
+        Lines: { '1': { Stints: { '0': { Compound: 'SOFT' }, '1': { Compound: 'HARD' } } } },
+      });
+      completeLap('1:55.000');
+      completeLap('1:33.000');
+
+      const laps = acc.getState().lapHistory['1'];
+      expect(laps?.map((l) => l.pitted)).toEqual([false, true, false]);
+      expect(laps?.[1]?.compound).toBe('HARD');
+    });
+  });
+
+  describe('driver race control messages', () => {
+    it('tracks the latest message per car', () => {
+      acc.applyMessage('RaceControlMessages', {
+        Messages: {
+          '0': { Utc: 'T1', Message: 'CAR 44 (HAM) TIME 1:32.000 DELETED - TRACK LIMITS', Category: 'Other' },
+          '1': { Utc: 'T2', Message: 'CAR 1 (VER) NOTED', Category: 'Other', RacingNumber: '1' },
+          '2': { Utc: 'T3', Message: 'GREEN LIGHT - PIT EXIT OPEN', Category: 'Flag' },
+        },
+      });
+      const byDriver = acc.getState().driverRaceControl;
+      expect(byDriver['44']?.utc).toBe('T1');
+      expect(byDriver['1']?.message).toBe('CAR 1 (VER) NOTED');
+      expect(Object.keys(byDriver)).toHaveLength(2);
+      expect(acc.getState().latestRaceControlMessage?.utc).toBe('T3');
+    });
+  });
+
+  describe('race control history', () => {
+    it('appends every message in order', () => {
+      acc.applyMessage('RaceControlMessages', {
+        Messages: { '0': { Utc: 'T1', Message: 'FIRST', Category: 'Other' } },
+      });
+      acc.applyMessage('RaceControlMessages', {
+        Messages: {
+          '1': { Utc: 'T2', Message: 'SECOND', Category: 'Other' },
+          '2': { Utc: 'T3', Message: 'THIRD', Category: 'Other' },
+        },
+      });
+      expect(acc.getState().raceControlMessages.map((m) => m.message)).toEqual([
+        'FIRST',
+        'SECOND',
+        'THIRD',
+      ]);
+    });
+  });
+
+  describe('sector flags and DRS', () => {
+    const rcm = (entry: Record<string, unknown>) =>
+      acc.applyMessage('RaceControlMessages', { Messages: { '0': { Utc: 'T1', ...entry } } });
+
+    it('tracks yellow and double yellow per sector', () => {
+      rcm({ Message: 'YELLOW IN TRACK SECTOR 5', Category: 'Flag', Flag: 'YELLOW', Scope: 'Sector', Sector: 5 });
+      rcm({ Message: 'DOUBLE YELLOW IN TRACK SECTOR 7', Category: 'Flag', Flag: 'DOUBLE YELLOW', Scope: 'Sector', Sector: 7 });
+      expect(acc.getState().sectorFlags).toEqual({ '5': 'yellow', '7': 'double_yellow' });
+
+      rcm({ Message: 'CLEAR IN TRACK SECTOR 5', Category: 'Flag', Flag: 'CLEAR', Scope: 'Sector', Sector: 5 });
+      expect(acc.getState().sectorFlags['5']).toBe('clear');
+    });
+
+    it('clears all sectors on a track-wide all clear', () => {
+      rcm({ Message: 'YELLOW IN TRACK SECTOR 5', Category: 'Flag', Flag: 'YELLOW', Scope: 'Sector', Sector: 5 });
+      rcm({ Message: 'TRACK CLEAR', Category: 'Flag', Flag: 'CLEAR', Scope: 'Track' });
+      expect(acc.getState().sectorFlags).toEqual({ '5': 'clear' });
+    });
+
+    it('tracks DRS enabled and disabled', () => {
+      expect(acc.getState().drsEnabled).toBeNull();
+      rcm({ Message: 'DRS ENABLED', Category: 'Drs', Status: 'ENABLED' });
+      expect(acc.getState().drsEnabled).toBe(true);
+      rcm({ Message: 'DRS DISABLED', Category: 'Drs' });
+      expect(acc.getState().drsEnabled).toBe(false);
+    });
+  });
+
+  describe('session lifecycle', () => {
+    it('tracks the session phase', () => {
+      acc.applyMessage('SessionStatus', { Status: 'Started' });
+      expect(acc.getState().sessionPhase).toBe('Started');
+      acc.applyMessage('SessionStatus', { Status: 'Bogus' });
+      expect(acc.getState().sessionPhase).toBe('Started');
+    });
+
+    it('merges ExtrapolatedClock diffs', () => {
+      acc.applyMessage('ExtrapolatedClock', {
+        Utc: '2025-07-06T14:00:00Z',
+        Remaining: '01:00:00',
+        Extrapolating: false,
+      });
+      acc.applyMessage('ExtrapolatedClock', { Extrapolating: true });
+      expect(acc.getState().clock).toEqual({
+        utc: '2025-07-06T14:00:00Z',
+        remaining: '01:00:00',
+        extrapolating: true,
+        remainingSeconds: 3600,
+      });
+    });
+
+    it('counts a running clock down on Heartbeat', () => {
+      acc.applyMessage('ExtrapolatedClock', {
+        Utc: '2025-07-06T14:00:00Z',
+        Remaining: '01:00:00',
+        Extrapolating: true,
+      });
+      acc.applyMessage('Heartbeat', { Utc: '2025-07-06T14:10:30Z' });
+      expect(acc.getState().clock!.remainingSeconds).toBe(3600 - 630);
+    });
+
+    it('leaves a stopped clock alone on Heartbeat', () => {
+      acc.applyMessage('ExtrapolatedClock', {
+        Utc: '2025-07-06T14:00:00Z',
+        Remaining: '00:45:00',
+        Extrapolating: false,
+      });
+      acc.applyMessage('Heartbeat', { Utc: '2025-07-06T14:10:00Z' });
+      expect(acc.getState().clock!.remainingSeconds).toBe(2700);
+    });
+
+    it('shows the chequered flag from race control', () => {
+      acc.applyMessage('RaceControlMessages', {
+        Messages: {
+          '0': { Utc: 'T1', Message: 'CHEQUERED FLAG', Category: 'Flag', Flag: 'CHEQUERED', Scope: 'Track' },
+        },
+      });
+      expect(acc.getState().trackStatus).toEqual({ flag: 'chequered', message: 'CHEQUERED FLAG' });
+    });
+  });
 });
@@ -0,0 +1,157 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  importRecordingTarball,
+  InvalidRecordingError,
+  packRecording,
+  unpackRecording,
+} from '../../src/recording/tarball.js';
+import { RecordingExistsError } from '../../src/recording/recorder.js';
+import { listRecordings } from '../../src/recording/storage.js';
+import {
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  readdirSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs';
+import { Readable } from 'node:stream';
+import { buffer } from 'node:stream/consumers';
+import { gzipSync } from 'node:zlib';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+const METADATA = {
+  sessionKey: '9158',
+  year: 2023,
+  sessionName: 'Singapore Grand Prix - Race',
+  sessionType: 'Race',
+  circuit: 'Singapore',
+  startTime: '2023-09-17T12:00:00Z',
+};
+
+/** A single-file ustar archive, for archives packRecording would never produce */
+function tarFile(name: string, content: string, type = '0'): Buffer {
+  const header = Buffer.alloc(512);
+  header.write(name, 0);
+  header.write('0000644\0', 100);
+  header.write(Buffer.byteLength(content).toString(8).padStart(11, '0') + '\0', 124);
+  header.write(' '.repeat(8), 148);
+  header.write(type, 156);
+  header.write('ustar\0' + '00', 257);
+  const checksum = header.reduce((sum, b) => sum + b, 0);
+  header.write(checksum.toString(8).padStart(6, '0') + '\0 ', 148);
+  const data = Buffer.alloc(Math.ceil(Buffer.byteLength(content) / 512) * 512);
+  data.write(content);
+  return Buffer.concat([header, data, Buffer.alloc(1024)]);
+}
+
+describe('Recording tarballs', () => {
+  let tempDir: string;
+
+  afterEach(() => {
+    if (tempDir) rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function setup() {
+    tempDir = mkdtempSync(join(tmpdir(), 'f12mqtt-tarball-test-'));
+    const source = join(tempDir, '2023-9158');
+    mkdirSync(source);
+    writeFileSync(join(source, 'metadata.json'), JSON.stringify(METADATA));
+    writeFileSync(join(source, 'subscribe.json'), '{}');
+    // Larger than a block, and not a multiple of one
+    const lines = Array.from({ length: 50 }, (_, i) =>
+      JSON.stringify({ ts: `2023-09-17T12:00:${i}Z`, topic: 'Heartbeat', data: {} }),
+    );
+    writeFileSync(join(source, 'live.jsonl'), lines.join('\n') + '\n');
+    return source;
+  }
+
+  it('packs a recording and unpacks it byte for byte', async () => {
+    const source = setup();
+    const dest = join(tempDir, 'dest');
+    mkdirSync(dest);
+
+    const files = await unpackRecording(packRecording(source, '2023-9158'), dest);
+
+    expect(files.sort()).toEqual(['live.jsonl', 'metadata.json', 'subscribe.json']);
+    for (const file of files) {
+      expect(readFileSync(join(dest, file))).toEqual(readFileSync(join(source, file)));
+    }
+  });
+
+  it('names packed files under the root folder', async () => {
+    const source = setup();
+    const tar = await buffer(packRecording(source, '2023-9158'));
+    expect(tar[0]).toBe(0x1f);
+    expect(tar[1]).toBe(0x8b);
+
+    const dest = join(tempDir, 'dest');
+    mkdirSync(dest);
+    const flat = Readable.from([gzipSync(tarFile('metadata.json', '{}'))]);
+    expect(await unpackRecording(flat, dest)).toEqual(['metadata.json']);
+  });
+
+  it('rejects paths that leave the recording', async () => {
+    setup();
+    const dest = join(tempDir, 'dest');
+    mkdirSync(dest);
+
+    for (const name of ['../evil.json', 'a/b/c.json', 'rec/.hidden']) {
+      const input = Readable.from([gzipSync(tarFile(name, 'x'))]);
+      await expect(unpackRecording(input, dest)).rejects.toThrow('Unexpected file');
+    }
+    expect(readdirSync(tempDir).sort()).toEqual(['2023-9158', 'dest']);
+  });
+
+  it('skips directory entries and stops at the size limit', async () => {
+    setup();
+    const dest = join(tempDir, 'dest');
+    mkdirSync(dest);
+
+    const dirEntry = Readable.from([gzipSync(tarFile('rec/', '', '5'))]);
+    expect(await unpackRecording(dirEntry, dest)).toEqual([]);
+
+    const big = Readable.from([gzipSync(tarFile('live.jsonl', 'x'.repeat(10_000)))]);
+    await expect(unpackRecording(big, dest, 4096)).rejects.toThrow('too large');
+  });
+
+  it('installs an uploaded tarball as a recording', async () => {
+    const source = setup();
+    const tar = await buffer(packRecording(source, 'anything'));
+    const recordingsDir = join(tempDir, 'recordings');
+
+    const uploaded = await importRecordingTarball(Readable.from([tar]), recordingsDir);
+
+    expect(uploaded).toEqual({
+      id: '2023-9158',
+      dir: join(recordingsDir, '2023-9158'),
+      metadata: METADATA,
+    });
+    expect(listRecordings(recordingsDir)).toEqual([uploaded]);
+
+    await expect(
+      importRecordingTarball(Readable.from([tar]), recordingsDir),
+    ).rejects.toBeInstanceOf(RecordingExistsError);
+    await importRecordingTarball(Readable.from([tar]), recordingsDir, {
+      overwrite: true,
+    });
+    // No staging directories are left behind
+    expect(readdirSync(recordingsDir)).toEqual(['2023-9158']);
+  });
+
+  it('rejects uploads that are not recordings', async () => {
+    tempDir = mkdtempSync(join(tmpdir(), 'f12mqtt-tarball-test-'));
+    const uploads = [
+      Readable.from([Buffer.from('not gzip')]),
+      Readable.from([gzipSync(tarFile('subscribe.json', '{}'))]),
+      Readable.from([gzipSync(tarFile('metadata.json', '{"sessionKey":"../x"}'))]),
+    ];
+    for (const upload of uploads) {
+      await expect(importRecordingTarball(upload, tempDir)).rejects.toBeInstanceOf(
+        InvalidRecordingError,
+      );
+    }
+    expect(readdirSync(tempDir)).toEqual([]);
+  });
+});
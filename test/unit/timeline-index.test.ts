@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildTimelineIndex,
+  eventMatches,
+  parseEventFilter,
+} from '../../src/playback/timeline-index.js';
+import { Timeline } from '../../src/playback/timeline.js';
+import { createEmptySessionState } from '../../src/data/types.js';
+import type { TimelineEntry } from '../../src/playback/data-source.js';
+
+const ENTRIES: TimelineEntry[] = [
+  {
+    timestamp: '2025-01-01T00:00:00Z',
+    topic: 'TimingData',
+    data: { Lines: { '1': { Position: '1' }, '4': { Position: '2' } } },
+  },
+  { timestamp: '2025-01-01T00:00:01Z', topic: 'LapCount', data: { CurrentLap: 2 } },
+  { timestamp: '2025-01-01T00:00:02Z', topic: 'TrackStatus', data: { Status: '5' } },
+  { timestamp: '2025-01-01T00:00:03Z', topic: 'TrackStatus', data: { Status: '1' } },
+  {
+    timestamp: '2025-01-01T00:00:04Z',
+    topic: 'TimingData',
+    data: { Lines: { '4': { Position: '1' }, '1': { Position: '2' } } },
+  },
+  { timestamp: '2025-01-01T00:00:05Z', topic: 'LapCount', data: { CurrentLap: 3 } },
+  {
+    timestamp: '2025-01-01T00:00:06Z',
+    topic: 'TimingAppData',
+    data: { Lines: { '1': { Stints: { '1': { Compound: 'HARD' } } } } },
+  },
+];
+
+describe('buildTimelineIndex', () => {
+  const initial = { ...createEmptySessionState(), lapCount: { current: 1, total: 50 } };
+  const index = buildTimelineIndex(new Timeline(ENTRIES), initial);
+
+  it('records lap starts, including the lap already running at load', () => {
+    expect(index.laps).toEqual([
+      { lap: 1, index: 0, timestamp: '2025-01-01T00:00:00Z' },
+      { lap: 2, index: 2, timestamp: '2025-01-01T00:00:01Z' },
+      { lap: 3, index: 6, timestamp: '2025-01-01T00:00:05Z' },
+    ]);
+  });
+
+  it('records flag changes, overtakes and pit stops just after their entries', () => {
+    expect(index.events.map((m) => [m.index, m.event.type])).toEqual([
+      [3, 'flag_change'],
+      [4, 'flag_change'],
+      [5, 'overtake'],
+      [7, 'pit_stop'],
+    ]);
+  });
+
+  it('does not modify the initial state', () => {
+    expect(initial.timing).toEqual({});
+  });
+
+  it('reports progress after every entry', () => {
+    const applied: number[] = [];
+    buildTimelineIndex(new Timeline(ENTRIES), null, (n) => applied.push(n));
+    expect(applied).toEqual([1, 2, 3, 4, 5, 6, 7]);
+  });
+});
+
+describe('eventMatches', () => {
+  const { events } = buildTimelineIndex(new Timeline(ENTRIES), null);
+  const overtake = events.find((m) => m.event.type === 'overtake')!.event;
+  const flag = events[0]!.event;
+
+  it('filters by type and by either driver in an overtake', () => {
+    expect(eventMatches(overtake, {})).toBe(true);
+    expect(eventMatches(overtake, { type: 'overtake', driverNumber: '1' })).toBe(true);
+    expect(eventMatches(overtake, { driverNumber: '4' })).toBe(true);
+    expect(eventMatches(overtake, { driverNumber: '44' })).toBe(false);
+    expect(eventMatches(overtake, { type: 'pit_stop' })).toBe(false);
+  });
+
+  it('never matches flag changes to a driver', () => {
+    expect(eventMatches(flag, { driverNumber: '1' })).toBe(false);
+  });
+});
+
+describe('parseEventFilter', () => {
+  it('accepts type, driver, both, or nothing', () => {
+    expect(parseEventFilter()).toEqual({});
+    expect(parseEventFilter('overtake')).toEqual({ type: 'overtake' });
+    expect(parseEventFilter(44)).toEqual({ driverNumber: '44' });
+    expect(parseEventFilter('pit_stop 44')).toEqual({
+      type: 'pit_stop',
+      driverNumber: '44',
+    });
+  });
+
+  it('rejects unknown words', () => {
+    expect(parseEventFilter('crash')).toBeNull();
+  });
+});
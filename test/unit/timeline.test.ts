@@ -29,6 +29,27 @@ describe('Timeline', () => {
     expect(timeline.getEntry(2)?.timestamp).toBe(timestamps[2]);
   });
 
+  describe('adopt', () => {
+    it('uses entries that are already in order as they are', () => {
+      const entries = makeEntries(timestamps);
+      const timeline = Timeline.adopt(entries);
+      expect(timeline.length).toBe(7);
+      expect(timeline.getEntry(3)).toBe(entries[3]);
+    });
+
+    it('sorts out-of-order entries, keeping the order of equal timestamps', () => {
+      const entries = makeEntries(['2025-01-01T00:00:02Z', '2025-01-01T00:00:01Z']);
+      entries.push({ timestamp: '2025-01-01T00:00:01Z', topic: 'Second', data: {} });
+      const timeline = Timeline.adopt(entries);
+      expect(timeline.slice(0, 3).map((e) => e.topic)).toEqual([
+        'TestTopic',
+        'Second',
+        'TestTopic',
+      ]);
+      expect(timeline.getTimeRange()?.end).toBe('2025-01-01T00:00:02Z');
+    });
+  });
+
   describe('getTimeRange', () => {
     it('returns start and end', () => {
       const timeline = new Timeline(makeEntries(timestamps));
@@ -119,4 +140,47 @@ describe('Timeline', () => {
       expect(timeline.length).toBe(0);
     });
   });
+
+  describe('append', () => {
+    it('adds entries to the end', () => {
+      const timeline = new Timeline(makeEntries(timestamps));
+      timeline.append({ timestamp: '2025-01-01T00:00:11Z', topic: 'Live', data: {} });
+      expect(timeline.length).toBe(8);
+      expect(timeline.getTimeRange()?.end).toBe('2025-01-01T00:00:11Z');
+      expect(timeline.findIndex('2025-01-01T00:00:11Z')).toBe(7);
+    });
+
+    it('stamps late arrivals with the last timestamp to keep the order', () => {
+      const timeline = new Timeline([]);
+      timeline.append({ timestamp: '2025-01-01T00:00:05Z', topic: 'A', data: {} });
+      timeline.append({ timestamp: '2025-01-01T00:00:04Z', topic: 'B', data: {} });
+      expect(timeline.getEntry(1)).toMatchObject({
+        topic: 'B',
+        timestamp: '2025-01-01T00:00:05Z',
+      });
+    });
+  });
+
+  describe('dropBefore', () => {
+    it('drops the oldest entries and keeps every index stable', () => {
+      const timeline = new Timeline(makeEntries(timestamps));
+      const dropped = timeline.dropBefore(3);
+
+      expect(dropped.map((e) => e.timestamp)).toEqual(timestamps.slice(0, 3));
+      expect(timeline.start).toBe(3);
+      expect(timeline.length).toBe(7);
+      expect(timeline.getEntry(2)).toBeUndefined();
+      expect(timeline.getEntry(4)?.timestamp).toBe('2025-01-01T00:00:05Z');
+      expect(timeline.findIndex('2025-01-01T00:00:00Z')).toBe(3);
+      expect(timeline.findIndex('2025-01-01T00:00:06Z')).toBe(5);
+      expect(timeline.getTimeRange()?.start).toBe('2025-01-01T00:00:03Z');
+      expect(
+        timeline.getRange('2025-01-01T00:00:00Z', '2025-01-01T00:00:05Z').length,
+      ).toBe(2);
+
+      timeline.append({ timestamp: '2025-01-01T00:00:11Z', topic: 'Live', data: {} });
+      expect(timeline.getEntry(7)?.topic).toBe('Live');
+      expect(timeline.dropBefore(2)).toEqual([]);
+    });
+  });
 });
@@ -5,18 +5,76 @@ export interface RecordingMetadata {
   sessionType: string;
   circuit: string;
   startTime: string;
+  endTime?: string;
+  importedFrom?: 'openf1' | 'archive';
+  tags?: string[];
+  notes?: string;
+  pinned?: boolean;
 }
 
 export interface RecordingEntry {
-  directory: string;
+  id: string;
+  dir: string;
   metadata: RecordingMetadata;
 }
 
+export type RecordingUpdate = Partial<Pick<RecordingMetadata, 'sessionName' | 'tags' | 'notes' | 'pinned'>>;
+
 export async function fetchSessions(): Promise<RecordingEntry[]> {
   const res = await fetch('/api/sessions');
   return (await res.json()) as RecordingEntry[];
 }
 
+/** A failed API request, with the server's error message when it sent one */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+  }
+}
+
+async function apiError(res: Response, action: string): Promise<ApiError> {
+  let message = `Failed to ${action} (${res.status})`;
+  try {
+    message = ((await res.json()) as { error?: string }).error ?? message;
+  } catch {
+    // Not JSON — keep the generic message
+  }
+  return new ApiError(message, res.status);
+}
+
+export async function updateRecording(id: string, update: RecordingUpdate): Promise<RecordingMetadata> {
+  const res = await fetch(`/api/recordings/${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(update),
+  });
+  if (!res.ok) throw await apiError(res, 'update recording');
+  return ((await res.json()) as { metadata: RecordingMetadata }).metadata;
+}
+
+export async function deleteRecording(id: string): Promise<void> {
+  const res = await fetch(`/api/recordings/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  if (!res.ok) throw await apiError(res, 'delete recording');
+}
+
+/** Download link for a recording as a .tar.gz */
+export function recordingArchiveUrl(id: string): string {
+  return `/api/recordings/${encodeURIComponent(id)}/archive`;
+}
+
+export async function uploadRecording(file: File, overwrite = false): Promise<RecordingEntry> {
+  const res = await fetch(`/api/recordings${overwrite ? '?overwrite=true' : ''}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/gzip' },
+    body: file,
+  });
+  if (!res.ok) throw await apiError(res, 'upload recording');
+  return (await res.json()) as RecordingEntry;
+}
+
 export async function loadSession(sessionDir: string): Promise<{ ok: boolean; entries: number }> {
   const res = await fetch('/api/playback/load', {
     method: 'POST',
@@ -26,6 +84,32 @@ export async function loadSession(sessionDir: string): Promise<{ ok: boolean; en
   return (await res.json()) as { ok: boolean; entries: number };
 }
 
+export interface OpenF1Session {
+  session_key: number;
+  session_name: string;
+  session_type: string;
+  date_start: string;
+  year: number;
+  circuit_short_name: string;
+  country_name: string;
+  meeting_name: string;
+}
+
+export async function fetchOpenF1Sessions(year: number): Promise<OpenF1Session[]> {
+  const res = await fetch(`/api/openf1/sessions?year=${year}`);
+  if (!res.ok) throw new Error(`Failed to list OpenF1 sessions (${res.status})`);
+  return (await res.json()) as OpenF1Session[];
+}
+
+export async function loadOpenF1Session(sessionKey: number): Promise<{ ok: boolean; entries: number }> {
+  const res = await fetch('/api/playback/load', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ source: 'openf1', sessionKey }),
+  });
+  return (await res.json()) as { ok: boolean; entries: number };
+}
+
 export async function sendPlaybackCommand(
   command: string,
   value?: string | number,
@@ -37,3 +121,34 @@ export async function sendPlaybackCommand(
   });
   return res.json();
 }
+
+export async function sendLiveDelayCommand(
+  command: 'set' | 'nudge',
+  seconds: number,
+): Promise<unknown> {
+  const res = await fetch('/api/live/delay', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ command, value: seconds }),
+  });
+  return res.json();
+}
+
+export interface DriverLap {
+  lap: number;
+  lapTime: string;
+  sector1: string;
+  sector2: string;
+  sector3: string;
+  compound: string;
+  stintNumber: number;
+  pitted: boolean;
+}
+
+export async function fetchDriverLaps(
+  driverNumber: string,
+  source: 'live' | 'playback',
+): Promise<DriverLap[]> {
+  const res = await fetch(`/api/${source}/drivers/${driverNumber}/laps`);
+  return (await res.json()) as DriverLap[];
+}
@@ -4,12 +4,13 @@ import { StatusBar } from './StatusBar';
 import { FlagIndicator } from './FlagIndicator';
 import { SessionSelector } from './SessionSelector';
 import { PlaybackControls } from './PlaybackControls';
+import { LiveDelayControls } from './LiveDelayControls';
 import { EventFeed } from './EventFeed';
 import { DriverCards } from './DriverCards';
 import { ConfigPanel } from './ConfigPanel';
 
 export function App() {
-  const { connected, playbackState, sessionState, events, sendCommand } = useWebSocket();
+  const { connected, playbackState, sessionState, events, liveDelay, sendCommand } = useWebSocket();
   const [showConfig, setShowConfig] = useState(false);
 
   return (
@@ -21,6 +22,8 @@ export function App() {
       <main className="flex-1 max-w-5xl mx-auto w-full px-4 sm:px-6 py-6 pb-12 space-y-6">
         <SessionSelector playbackState={playbackState} />
 
+        {liveDelay && <LiveDelayControls liveDelay={liveDelay} />}
+
         {playbackState && (
           <PlaybackControls
             playbackState={playbackState}
@@ -18,6 +18,11 @@ interface AwtrixConfig {
   prefix: string;
 }
 
+/** Recording retention rules; a blank field switches its rule off */
+const RETENTION_KEYS = ['retentionKeepLast', 'retentionPracticeDays', 'retentionMaxSizeGB'] as const;
+
+type RetentionForm = Record<(typeof RETENTION_KEYS)[number], string>;
+
 const inputClass =
   'bg-gray-800/70 border border-gray-700/60 rounded-lg px-3 py-2 text-sm text-gray-200 placeholder:text-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500/40 focus:border-blue-500/60 transition-colors';
 
@@ -42,11 +47,23 @@ export function ConfigPanel({ onClose }: ConfigPanelProps) {
   const [mqttForm, setMqttForm] = useState(mqtt);
   const [awtrixForm, setAwtrixForm] = useState(awtrix);
   const [favoritesForm, setFavoritesForm] = useState(favorites.join(', '));
+  const [retentionForm, setRetentionForm] = useState<RetentionForm>(() => {
+    const value = (key: string) => (typeof config[key] === 'number' ? String(config[key]) : '');
+    return {
+      retentionKeepLast: value('retentionKeepLast'),
+      retentionPracticeDays: value('retentionPracticeDays'),
+      retentionMaxSizeGB: value('retentionMaxSizeGB'),
+    };
+  });
 
   const handleSave = async () => {
     await saveConfig('mqtt', mqttForm);
     await saveConfig('awtrix', awtrixForm);
     await saveConfig('favorites', favoritesForm.split(',').map((s) => s.trim()).filter(Boolean));
+    for (const key of RETENTION_KEYS) {
+      const value = parseFloat(retentionForm[key]);
+      await saveConfig(key, Number.isFinite(value) && value >= 0 ? value : null);
+    }
     onClose();
   };
 
@@ -139,6 +156,39 @@ export function ConfigPanel({ onClose }: ConfigPanelProps) {
           />
         </fieldset>
 
+        {/* Recording retention */}
+        <fieldset className="space-y-2">
+          <legend className="text-xs font-semibold uppercase tracking-wider text-gray-500">Recording Retention</legend>
+          <div className="grid grid-cols-3 gap-2">
+            <input
+              className={inputClass}
+              placeholder="Keep last N"
+              type="number"
+              min={1}
+              value={retentionForm.retentionKeepLast}
+              onChange={(e) => setRetentionForm({ ...retentionForm, retentionKeepLast: e.target.value })}
+            />
+            <input
+              className={inputClass}
+              placeholder="Practice days"
+              type="number"
+              min={0}
+              value={retentionForm.retentionPracticeDays}
+              onChange={(e) => setRetentionForm({ ...retentionForm, retentionPracticeDays: e.target.value })}
+            />
+            <input
+              className={inputClass}
+              placeholder="Max size (GB)"
+              type="number"
+              min={0}
+              step="any"
+              value={retentionForm.retentionMaxSizeGB}
+              onChange={(e) => setRetentionForm({ ...retentionForm, retentionMaxSizeGB: e.target.value })}
+            />
+          </div>
+          <p className="text-xs text-gray-600">Leave blank to keep recordings. Pinned recordings are never deleted.</p>
+        </fieldset>
+
         <div className="flex justify-end gap-2 pt-3 border-t border-gray-800/40">
           <button
             onClick={onClose}
@@ -1,4 +1,4 @@
-import { Flag, ArrowRightLeft, Wrench, CloudRain, CircleAlert } from 'lucide-react';
+import { Flag, ArrowRightLeft, Wrench, CloudRain, CircleAlert, Timer, CircleX, Gavel, Play, FlagTriangleRight } from 'lucide-react';
 import type { F1Event } from '../hooks/useWebSocket';
 import type { ComponentType } from 'react';
 
@@ -17,6 +17,17 @@ const EVENT_STYLES: Record<string, EventStyle> = {
   overtake: { bg: 'bg-blue-900/50 border-blue-700', icon: ArrowRightLeft, label: 'OVERTAKE' },
   pit_stop: { bg: 'bg-orange-900/50 border-orange-700', icon: Wrench, label: 'PIT' },
   weather_change: { bg: 'bg-cyan-900/50 border-cyan-700', icon: CloudRain, label: 'WEATHER' },
+  fastest_lap: { bg: 'bg-purple-900/50 border-purple-700', icon: Timer, label: 'FASTEST' },
+  personal_best: { bg: 'bg-green-900/50 border-green-700', icon: Timer, label: 'PB' },
+  retirement: { bg: 'bg-red-900/50 border-red-700', icon: CircleX, label: 'OUT' },
+  investigation: { bg: 'bg-gray-800 border-gray-600', icon: Gavel, label: 'STEWARDS' },
+  penalty: { bg: 'bg-red-900/50 border-red-700', icon: Gavel, label: 'PENALTY' },
+  track_limits_deleted_lap: { bg: 'bg-gray-800 border-gray-600', icon: Gavel, label: 'TRACK LIMITS' },
+  blue_flag: { bg: 'bg-blue-900/50 border-blue-700', icon: Flag, label: 'BLUE FLAG' },
+  black_and_white: { bg: 'bg-gray-800 border-white/60', icon: Flag, label: 'BLACK/WHITE' },
+  session_started: { bg: 'bg-green-900/50 border-green-700', icon: Play, label: 'SESSION' },
+  session_finished: { bg: 'bg-gray-800 border-gray-600', icon: FlagTriangleRight, label: 'SESSION' },
+  chequered_flag: { bg: 'bg-gray-800 border-white/60', icon: FlagTriangleRight, label: 'CHEQUERED' },
 };
 
 const DEFAULT_STYLE: EventStyle = { bg: 'bg-gray-800 border-gray-700', icon: CircleAlert, label: 'EVENT' };
@@ -31,6 +42,24 @@ function formatEvent(event: F1Event): string {
       return `${event['abbreviation'] as string ?? '?'} pits → ${event['newCompound'] as string ?? '?'}`;
     case 'weather_change':
       return (event['isWet'] as boolean) ? 'Rain detected' : 'Track is dry';
+    case 'fastest_lap':
+      return `${event['abbreviation'] as string ?? '?'} fastest lap ${event['lapTime'] as string ?? ''}`;
+    case 'personal_best':
+      return `${event['abbreviation'] as string ?? '?'} personal best ${event['lapTime'] as string ?? ''}`;
+    case 'retirement':
+      return `${event['abbreviation'] as string ?? '?'} retires from P${event['lastPosition'] as number ?? '?'} on lap ${event['lap'] as number ?? '?'}`;
+    case 'investigation':
+    case 'penalty':
+    case 'track_limits_deleted_lap':
+    case 'blue_flag':
+    case 'black_and_white':
+      return event['message'] as string ?? event.type;
+    case 'session_started':
+      return (event['previousPhase'] as string) === 'Aborted' ? 'Session resumed' : 'Session started';
+    case 'session_finished':
+      return 'Session finished';
+    case 'chequered_flag':
+      return event['leaderAbbreviation'] ? `Chequered flag — ${event['leaderAbbreviation'] as string} leads` : 'Chequered flag';
     default:
       return event.type;
   }
@@ -0,0 +1,61 @@
+import { useState } from 'react';
+import { Minus, Plus, Tv } from 'lucide-react';
+import { sendLiveDelayCommand } from '../api/client';
+import type { LiveDelay } from '../hooks/useWebSocket';
+
+interface LiveDelayControlsProps {
+  liveDelay: LiveDelay;
+}
+
+const inputClass =
+  'w-20 bg-gray-800/70 border border-gray-700/60 rounded-lg px-2 py-1 text-sm text-gray-200 font-mono tabular-nums focus:outline-none focus:ring-2 focus:ring-blue-500/40 focus:border-blue-500/60 transition-colors';
+
+export function LiveDelayControls({ liveDelay }: LiveDelayControlsProps) {
+  const { delaySeconds } = liveDelay;
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft === null) return;
+    const seconds = Number(draft);
+    if (draft.trim() !== '' && Number.isFinite(seconds)) {
+      void sendLiveDelayCommand('set', seconds);
+    }
+    setDraft(null);
+  };
+
+  return (
+    <div className="bg-gray-900/80 rounded-xl border border-gray-800/60 shadow-lg shadow-black/20 px-4 py-3 flex items-center gap-3">
+      <Tv size={16} className="text-gray-400 shrink-0" />
+      <span className="text-sm text-gray-300">Live delay</span>
+
+      <div className="flex items-center gap-1 ml-auto">
+        <button
+          onClick={() => void sendLiveDelayCommand('nudge', -1)}
+          className="text-gray-400 hover:text-gray-200 hover:bg-gray-800/60 p-1.5 rounded-lg transition-all duration-150"
+          title="1 second less"
+        >
+          <Minus size={14} />
+        </button>
+        <input
+          className={inputClass}
+          type="number"
+          min={0}
+          value={draft ?? String(delaySeconds)}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commit}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commit();
+          }}
+        />
+        <span className="text-xs text-gray-500">s</span>
+        <button
+          onClick={() => void sendLiveDelayCommand('nudge', 1)}
+          className="text-gray-400 hover:text-gray-200 hover:bg-gray-800/60 p-1.5 rounded-lg transition-all duration-150"
+          title="1 second more"
+        >
+          <Plus size={14} />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { Play, Pause, Square } from 'lucide-react';
+import { Play, Pause, Square, SkipBack, SkipForward, Radio } from 'lucide-react';
 import type { PlaybackState } from '../hooks/useWebSocket';
 
 interface PlaybackControlsProps {
@@ -8,8 +8,19 @@ interface PlaybackControlsProps {
 
 const SPEEDS = [0.5, 1, 2, 4, 10];
 
+/** Within this of the newest data counts as live */
+const LIVE_THRESHOLD_MS = 2000;
+
+function formatLag(ms: number): string {
+  const total = Math.round(ms / 1000);
+  const minutes = Math.floor(total / 60);
+  const seconds = String(total % 60).padStart(2, '0');
+  return `-${minutes}:${seconds}`;
+}
+
 export function PlaybackControls({ playbackState, sendCommand }: PlaybackControlsProps) {
-  const { status, speed, currentTime, startTime, endTime, sessionName } = playbackState;
+  const { mode, status, speed, currentTime, startTime, endTime, sessionName, liveLagMs } = playbackState;
+  const atLive = mode === 'live' && status === 'playing' && (liveLagMs ?? 0) < LIVE_THRESHOLD_MS;
 
   // Calculate progress percentage
   let progress = 0;
@@ -55,7 +66,13 @@ export function PlaybackControls({ playbackState, sendCommand }: PlaybackControl
       <div className="flex justify-between items-baseline">
         <span className="text-xs font-mono text-gray-600">{formatTime(startTime)}</span>
         <span className="text-sm font-mono font-medium text-gray-200 tabular-nums">{formatTime(currentTime)}</span>
-        <span className="text-xs font-mono text-gray-600">{formatTime(endTime)}</span>
+        {mode === 'live' ? (
+          <span className={`text-xs font-mono tabular-nums ${atLive ? 'text-red-400' : 'text-gray-400'}`}>
+            {atLive ? 'LIVE' : formatLag(liveLagMs ?? 0)}
+          </span>
+        ) : (
+          <span className="text-xs font-mono text-gray-600">{formatTime(endTime)}</span>
+        )}
       </div>
 
       {/* Controls */}
@@ -68,6 +85,14 @@ export function PlaybackControls({ playbackState, sendCommand }: PlaybackControl
           <Square size={16} />
         </button>
 
+        <button
+          onClick={() => sendCommand('prev_event')}
+          className="text-gray-400 hover:text-gray-200 hover:bg-gray-800/60 p-2.5 rounded-lg transition-all duration-150"
+          title="Previous event"
+        >
+          <SkipBack size={16} />
+        </button>
+
         {status === 'playing' ? (
           <button
             onClick={() => sendCommand('pause')}
@@ -86,6 +111,26 @@ export function PlaybackControls({ playbackState, sendCommand }: PlaybackControl
           </button>
         )}
 
+        <button
+          onClick={() => sendCommand('next_event')}
+          className="text-gray-400 hover:text-gray-200 hover:bg-gray-800/60 p-2.5 rounded-lg transition-all duration-150"
+          title="Next event"
+        >
+          <SkipForward size={16} />
+        </button>
+
+        <button
+          onClick={() => sendCommand('live')}
+          disabled={atLive}
+          className={`inline-flex items-center gap-1.5 text-xs px-2.5 py-1.5 rounded-lg transition-all duration-150 ${
+            atLive ? 'text-red-400' : 'text-gray-400 hover:text-white hover:bg-gray-800'
+          }`}
+          title={mode === 'live' ? 'Catch up to live' : 'Watch the live session'}
+        >
+          <Radio size={14} />
+          Live
+        </button>
+
         {/* Speed buttons */}
         <div className="flex gap-1">
           {SPEEDS.map((s) => (
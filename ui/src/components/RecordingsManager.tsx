@@ -0,0 +1,256 @@
+import { useState, useEffect, useRef } from 'react';
+import { Download, Trash2, Upload, Check, Pencil, Pin, Tag } from 'lucide-react';
+import {
+  ApiError,
+  deleteRecording,
+  fetchSessions,
+  recordingArchiveUrl,
+  updateRecording,
+  uploadRecording,
+  type RecordingEntry,
+} from '../api/client';
+
+interface RecordingsManagerProps {
+  onClose: () => void;
+}
+
+const inputClass =
+  'bg-gray-800/70 border border-gray-700/60 rounded-lg px-3 py-2 text-sm text-gray-200 placeholder:text-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500/40 focus:border-blue-500/60 transition-colors';
+
+const iconButtonClass =
+  'text-gray-500 hover:text-white hover:bg-gray-800 w-8 h-8 flex items-center justify-center rounded-lg transition-all duration-150 disabled:opacity-50 disabled:cursor-not-allowed';
+
+interface EditForm {
+  sessionName: string;
+  tags: string;
+  notes: string;
+}
+
+function RecordingRow({
+  recording,
+  onChange,
+  onError,
+}: {
+  recording: RecordingEntry;
+  onChange: () => void;
+  onError: (message: string) => void;
+}) {
+  const { id, metadata } = recording;
+  const [form, setForm] = useState<EditForm | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    try {
+      await action();
+      onChange();
+    } catch (err) {
+      onError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = (edit: EditForm) =>
+    run(async () => {
+      await updateRecording(id, {
+        sessionName: edit.sessionName,
+        tags: edit.tags.split(',').map((t) => t.trim()).filter(Boolean),
+        notes: edit.notes,
+      });
+      setForm(null);
+    });
+
+  const handleDelete = () => {
+    if (!window.confirm(`Delete ${metadata.sessionName}? This cannot be undone.`)) return;
+    void run(() => deleteRecording(id));
+  };
+
+  if (form) {
+    return (
+      <li className="bg-gray-800/40 rounded-lg p-3 space-y-2">
+        <input
+          className={`w-full ${inputClass}`}
+          placeholder="Name"
+          value={form.sessionName}
+          onChange={(e) => setForm({ ...form, sessionName: e.target.value })}
+        />
+        <input
+          className={`w-full ${inputClass}`}
+          placeholder="Tags, comma-separated"
+          value={form.tags}
+          onChange={(e) => setForm({ ...form, tags: e.target.value })}
+        />
+        <textarea
+          className={`w-full ${inputClass}`}
+          placeholder="Notes"
+          rows={2}
+          value={form.notes}
+          onChange={(e) => setForm({ ...form, notes: e.target.value })}
+        />
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={() => setForm(null)}
+            className="text-xs text-gray-400 hover:text-gray-200 hover:bg-gray-800/60 px-3 py-1.5 rounded-lg transition-all duration-150"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => void handleSave(form)}
+            disabled={busy || !form.sessionName.trim()}
+            className="inline-flex items-center gap-1 text-xs bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white font-medium px-3 py-1.5 rounded-lg transition-all duration-150"
+          >
+            <Check size={12} />
+            Save
+          </button>
+        </div>
+      </li>
+    );
+  }
+
+  return (
+    <li className="flex items-start gap-3 rounded-lg px-3 py-2 hover:bg-gray-800/40">
+      <div className="flex-1 min-w-0">
+        <div className="flex items-baseline gap-2">
+          {metadata.pinned && <Pin size={12} className="text-blue-400 shrink-0 self-center" />}
+          <span className="text-sm text-gray-200 truncate">{metadata.sessionName}</span>
+          <span className="text-[11px] font-mono text-gray-600 shrink-0">{id}</span>
+        </div>
+        {metadata.tags && metadata.tags.length > 0 && (
+          <div className="flex flex-wrap gap-1 mt-1">
+            {metadata.tags.map((tag) => (
+              <span
+                key={tag}
+                className="inline-flex items-center gap-1 text-[11px] text-gray-400 bg-gray-800/80 px-1.5 py-0.5 rounded"
+              >
+                <Tag size={10} />
+                {tag}
+              </span>
+            ))}
+          </div>
+        )}
+        {metadata.notes && <p className="text-xs text-gray-500 mt-1">{metadata.notes}</p>}
+      </div>
+      <div className="flex items-center shrink-0">
+        <button
+          title="Edit"
+          disabled={busy}
+          className={iconButtonClass}
+          onClick={() =>
+            setForm({
+              sessionName: metadata.sessionName,
+              tags: (metadata.tags ?? []).join(', '),
+              notes: metadata.notes ?? '',
+            })
+          }
+        >
+          <Pencil size={14} />
+        </button>
+        <button
+          title={metadata.pinned ? 'Unpin' : 'Pin — never delete automatically'}
+          disabled={busy}
+          className={`${iconButtonClass} ${metadata.pinned ? 'text-blue-400' : ''}`}
+          onClick={() => void run(() => updateRecording(id, { pinned: !metadata.pinned }))}
+        >
+          <Pin size={14} />
+        </button>
+        <a title="Download" href={recordingArchiveUrl(id)} download className={iconButtonClass}>
+          <Download size={14} />
+        </a>
+        <button title="Delete" disabled={busy} className={`${iconButtonClass} hover:text-red-400`} onClick={handleDelete}>
+          <Trash2 size={14} />
+        </button>
+      </div>
+    </li>
+  );
+}
+
+export function RecordingsManager({ onClose }: RecordingsManagerProps) {
+  const [recordings, setRecordings] = useState<RecordingEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const refresh = () => {
+    fetchSessions()
+      .then(setRecordings)
+      .catch((err: Error) => setError(err.message));
+  };
+
+  useEffect(refresh, []);
+
+  const handleUpload = async (file: File) => {
+    setError(null);
+    setUploading(true);
+    try {
+      try {
+        await uploadRecording(file);
+      } catch (err) {
+        const exists = err instanceof ApiError && err.status === 409;
+        if (!exists || !window.confirm(`${err.message}. Replace it?`)) throw err;
+        await uploadRecording(file, true);
+      }
+      refresh();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setUploading(false);
+      if (fileInput.current) fileInput.current.value = '';
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 animate-fade-in" onClick={onClose}>
+      <div className="bg-gray-900 rounded-2xl border border-gray-800/60 shadow-2xl shadow-black/40 p-6 max-w-2xl w-full mx-4 space-y-4 animate-slide-up" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-bold text-white">Recordings</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-white hover:bg-gray-800 w-8 h-8 flex items-center justify-center rounded-full transition-all duration-150 text-lg"
+          >
+            &times;
+          </button>
+        </div>
+
+        {error && <p className="text-xs text-red-400">{error}</p>}
+        {recordings === null && !error && <p className="text-xs text-gray-500">Loading recordings…</p>}
+        {recordings?.length === 0 && <p className="text-xs text-gray-500">No recorded sessions yet</p>}
+
+        {recordings && recordings.length > 0 && (
+          <ul className="space-y-1 max-h-96 overflow-y-auto">
+            {recordings.map((r) => (
+              <RecordingRow
+                key={`${r.id}-${r.metadata.sessionName}`}
+                recording={r}
+                onChange={refresh}
+                onError={setError}
+              />
+            ))}
+          </ul>
+        )}
+
+        <div className="flex justify-between items-center gap-2 pt-3 border-t border-gray-800/40">
+          <p className="text-xs text-gray-600">Upload a recording downloaded as .tar.gz</p>
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".tar.gz,.tgz,application/gzip"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) void handleUpload(file);
+            }}
+          />
+          <button
+            onClick={() => fileInput.current?.click()}
+            disabled={uploading}
+            className="inline-flex items-center gap-1.5 text-sm bg-blue-600 hover:bg-blue-500 active:bg-blue-700 disabled:opacity-50 text-white font-medium px-4 py-2 rounded-lg transition-all duration-150 shadow-md shadow-blue-900/30"
+          >
+            <Upload size={14} />
+            {uploading ? 'Uploading…' : 'Upload'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,32 +1,60 @@
 import { useState, useEffect } from 'react';
-import { Film, FolderOpen } from 'lucide-react';
-import { fetchSessions, loadSession, type RecordingEntry } from '../api/client';
+import { Film, FolderOpen, Globe, Settings2 } from 'lucide-react';
+import {
+  fetchSessions,
+  fetchOpenF1Sessions,
+  loadSession,
+  loadOpenF1Session,
+  type OpenF1Session,
+  type RecordingEntry,
+} from '../api/client';
+import { RecordingsManager } from './RecordingsManager';
 import type { PlaybackState } from '../hooks/useWebSocket';
 
 interface SessionSelectorProps {
   playbackState: PlaybackState | null;
 }
 
-export function SessionSelector({ playbackState }: SessionSelectorProps) {
+type Tab = 'recordings' | 'openf1';
+
+/** OpenF1 has data from 2023 onwards */
+const FIRST_OPENF1_YEAR = 2023;
+
+const sessionButtonClass =
+  'inline-flex items-center gap-1.5 text-xs bg-gray-800/80 hover:bg-gray-700/80 active:bg-gray-600/80 disabled:opacity-50 disabled:cursor-not-allowed text-gray-300 px-3 py-2 rounded-lg border border-gray-700/40 transition-all duration-150 hover:border-gray-600/60';
+
+function TabButton({ active, onClick, children }: { active: boolean; onClick: () => void; children: string }) {
+  return (
+    <button
+      onClick={onClick}
+      className={`text-xs font-semibold uppercase tracking-wider px-2 py-1 rounded-md transition-colors duration-150 ${
+        active ? 'text-gray-200 bg-gray-800/80' : 'text-gray-500 hover:text-gray-300'
+      }`}
+    >
+      {children}
+    </button>
+  );
+}
+
+function RecordingList({
+  loading,
+  refreshKey,
+  onLoad,
+}: {
+  loading: boolean;
+  /** Changes whenever the list should be fetched again */
+  refreshKey: number;
+  onLoad: (dir: string) => void;
+}) {
   const [sessions, setSessions] = useState<RecordingEntry[]>([]);
-  const [loading, setLoading] = useState(false);
 
   useEffect(() => {
     fetchSessions().then(setSessions).catch(() => {});
-  }, []);
-
-  const handleLoad = async (dir: string) => {
-    setLoading(true);
-    try {
-      await loadSession(dir);
-    } finally {
-      setLoading(false);
-    }
-  };
+  }, [refreshKey]);
 
-  if (sessions.length === 0 && !playbackState?.sessionName) {
+  if (sessions.length === 0) {
     return (
-      <div className="bg-gray-900/80 rounded-xl border border-gray-800/60 shadow-lg shadow-black/20 p-8 text-center">
+      <div className="py-4 text-center">
         <FolderOpen size={32} className="text-gray-600 mx-auto mb-3" />
         <p className="text-sm text-gray-400 mb-1">No recorded sessions found</p>
         <p className="text-xs text-gray-600">Record a live session or place recordings in the data directory.</p>
@@ -34,30 +62,130 @@ export function SessionSelector({ playbackState }: SessionSelectorProps) {
     );
   }
 
+  return (
+    <div className="flex flex-wrap gap-2">
+      {sessions.map((s) => (
+        <button key={s.id} onClick={() => onLoad(s.dir)} disabled={loading} className={sessionButtonClass}>
+          <Film size={12} className="text-gray-500" />
+          <span>{s.metadata.sessionName}</span>
+          <span className="text-gray-600">{s.metadata.sessionType}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function OpenF1List({ loading, onLoad }: { loading: boolean; onLoad: (sessionKey: number) => void }) {
+  const currentYear = new Date().getFullYear();
+  const [year, setYear] = useState(currentYear);
+  const [sessions, setSessions] = useState<OpenF1Session[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSessions(null);
+    setError(null);
+    fetchOpenF1Sessions(year)
+      .then((list) => setSessions([...list].sort((a, b) => b.date_start.localeCompare(a.date_start))))
+      .catch((err: Error) => setError(err.message));
+  }, [year]);
+
+  const years = Array.from({ length: currentYear - FIRST_OPENF1_YEAR + 1 }, (_, i) => currentYear - i);
+
+  return (
+    <div className="space-y-3">
+      <select
+        value={year}
+        onChange={(e) => setYear(Number(e.target.value))}
+        className="bg-gray-800/70 border border-gray-700/60 rounded-lg px-2 py-1 text-xs text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500/40"
+      >
+        {years.map((y) => (
+          <option key={y} value={y}>
+            {y}
+          </option>
+        ))}
+      </select>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      {!error && sessions === null && <p className="text-xs text-gray-500">Loading sessions…</p>}
+      {sessions?.length === 0 && <p className="text-xs text-gray-500">No sessions for {year}</p>}
+
+      {sessions && sessions.length > 0 && (
+        <div className="flex flex-wrap gap-2 max-h-48 overflow-y-auto">
+          {sessions.map((s) => (
+            <button key={s.session_key} onClick={() => onLoad(s.session_key)} disabled={loading} className={sessionButtonClass}>
+              <Globe size={12} className="text-gray-500" />
+              <span>{s.meeting_name || s.country_name}</span>
+              <span className="text-gray-600">{s.session_name}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function SessionSelector({ playbackState }: SessionSelectorProps) {
+  const [tab, setTab] = useState<Tab>('recordings');
+  const [loading, setLoading] = useState(false);
+  const [managing, setManaging] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  const withLoading = async (load: () => Promise<unknown>) => {
+    setLoading(true);
+    try {
+      await load();
+    } finally {
+      setLoading(false);
+    }
+  };
+
   return (
     <div className="bg-gray-900/80 rounded-xl border border-gray-800/60 shadow-lg shadow-black/20 p-4">
       <div className="flex items-center justify-between mb-3">
-        <h2 className="text-xs font-semibold uppercase tracking-wider text-gray-500">Sessions</h2>
-        {playbackState?.sessionName && (
-          <span className="text-xs text-gray-400 bg-gray-800/60 px-2 py-0.5 rounded-md">
-            Loaded: {playbackState.sessionName}
-          </span>
-        )}
-      </div>
-      <div className="flex flex-wrap gap-2">
-        {sessions.map((s) => (
-          <button
-            key={s.directory}
-            onClick={() => void handleLoad(s.directory)}
-            disabled={loading}
-            className="inline-flex items-center gap-1.5 text-xs bg-gray-800/80 hover:bg-gray-700/80 active:bg-gray-600/80 disabled:opacity-50 disabled:cursor-not-allowed text-gray-300 px-3 py-2 rounded-lg border border-gray-700/40 transition-all duration-150 hover:border-gray-600/60"
-          >
-            <Film size={12} className="text-gray-500" />
-            <span>{s.metadata.sessionName}</span>
-            <span className="text-gray-600">{s.metadata.sessionType}</span>
-          </button>
-        ))}
+        <div className="flex items-center gap-1">
+          <TabButton active={tab === 'recordings'} onClick={() => setTab('recordings')}>
+            Recordings
+          </TabButton>
+          <TabButton active={tab === 'openf1'} onClick={() => setTab('openf1')}>
+            OpenF1
+          </TabButton>
+        </div>
+        <div className="flex items-center gap-2">
+          {playbackState?.sessionName && (
+            <span className="text-xs text-gray-400 bg-gray-800/60 px-2 py-0.5 rounded-md">
+              Loaded: {playbackState.sessionName}
+            </span>
+          )}
+          {tab === 'recordings' && (
+            <button
+              onClick={() => setManaging(true)}
+              className="inline-flex items-center gap-1 text-xs text-gray-500 hover:text-gray-300 px-2 py-1 rounded-md transition-colors duration-150"
+            >
+              <Settings2 size={12} />
+              Manage
+            </button>
+          )}
+        </div>
       </div>
+
+      {tab === 'recordings' ? (
+        <RecordingList
+          loading={loading}
+          refreshKey={refreshKey}
+          onLoad={(dir) => void withLoading(() => loadSession(dir))}
+        />
+      ) : (
+        <OpenF1List loading={loading} onLoad={(key) => void withLoading(() => loadOpenF1Session(key))} />
+      )}
+
+      {managing && (
+        <RecordingsManager
+          onClose={() => {
+            setManaging(false);
+            setRefreshKey((k) => k + 1);
+          }}
+        />
+      )}
     </div>
   );
 }
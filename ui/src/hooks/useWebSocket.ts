@@ -8,6 +8,7 @@ export interface PlaybackState {
   startTime: string | null;
   endTime: string | null;
   sessionName?: string;
+  liveLagMs?: number;
 }
 
 export interface F1Event {
@@ -24,9 +25,14 @@ export interface SessionState {
   drivers: Record<string, { driverNumber: string; abbreviation: string; teamName: string; teamColor: string }>;
   timing: Record<string, { driverNumber: string; position: number; gapToLeader: string; inPit: boolean; retired: boolean }>;
   stints: Record<string, { compound: string; tyreAge: number; new: boolean }>;
+  positions?: Record<string, { driverNumber: string; x: number; y: number; z: number; onTrack: boolean }>;
   timestamp: string;
 }
 
+export interface LiveDelay {
+  delaySeconds: number;
+}
+
 export interface WSMessage {
   type: string;
   [key: string]: unknown;
@@ -37,6 +43,7 @@ export function useWebSocket() {
   const [playbackState, setPlaybackState] = useState<PlaybackState | null>(null);
   const [sessionState, setSessionState] = useState<SessionState | null>(null);
   const [events, setEvents] = useState<F1Event[]>([]);
+  const [liveDelay, setLiveDelay] = useState<LiveDelay | null>(null);
   const wsRef = useRef<WebSocket | null>(null);
 
   const sendCommand = useCallback((command: string, value?: string | number) => {
@@ -84,6 +91,9 @@ export function useWebSocket() {
             setSessionState(msg['state'] as SessionState);
             setPlaybackState(msg['playbackState'] as PlaybackState);
             break;
+          case 'live_delay':
+            setLiveDelay(msg as unknown as LiveDelay);
+            break;
           case 'playback_finished':
             setPlaybackState((prev) => prev ? { ...prev, status: 'finished' } : null);
             break;
@@ -98,5 +108,5 @@ export function useWebSocket() {
     };
   }, []);
 
-  return { connected, playbackState, sessionState, events, sendCommand };
+  return { connected, playbackState, sessionState, events, liveDelay, sendCommand };
 }